@@ -1,8 +1,12 @@
 import dotenv from 'dotenv';
-import { parseNumber, parseBoolean, parseArray } from '../utils/parser';
+import { parseNumber, parseBoolean, parseArray, parseArgs, parseRecord, parseNumberRecord, parseRetryPolicy } from '../utils/parser';
+import { CopyMode } from '../types';
 
 dotenv.config();
 
+const maxRetries: number = parseNumber(process.env.MAX_RETRIES, 3);
+const retryDelay: number = parseNumber(process.env.RETRY_DELAY, 2000);
+
 export const config = {
   server: {
     port: parseNumber(process.env.PORT, 3000),
@@ -10,26 +14,114 @@ export const config = {
     workers: parseNumber(process.env.WORKERS, 4),
     maxRequestSize: process.env.MAX_REQUEST_SIZE || '50mb',
     timeout: parseNumber(process.env.SERVER_TIMEOUT, 30000),
-    keepAliveTimeout: parseNumber(process.env.KEEP_ALIVE_TIMEOUT, 5000)
+    keepAliveTimeout: parseNumber(process.env.KEEP_ALIVE_TIMEOUT, 5000),
+    maxStatusWait: parseNumber(process.env.MAX_STATUS_WAIT, 60000) // longest ?wait= on the status routes
+  },
+  cluster: {
+    rpcTimeout: parseNumber(process.env.CLUSTER_RPC_TIMEOUT, 30000) // calls made while handling a route use its deadline instead
   },
   security: {
     allowedOrigins: parseArray(process.env.ALLOWED_ORIGINS, ['http://localhost:3000', 'http://localhost:8080']),
     rateLimitWindowMs: parseNumber(process.env.RATE_LIMIT_WINDOW_MS, 900000), // 15 minutes
-    rateLimitMax: parseNumber(process.env.RATE_LIMIT_MAX, 1000)
+    rateLimitMax: parseNumber(process.env.RATE_LIMIT_MAX, 1000),
+    adminApiKey: process.env.ADMIN_API_KEY || '' // required as a Bearer token on admin routes when set
   },
   printing: {
     maxQueueSize: parseNumber(process.env.MAX_QUEUE_SIZE, 10000),
-    maxRetries: parseNumber(process.env.MAX_RETRIES, 3),
-    retryDelay: parseNumber(process.env.RETRY_DELAY, 2000),
+    maxRetries,
+    retryDelay,
+    // Per failure category, e.g. RETRY_POLICY_SPOOL=maxAttempts:5,baseDelayMs:2000,maxDelayMs:30000
+    retryPolicies: {
+      render: parseRetryPolicy(process.env.RETRY_POLICY_RENDER, { maxAttempts: 2, baseDelayMs: 1000, maxDelayMs: 10000 }),
+      spool: parseRetryPolicy(process.env.RETRY_POLICY_SPOOL, { maxAttempts: 4, baseDelayMs: retryDelay, maxDelayMs: 30000 }),
+      printer_unavailable: parseRetryPolicy(process.env.RETRY_POLICY_PRINTER_UNAVAILABLE, { maxAttempts: 6, baseDelayMs: 5000, maxDelayMs: 60000 }),
+      browser_crash: parseRetryPolicy(process.env.RETRY_POLICY_BROWSER_CRASH, { maxAttempts: 3, baseDelayMs: 3000, maxDelayMs: 30000 }),
+      invalid_content: parseRetryPolicy(process.env.RETRY_POLICY_INVALID_CONTENT, { maxAttempts: 1, baseDelayMs: 0, maxDelayMs: 0 }),
+      unknown: parseRetryPolicy(process.env.RETRY_POLICY_UNKNOWN, { maxAttempts: maxRetries + 1, baseDelayMs: retryDelay, maxDelayMs: 60000 })
+    },
+    retryJitter: parseBoolean(process.env.RETRY_JITTER, true),
     processingTimeout: parseNumber(process.env.PROCESSING_TIMEOUT, 30000),
     batchSize: parseNumber(process.env.BATCH_SIZE, 10),
     maxConcurrentJobs: parseNumber(process.env.MAX_CONCURRENT_JOBS, 50),
+    maxInFlightPerPrinter: parseNumber(process.env.MAX_IN_FLIGHT_PER_PRINTER, 2),
+    printerMaxInFlight: parseNumberRecord(process.env.PRINTER_MAX_IN_FLIGHT, {}), // per-printer overrides
+    dispatchStrategy: (process.env.DISPATCH_STRATEGY || 'round-robin') as 'round-robin' | 'weighted',
+    printerWeights: parseNumberRecord(process.env.PRINTER_WEIGHTS, {}), // weighted dispatch, default weight 1
+    defaultTtlMs: { // per priority, 0 = jobs never expire
+      low: parseNumber(process.env.JOB_TTL_LOW_MS, 0),
+      medium: parseNumber(process.env.JOB_TTL_MEDIUM_MS, 0),
+      high: parseNumber(process.env.JOB_TTL_HIGH_MS, 0)
+    },
+    defaultContentTypes: parseArray(process.env.DEFAULT_CONTENT_TYPES, ['html', 'pdf']), // accepted by printers not listed below
+    printerContentTypes: parseRecord(process.env.PRINTER_CONTENT_TYPES, {}), // e.g. Nursery Zebra:html|zpl
+    defaultCopyMode: (process.env.DEFAULT_COPY_MODE || 'multi-page') as CopyMode,
+    printerCopyModes: parseRecord(process.env.PRINTER_COPY_MODES, {}) as Record<string, CopyMode>, // e.g. Office Laser:per-copy
+    zpl: {
+      printers: parseArray(process.env.ZPL_PRINTERS, []), // Zebra printers rendered as ZPL, '*' = all of them
+      dpi: parseNumber(process.env.ZPL_DPI, 203),
+      printerDpi: parseNumberRecord(process.env.PRINTER_DPI, {}), // per-printer overrides, e.g. 300 dpi models
+      threshold: parseNumber(process.env.ZPL_THRESHOLD, 128) // luminance below this prints black
+    },
+    renderAllowedHosts: parseArray(process.env.RENDER_ALLOWED_HOSTS, []), // hosts label HTML may load from, '*.domain' or '*'
+    renderCache: { // rendered PDFs reused for copies, retries and reprints; 0 disables a tier
+      memoryBytes: parseNumber(process.env.RENDER_CACHE_MEMORY_MB, 64) * 1024 * 1024,
+      diskBytes: parseNumber(process.env.RENDER_CACHE_DISK_MB, 0) * 1024 * 1024, // opt-in: cached labels carry personal data
+      dir: process.env.RENDER_CACHE_DIR || 'data/render-cache',
+      maxAgeMs: parseNumber(process.env.RENDER_CACHE_MAX_AGE_MS, 900000) // 0 keeps entries until evicted
+    },
     printerHealthCheckInterval: parseNumber(process.env.PRINTER_HEALTH_CHECK_INTERVAL, 30000),
     ieTimeout: parseNumber(process.env.IE_PRINT_TIMEOUT, 10000),
-    puppeteerPagePoolSize: parseNumber(process.env.PUPPETEER_PAGE_POOL_SIZE, 5),
-    puppeteerBrowserHealthInterval: parseNumber(process.env.PUPPETEER_HEALTH_INTERVAL, 30000),
-    puppeteerMaxPages: parseNumber(process.env.PUPPETEER_MAX_PAGES, 20),
-    puppeteerBatchSize: parseNumber(process.env.PUPPETEER_BATCH_SIZE, 5)
+    puppeteerPagePoolSize: parseNumber(process.env.PUPPETEER_PAGE_POOL_SIZE, 5), // warm pages kept open
+    puppeteerBrowserHealthInterval: parseNumber(process.env.PUPPETEER_HEALTH_INTERVAL, 30000), // crash and memory checks
+    puppeteerBrowsers: parseNumber(process.env.PUPPETEER_BROWSERS, 2), // browser processes; page limits below are split between them
+    puppeteerBrowserMaxRenders: parseNumber(process.env.PUPPETEER_BROWSER_MAX_RENDERS, 1000), // restarted after this many labels, 0 = never
+    puppeteerBrowserMaxRss: parseNumber(process.env.PUPPETEER_BROWSER_MAX_RSS_MB, 1024) * 1024 * 1024, // or above this memory, 0 = never
+    puppeteerBrowserDrainTimeout: parseNumber(process.env.PUPPETEER_BROWSER_DRAIN_TIMEOUT, 30000), // wait for in-flight labels before a restart
+    puppeteerMaxPages: parseNumber(process.env.PUPPETEER_MAX_PAGES, 20), // open pages, idle or in use
+    puppeteerBatchSize: parseNumber(process.env.PUPPETEER_BATCH_SIZE, 5), // pages opened at once while warming
+    puppeteerPageMaxUses: parseNumber(process.env.PUPPETEER_PAGE_MAX_USES, 100), // recycled after this many labels
+    puppeteerPageAcquireTimeout: parseNumber(process.env.PUPPETEER_PAGE_ACQUIRE_TIMEOUT, 10000),
+    chromePath: process.env.CHROME_PATH || undefined, // otherwise the standard install locations, then Puppeteer's Chromium
+    puppeteerHeadless: (process.env.PUPPETEER_HEADLESS || 'true') as 'true' | 'shell' | 'false',
+    puppeteerArgs: parseArgs(process.env.PUPPETEER_ARGS, []), // replaces the default launch args when set
+    puppeteerExtraArgs: parseArgs(process.env.PUPPETEER_EXTRA_ARGS, []) // added to them, e.g. --no-sandbox in containers
+  },
+  idempotency: {
+    windowMs: parseNumber(process.env.IDEMPOTENCY_WINDOW_MS, 3600000) // 1 hour
+  },
+  deadLetter: {
+    maxEntries: parseNumber(process.env.DEAD_LETTER_MAX_ENTRIES, 5000)
+  },
+  webhooks: {
+    driver: process.env.WEBHOOK_STORE || 'file', // 'file' | 'memory', independent of JOB_STORE
+    storePath: process.env.WEBHOOK_STORE_PATH || 'data/webhooks.json',
+    callbackSecret: process.env.WEBHOOK_CALLBACK_SECRET || '', // signs deliveries to metadata.callbackUrl, which is refused while unset
+    callbackAllowedHosts: parseArray(process.env.WEBHOOK_CALLBACK_ALLOWED_HOSTS, []), // hosts metadata.callbackUrl may point at, '*.domain' or '*'
+    timeout: parseNumber(process.env.WEBHOOK_TIMEOUT, 5000),
+    retryPolicy: parseRetryPolicy(process.env.WEBHOOK_RETRY_POLICY, { maxAttempts: 5, baseDelayMs: 1000, maxDelayMs: 60000 }),
+    deliveryLogSize: parseNumber(process.env.WEBHOOK_DELIVERY_LOG_SIZE, 1000)
+  },
+  templates: {
+    driver: process.env.TEMPLATE_STORE || 'file', // 'file' | 'memory', independent of JOB_STORE
+    storePath: process.env.TEMPLATE_STORE_PATH || 'data/templates.json',
+    maxVersions: parseNumber(process.env.TEMPLATE_MAX_VERSIONS, 20) // older versions of a template are dropped
+  },
+  assets: {
+    driver: process.env.ASSET_STORE || 'file', // 'file' | 'memory', independent of JOB_STORE
+    dir: process.env.ASSET_DIR || 'data/assets',
+    maxBytes: parseNumber(process.env.ASSET_MAX_MB, 5) * 1024 * 1024, // per uploaded asset or remote response
+    remoteTtlMs: parseNumber(process.env.ASSET_REMOTE_TTL_MS, 3600000), // remote images, fonts and stylesheets
+    remoteTimeout: parseNumber(process.env.ASSET_REMOTE_TIMEOUT, 5000),
+    remoteCacheBytes: parseNumber(process.env.ASSET_REMOTE_CACHE_MB, 32) * 1024 * 1024
+  },
+  events: {
+    bufferSize: parseNumber(process.env.EVENT_BUFFER_SIZE, 1000), // events kept for Last-Event-ID resume
+    heartbeatInterval: parseNumber(process.env.EVENT_HEARTBEAT_INTERVAL, 15000)
+  },
+  persistence: {
+    driver: process.env.JOB_STORE || 'file', // 'file' | 'memory'
+    journalPath: process.env.JOB_JOURNAL_PATH || 'data/jobs.journal',
+    compactionThreshold: parseNumber(process.env.JOB_JOURNAL_COMPACT_THRESHOLD, 5000)
   },
   logging: {
     level: process.env.LOG_LEVEL || 'info',
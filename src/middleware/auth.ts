@@ -0,0 +1,32 @@
+// src/middleware/auth.ts - Bearer token check for admin routes
+
+import { Request, Response, NextFunction } from 'express';
+import { createHash, timingSafeEqual } from 'crypto';
+import { config } from '../config';
+import logger from '../utils/logger';
+
+const digest = (value: string): Buffer => createHash('sha256').update(value).digest();
+
+// Open when ADMIN_API_KEY is unset, so existing deployments keep working
+export const requireAdminKey = (req: Request, res: Response, next: NextFunction): void => {
+  const adminApiKey: string = config.security.adminApiKey;
+  if (!adminApiKey) {
+    next();
+    return;
+  }
+
+  const header: string = req.get('Authorization') || '';
+  const token: string = header.startsWith('Bearer ') ? header.slice('Bearer '.length) : '';
+
+  // Hashing first gives equal-length buffers for the constant-time compare
+  if (!token || !timingSafeEqual(digest(token), digest(adminApiKey))) {
+    logger.warn(`Rejected admin request ${req.method} ${req.path} - ${req.ip}`);
+    res.status(401).json({
+      success: false,
+      error: 'Unauthorized'
+    });
+    return;
+  }
+
+  next();
+};
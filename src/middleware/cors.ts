@@ -11,8 +11,9 @@ export const corsConfig = (req: Request, res: Response, next: NextFunction): voi
       res.header('Access-Control-Allow-Origin', origin || '*');
     }
 
-    res.header('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
-    res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-Requested-With, X-Forwarded-For');
+    res.header('Access-Control-Allow-Methods', 'GET, POST, PUT, PATCH, DELETE, OPTIONS');
+    res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-Requested-With, X-Forwarded-For, Idempotency-Key');
+    res.header('Access-Control-Expose-Headers', 'Idempotent-Replayed, Preview-Warnings, Preview-Pages');
     res.header('Access-Control-Allow-Credentials', 'true');
 
     if (req.headers['access-control-request-private-network']) {
@@ -35,6 +35,18 @@ export const globalTimeoutMiddleware = (timeoutMs: number = 30000) => {
   };
 };
 
+// Long-poll routes hold the socket idle for up to ?wait= ms. Socket timeouts are shared,
+// so this moves the one set by globalTimeoutMiddleware and printRouteTimeout past the wait.
+export const waitAwareTimeout = (graceMs: number = 5000) => {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const waitMs: number = Number(req.query.wait) || 0;
+    if (waitMs > 0) {
+      res.setTimeout(waitMs + graceMs);
+    }
+    next();
+  };
+};
+
 // Specific timeout for print routes
 export const printRouteTimeout = (timeoutMs: number = 15000) => {
   return (req: Request, res: Response, next: NextFunction): void => {
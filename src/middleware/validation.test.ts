@@ -0,0 +1,128 @@
+import { NextFunction, Request, Response } from 'express';
+import { validateJobListQuery, validatePrintRequest } from './validation';
+import { config } from '../config';
+
+const run = (middleware: (req: Request, res: Response, next: NextFunction) => void, req: Partial<Request>) => {
+  const res = { status: jest.fn().mockReturnThis(), json: jest.fn().mockReturnThis() };
+  const next = jest.fn();
+
+  middleware(req as Request, res as unknown as Response, next);
+  return { req, res, next };
+};
+
+const label = {
+  htmlContent: Buffer.from('<p>Test Child</p>').toString('base64'),
+  printerName: 'Nursery Zebra',
+  printMedia: 'Label',
+  margin: { top: '0', right: '0', bottom: '0', left: '0' },
+  width: '2in',
+  height: '1in'
+};
+
+describe('validatePrintRequest', () => {
+  it('passes the validated body on, with defaults applied', () => {
+    const { req, next } = run(validatePrintRequest, { body: { labels: [label], metadata: {} } });
+
+    expect(next).toHaveBeenCalled();
+    expect(req.body.labels[0].copies).toBe(1);
+    expect(req.body.metadata.priority).toBe('medium');
+  });
+
+  it('accepts raw labels without the HTML layout fields', () => {
+    const zpl = { printerName: 'Nursery Zebra', printMedia: 'Label', contentType: 'zpl', content: Buffer.from('^XA^FDTest Child^FS^XZ').toString('base64') };
+    const pdf = { printerName: 'Office Laser', printMedia: 'Label', contentType: 'pdf', content: Buffer.from('%PDF-1.7\n').toString('base64') };
+    const epl = { printerName: 'Lobby Eltron', printMedia: 'Label', contentType: 'epl', content: Buffer.from('N\nA50,0,0,1,1,1,N,"Test"\nP1\n').toString('base64') };
+
+    const { req, next } = run(validatePrintRequest, { body: { labels: [zpl, pdf, epl], metadata: {} } });
+
+    expect(next).toHaveBeenCalled();
+    expect(req.body.labels.map((validated: { copies: number; }) => validated.copies)).toEqual([1, 1, 1]);
+  });
+
+  it('rejects raw content that does not look like its content type', () => {
+    const notZpl = { printerName: 'Nursery Zebra', printMedia: 'Label', contentType: 'zpl', content: Buffer.from('<p>Test Child</p>').toString('base64') };
+    const notPdf = { printerName: 'Office Laser', printMedia: 'Label', contentType: 'pdf', content: Buffer.from('hello').toString('base64') };
+
+    const { res, next } = run(validatePrintRequest, { body: { labels: [notZpl, notPdf], metadata: {} } });
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(res.json.mock.calls[0][0].details).toEqual([
+      expect.stringContaining('is not a ZPL program')
+    ]);
+  });
+
+  it('still requires the layout fields for HTML labels', () => {
+    const { htmlContent, printerName, printMedia } = label;
+    const { res } = run(validatePrintRequest, { body: { labels: [{ htmlContent, printerName, printMedia }], metadata: {} } });
+
+    expect(res.status).toHaveBeenCalledWith(400);
+  });
+
+  it('rejects a body without labels', () => {
+    const { res, next } = run(validatePrintRequest, { body: { labels: [], metadata: {} } });
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(400);
+  });
+
+  describe('callbackUrl', () => {
+    const webhooks = { ...config.webhooks };
+    const callback = (callbackUrl: string) => ({ body: { labels: [label], metadata: { callbackUrl } } });
+
+    beforeEach(() => {
+      config.webhooks.callbackSecret = 'callback-secret';
+      config.webhooks.callbackAllowedHosts = ['checkin.example.org'];
+    });
+
+    afterEach(() => {
+      Object.assign(config.webhooks, webhooks);
+    });
+
+    it('accepts a callback to an allowed host', () => {
+      const { next } = run(validatePrintRequest, callback('https://checkin.example.org/print-callback'));
+
+      expect(next).toHaveBeenCalled();
+    });
+
+    it('rejects callbacks while WEBHOOK_CALLBACK_SECRET is unset', () => {
+      config.webhooks.callbackSecret = '';
+      const { res, next } = run(validatePrintRequest, callback('https://checkin.example.org/print-callback'));
+
+      expect(next).not.toHaveBeenCalled();
+      expect(res.json.mock.calls[0][0].details).toEqual([expect.stringContaining('requires WEBHOOK_CALLBACK_SECRET')]);
+    });
+
+    it('rejects callbacks to other hosts', () => {
+      const { res, next } = run(validatePrintRequest, callback('http://169.254.169.254/latest/meta-data'));
+
+      expect(next).not.toHaveBeenCalled();
+      expect(res.json.mock.calls[0][0].details).toEqual([expect.stringContaining('not in WEBHOOK_CALLBACK_ALLOWED_HOSTS')]);
+    });
+  });
+});
+
+describe('validateJobListQuery', () => {
+  it('converts query strings to numbers, dates and arrays', () => {
+    const { req, next } = run(validateJobListQuery, {
+      query: { userId: '42', status: 'queued', from: '2026-01-01T00:00:00Z', limit: '10' }
+    });
+
+    expect(next).toHaveBeenCalled();
+    expect(req.query).toEqual({
+      userId: 42,
+      status: ['queued'],
+      from: new Date('2026-01-01T00:00:00Z'),
+      limit: 10,
+      sortBy: 'timestamp',
+      order: 'desc'
+    });
+  });
+
+  it('rejects a cursor it did not issue', () => {
+    const { res, next } = run(validateJobListQuery, { query: { cursor: 'not-a-cursor' } });
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(400);
+  });
+});
@@ -1,46 +1,290 @@
 import Joi from 'joi';
 import { Request, Response, NextFunction } from 'express';
-import { PrintRequest } from '../types';
+import { JobListQuery, PrintRequest } from '../types';
+import { config } from '../config';
+import { isCallbackUrlAllowed } from '../utils/network';
+
+// Fields every label has, whatever its content type
+const labelBaseFields = {
+  userId: Joi.number().integer().optional(),
+  name: Joi.string().optional(),
+  printerName: Joi.string().required(),
+  printMedia: Joi.string().valid('Wristband', 'Label').required(),
+  mpGroup: Joi.object({
+    id: Joi.number().integer().required(),
+    name: Joi.string().valid('Minors', 'Adults', 'Youth', 'Kids', 'Bears', 'Nursery').required(),
+    print: Joi.string().valid('Label', 'Wristband').required()
+  }).optional(),
+  copies: Joi.number().integer().min(1).max(10).default(1),
+  clientId: Joi.string().max(128).optional()
+};
+
+const marginSchema: Joi.ObjectSchema = Joi.object({
+  top: Joi.string().required(),
+  right: Joi.string().required(),
+  bottom: Joi.string().required(),
+  left: Joi.string().required()
+});
+
+const htmlLabelSchema: Joi.ObjectSchema = Joi.object({
+  ...labelBaseFields,
+  contentType: Joi.string().valid('html').optional(),
+  htmlContent: Joi.string().base64().required(),
+  margin: marginSchema.required(),
+  width: Joi.string().required(),
+  height: Joi.string().required(),
+  orientation: Joi.string().valid('portrait', 'landscape').optional(),
+  renderMode: Joi.string().valid('pdf', 'zpl').optional()
+});
+
+// templateId + data instead of htmlContent; layout fields override the template's defaults
+const templateLabelSchema: Joi.ObjectSchema = Joi.object({
+  ...labelBaseFields,
+  printMedia: Joi.string().valid('Wristband', 'Label').optional(),
+  contentType: Joi.string().valid('html').optional(),
+  templateId: Joi.string().required(),
+  templateVersion: Joi.number().integer().min(1).optional(),
+  data: Joi.object().unknown(true).optional(),
+  margin: marginSchema.optional(),
+  width: Joi.string().optional(),
+  height: Joi.string().optional(),
+  orientation: Joi.string().valid('portrait', 'landscape').optional(),
+  renderMode: Joi.string().valid('pdf', 'zpl').optional()
+});
+
+// Base64 payload whose decoded start must match the format's signature
+const rawContent = (signature: RegExp, description: string): Joi.StringSchema =>
+  Joi.string().base64().required().custom((value: string, helpers: Joi.CustomHelpers) => {
+    const head: string = Buffer.from(value.slice(0, 1024), 'base64').toString('latin1').trimStart();
+    return signature.test(head) ? value : helpers.message({ custom: `{{#label}} is not ${description}` });
+  });
+
+const zplLabelSchema: Joi.ObjectSchema = Joi.object({
+  ...labelBaseFields,
+  contentType: Joi.string().valid('zpl').required(),
+  content: rawContent(/^[\^~]/, 'a ZPL program (must start with ^ or ~)')
+});
+
+const eplLabelSchema: Joi.ObjectSchema = Joi.object({
+  ...labelBaseFields,
+  contentType: Joi.string().valid('epl').required(),
+  content: Joi.string().base64().required() // EPL has no fixed preamble to check
+});
+
+const pdfLabelSchema: Joi.ObjectSchema = Joi.object({
+  ...labelBaseFields,
+  contentType: Joi.string().valid('pdf').required(),
+  content: rawContent(/^%PDF-/, 'a PDF document')
+});
+
+// A label as sent to /submit; printerName is optional and only picks the barcode resolution
+const previewRequestSchema: Joi.ObjectSchema = Joi.object({
+  label: Joi.alternatives().conditional('.templateId', {
+    is: Joi.exist(),
+    then: templateLabelSchema.keys({ printerName: Joi.string().optional() }),
+    otherwise: htmlLabelSchema.keys({ printerName: Joi.string().optional() })
+  }).required(),
+  format: Joi.string().valid('pdf', 'png').optional(), // png when omitted
+  dpi: Joi.number().integer().min(72).max(1200).optional() // png resolution, the printer's dpi when omitted
+});
 
 const printRequestSchema: Joi.ObjectSchema = Joi.object({
   labels: Joi.array().items(
-    Joi.object({
-      userId: Joi.number().integer().optional(),
-      name: Joi.string().optional(),
-      htmlContent: Joi.string().base64().required(),
-      printerName: Joi.string().required(),
-      printMedia: Joi.string().valid('Wristband', 'Label').required(),
-      margin: Joi.object({
-        top: Joi.string().required(),
-        right: Joi.string().required(),
-        bottom: Joi.string().required(),
-        left: Joi.string().required()
-      }).required(),
-      mpGroup: Joi.object({
-        id: Joi.number().integer().required(),
-        name: Joi.string().valid('Minors', 'Adults', 'Youth', 'Kids', 'Bears', 'Nursery').required(),
-        print: Joi.string().valid('Label', 'Wristband').required()
-      }).optional(),
-      width: Joi.string().required(),
-      height: Joi.string().required(),
-      orientation: Joi.string().valid('portrait', 'landscape').optional(),
-      copies: Joi.number().integer().min(1).max(10).default(1)
+    Joi.alternatives().conditional('.contentType', {
+      switch: [
+        { is: 'zpl', then: zplLabelSchema },
+        { is: 'epl', then: eplLabelSchema },
+        { is: 'pdf', then: pdfLabelSchema }
+      ],
+      otherwise: Joi.alternatives().conditional('.templateId', {
+        is: Joi.exist(),
+        then: templateLabelSchema,
+        otherwise: htmlLabelSchema
+      })
     })
   ).min(1).required(),
   
   metadata: Joi.object({
-    priority: Joi.string().valid('low', 'medium', 'high').default('medium')
-  }).required()
-});
-
-export const validatePrintRequest = (req: Request, res: Response, next: NextFunction): void => {
-  const { error }: Joi.ValidationResult = printRequestSchema.validate(req.body);
-  if (error) {
-    res.status(400).json({
-      error: 'Validation error',
-      details: error.details.map((d: Joi.ValidationErrorItem): string => d.message)
-    });
-    return;
-  }
-  next();
-};
\ No newline at end of file
+    priority: Joi.string().valid('low', 'medium', 'high').default('medium'),
+    expiresAt: Joi.number().integer().min(0).optional(),
+    ttlMs: Joi.number().integer().min(1).optional(),
+    callbackUrl: Joi.string().uri({ scheme: ['http', 'https'] }).optional().custom((value: string, helpers: Joi.CustomHelpers) => {
+      if (!config.webhooks.callbackSecret) {
+        return helpers.message({ custom: '{{#label}} requires WEBHOOK_CALLBACK_SECRET to be set on the server' });
+      }
+      return isCallbackUrlAllowed(value) ? value : helpers.message({ custom: '{{#label}} host is not in WEBHOOK_CALLBACK_ALLOWED_HOSTS' });
+    })
+  }).oxor('expiresAt', 'ttlMs').required()
+});
+
+const priorityUpdateSchema: Joi.ObjectSchema = Joi.object({
+  priority: Joi.string().valid('low', 'medium', 'high').required()
+});
+
+const printerMoveSchema: Joi.ObjectSchema = Joi.object({
+  printerName: Joi.string().required()
+});
+
+const deadLetterReplaySchema: Joi.ObjectSchema = Joi.object({
+  printerName: Joi.string().optional()
+});
+
+const deadLetterBulkReplaySchema: Joi.ObjectSchema = Joi.object({
+  ids: Joi.array().items(Joi.string()).min(1).optional(),
+  printerName: Joi.string().optional(),       // only entries that failed on this printer
+  targetPrinterName: Joi.string().optional()  // requeue onto this printer instead of the original
+});
+
+const jobStatuses: string[] = ['queued', 'processing', 'completed', 'failed', 'cancelled', 'expired'];
+
+// GET /jobs query as validateJobListQuery leaves it: from/to are Dates, defaults applied
+export interface JobListQueryParams extends Omit<JobListQuery, 'from' | 'to'> {
+  from?: Date;
+  to?: Date;
+}
+
+const jobListQuerySchema: Joi.ObjectSchema = Joi.object({
+  printerName: Joi.string().optional(),
+  userId: Joi.number().integer().optional(),
+  name: Joi.string().optional(),
+  group: Joi.string().valid('Minors', 'Adults', 'Youth', 'Kids', 'Bears', 'Nursery').optional(),
+  status: Joi.array().items(Joi.string().valid(...jobStatuses)).single().optional(),
+  priority: Joi.array().items(Joi.string().valid('low', 'medium', 'high')).single().optional(),
+  from: Joi.date().optional(),
+  to: Joi.date().optional(),
+  sortBy: Joi.string().valid('timestamp', 'priority', 'startTime', 'endTime').default('timestamp'),
+  order: Joi.string().valid('asc', 'desc').default('desc'),
+  limit: Joi.number().integer().min(1).max(500).default(50),
+  // Keyset cursor issued by a previous page: base64url JSON of [sortKey, jobId]
+  cursor: Joi.string().custom((value: string, helpers: Joi.CustomHelpers) => {
+    try {
+      const decoded = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+      if (Array.isArray(decoded) && typeof decoded[0] === 'number' && typeof decoded[1] === 'string') {
+        return value;
+      }
+    } catch (error) {
+      // fall through to the validation error
+    }
+    return helpers.error('any.invalid');
+  }).optional()
+});
+
+const eventStreamQuerySchema: Joi.ObjectSchema = Joi.object({
+  printerName: Joi.string().optional(),
+  submissionId: Joi.string().optional(),
+  jobId: Joi.string().optional(),
+  lastEventId: Joi.number().integer().min(0).optional() // for clients that can't send Last-Event-ID
+});
+
+const webhookEvents: string[] = ['job.completed', 'job.failed', 'job.retrying'];
+
+const webhookCreateSchema: Joi.ObjectSchema = Joi.object({
+  url: Joi.string().uri({ scheme: ['http', 'https'] }).required(),
+  events: Joi.array().items(Joi.string().valid(...webhookEvents)).min(1).optional(), // all events when omitted
+  secret: Joi.string().min(16).optional(), // generated when omitted
+  description: Joi.string().max(256).optional()
+});
+
+const webhookDeliveryQuerySchema: Joi.ObjectSchema = Joi.object({
+  webhookId: Joi.string().optional(),
+  jobId: Joi.string().optional(),
+  status: Joi.string().valid('pending', 'delivered', 'failed').optional(),
+  limit: Joi.number().integer().min(1).max(1000).default(100)
+});
+
+const templateFields = {
+  name: Joi.string().max(128).optional(),
+  description: Joi.string().max(512).optional(),
+  html: Joi.string().required(),
+  width: Joi.string().required(),
+  height: Joi.string().required(),
+  margin: marginSchema.required(),
+  printMedia: Joi.string().valid('Wristband', 'Label').required(),
+  orientation: Joi.string().valid('portrait', 'landscape').optional()
+};
+
+const templateCreateSchema: Joi.ObjectSchema = Joi.object({
+  id: Joi.string().pattern(/^[a-z0-9][a-z0-9_-]*$/i).max(64).required(),
+  ...templateFields
+});
+
+const templateUpdateSchema: Joi.ObjectSchema = Joi.object(templateFields);
+
+const templateQuerySchema: Joi.ObjectSchema = Joi.object({
+  version: Joi.number().integer().min(1).optional()
+});
+
+const assetUploadSchema: Joi.ObjectSchema = Joi.object({
+  name: Joi.string().max(128).optional(),
+  mimeType: Joi.string().pattern(/^[\w.+-]+\/[\w.+-]+$/).required(), // e.g. image/png, font/woff2
+  content: Joi.string().base64().required()
+});
+
+const barcodeQuerySchema: Joi.ObjectSchema = Joi.object({
+  type: Joi.string().valid('code128', 'code39', 'qrcode', 'datamatrix').required(),
+  value: Joi.string().max(2048).required(),
+  height: Joi.number().positive().max(200).optional(), // mm, linear codes only
+  moduleDots: Joi.number().integer().min(1).max(20).optional(),
+  includeText: Joi.boolean().default(false),
+  dpi: Joi.number().integer().min(72).max(1200).optional(),
+  printerName: Joi.string().optional() // use this printer's PRINTER_DPI
+}).oxor('dpi', 'printerName');
+
+// ?wait= holds a status request open until the job finishes, in ms
+const statusWaitQuerySchema: Joi.ObjectSchema = Joi.object({
+  wait: Joi.number().integer().min(0).max(config.server.maxStatusWait).default(0)
+});
+
+const batchStatusSchema: Joi.ObjectSchema = Joi.object({
+  jobIds: Joi.array().items(Joi.string()).min(1).max(100).unique().required()
+});
+
+// Bodies are replaced with the validated values, so defaults such as copies: 1 apply
+const validateBody = (schema: Joi.ObjectSchema) => {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const { error, value }: Joi.ValidationResult = schema.validate(req.body);
+    if (error) {
+      res.status(400).json({
+        error: 'Validation error',
+        details: error.details.map((d: Joi.ValidationErrorItem): string => d.message)
+      });
+      return;
+    }
+    req.body = value;
+    next();
+  };
+};
+
+// Query strings are replaced with the converted values (numbers, dates, arrays)
+const validateQuery = (schema: Joi.ObjectSchema) => {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const { error, value }: Joi.ValidationResult = schema.validate(req.query);
+    if (error) {
+      res.status(400).json({
+        error: 'Validation error',
+        details: error.details.map((d: Joi.ValidationErrorItem): string => d.message)
+      });
+      return;
+    }
+    req.query = value;
+    next();
+  };
+};
+
+export const validatePrintRequest = validateBody(printRequestSchema);
+export const validatePriorityUpdate = validateBody(priorityUpdateSchema);
+export const validatePrinterMove = validateBody(printerMoveSchema);
+export const validateDeadLetterReplay = validateBody(deadLetterReplaySchema);
+export const validateDeadLetterBulkReplay = validateBody(deadLetterBulkReplaySchema);
+export const validateJobListQuery = validateQuery(jobListQuerySchema);
+export const validateEventStreamQuery = validateQuery(eventStreamQuerySchema);
+export const validateStatusWaitQuery = validateQuery(statusWaitQuerySchema);
+export const validateBatchStatus = validateBody(batchStatusSchema);
+export const validateWebhookCreate = validateBody(webhookCreateSchema);
+export const validateWebhookDeliveryQuery = validateQuery(webhookDeliveryQuerySchema);
+export const validateTemplateCreate = validateBody(templateCreateSchema);
+export const validateTemplateUpdate = validateBody(templateUpdateSchema);
+export const validateTemplateQuery = validateQuery(templateQuerySchema);
+export const validateAssetUpload = validateBody(assetUploadSchema);
+export const validateBarcodeQuery = validateQuery(barcodeQuerySchema);
+export const validatePreviewRequest = validateBody(previewRequestSchema);
\ No newline at end of file
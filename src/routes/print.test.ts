@@ -0,0 +1,429 @@
+import express from 'express';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import printRoutes, { initializePrintService } from './print';
+import { JobStatus, PrintEvent, PrintJob, PrintRequest } from '../types';
+import { config } from '../config';
+import logger from '../utils/logger';
+
+jest.mock('../utils/logger', () => ({
+  __esModule: true,
+  default: { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() }
+}));
+
+// The routes reach the service through createLocalClient, which calls these by name
+const service: Record<string, jest.Mock> = {
+  initialize: jest.fn(async () => undefined),
+  getEventsSince: jest.fn(),
+  subscribeEvents: jest.fn(),
+  getJobStatus: jest.fn(),
+  getPrinterStatus: jest.fn(),
+  submitPrintJob: jest.fn(),
+  recordSubmission: jest.fn(),
+  previewLabel: jest.fn(),
+  replayDeadLetter: jest.fn(),
+  replayDeadLetters: jest.fn(),
+  discardDeadLetter: jest.fn(),
+  cancelJob: jest.fn(),
+  updateJobPriority: jest.fn(),
+  moveJob: jest.fn(),
+  listJobs: jest.fn()
+};
+
+jest.mock('../services/PrintService', () => ({
+  PrintService: { getInstance: () => service }
+}));
+
+const event = (id: number, printerName: string = 'Nursery Zebra'): PrintEvent => ({
+  id,
+  type: 'job.completed',
+  timestamp: 1000,
+  printerName,
+  jobId: `job-${id}`
+});
+
+const job = (id: string, status: JobStatus): PrintJob => ({
+  id,
+  status,
+  request: {
+    id,
+    labels: [],
+    metadata: { priority: 'medium' },
+    timestamp: 1000,
+    retryCount: 0
+  }
+});
+
+const readJson = (response: Response): Promise<any> => response.json();
+
+describe('print routes', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  // Stands in for the event bus: delivers to the listener the route subscribed last
+  let publish: (published: PrintEvent) => void;
+
+  const subscribed = async (): Promise<void> => {
+    while (service.subscribeEvents.mock.calls.length === 0) {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+  };
+
+  beforeEach(() => {
+    publish = () => undefined;
+    service.subscribeEvents.mockImplementation((listener: (published: PrintEvent) => void) => {
+      publish = listener;
+      return jest.fn();
+    });
+  });
+
+  beforeAll(async () => {
+    await initializePrintService();
+
+    const app = express();
+    app.use(express.json());
+    app.use('/api/print', printRoutes);
+
+    server = app.listen(0);
+    await new Promise((resolve) => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/print`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  describe('GET /events', () => {
+    // Reads the stream until it holds `count` events, then hangs up
+    const readEvents = async (path: string, headers: Record<string, string>, count: number): Promise<string[]> => {
+      const controller = new AbortController();
+      const response = await fetch(`${baseUrl}${path}`, { headers, signal: controller.signal });
+      const reader = response.body!.getReader();
+      const decoder = new TextDecoder();
+      let text: string = '';
+
+      while ((text.match(/^id: /gm) ?? []).length < count) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        text += decoder.decode(value);
+      }
+
+      controller.abort();
+      return text.match(/^id: \d+$/gm) ?? [];
+    };
+
+    it('replays the events after Last-Event-ID before going live', async () => {
+      service.getEventsSince.mockImplementation(async () => {
+        // Published while the replay is fetched: delivered once, after the replay
+        publish(event(8));
+        return [event(7), event(8)];
+      });
+
+      const received: Promise<string[]> = readEvents('/events', { 'Last-Event-ID': '6' }, 3);
+      await subscribed();
+      publish(event(9));
+
+      expect(await received).toEqual(['id: 7', 'id: 8', 'id: 9']);
+      expect(service.getEventsSince).toHaveBeenCalledWith(6);
+    });
+
+    it('only streams events matching the filter', async () => {
+      const received: Promise<string[]> = readEvents('/events?printerName=Lobby%20Zebra', {}, 1);
+      await subscribed();
+      publish(event(1));
+      publish(event(2, 'Lobby Zebra'));
+
+      expect(await received).toEqual(['id: 2']);
+      expect(service.getEventsSince).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /jobs', () => {
+    it('passes the validated filters on with the dates as epoch ms', async () => {
+      service.listJobs.mockResolvedValue({ jobs: [], total: 0 });
+
+      const response = await fetch(`${baseUrl}/jobs?name=jimmy&status=failed&from=2026-01-04T00:00:00Z&limit=20`);
+
+      expect(response.status).toBe(200);
+      expect(service.listJobs).toHaveBeenCalledWith({
+        name: 'jimmy',
+        status: ['failed'],
+        from: Date.parse('2026-01-04T00:00:00Z'),
+        to: undefined,
+        sortBy: 'timestamp',
+        order: 'desc',
+        limit: 20
+      });
+    });
+  });
+
+  describe('GET /status/:jobId', () => {
+    it('answers straight away without ?wait', async () => {
+      service.getJobStatus.mockResolvedValue(job('job-1', 'processing'));
+
+      const response = await fetch(`${baseUrl}/status/job-1`);
+
+      expect(response.status).toBe(200);
+      expect((await readJson(response)).data.job.status).toBe('processing');
+      expect(service.getJobStatus).toHaveBeenCalledTimes(1);
+    });
+
+    it('holds the request until the job finishes', async () => {
+      service.getJobStatus
+        .mockResolvedValueOnce(job('job-1', 'processing'))
+        .mockResolvedValueOnce(job('job-1', 'completed'));
+
+      const response: Promise<Response> = fetch(`${baseUrl}/status/job-1?wait=2000`);
+      await subscribed();
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      publish({ id: 1, type: 'job.completed', timestamp: 1000, printerName: 'Nursery Zebra', jobId: 'job-1' });
+
+      expect((await readJson(await response)).data.job.status).toBe('completed');
+    });
+
+    it('returns the current state once the wait runs out', async () => {
+      service.getJobStatus.mockResolvedValue(job('job-1', 'queued'));
+
+      const started: number = Date.now();
+      const response = await fetch(`${baseUrl}/status/job-1?wait=200`);
+
+      expect((await readJson(response)).data.job.status).toBe('queued');
+      expect(Date.now() - started).toBeGreaterThanOrEqual(200);
+    });
+
+    it('rejects a wait above the configured maximum', async () => {
+      const response = await fetch(`${baseUrl}/status/job-1?wait=600000`);
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('POST /status/batch', () => {
+    it('reports unknown jobs and whether every job has finished', async () => {
+      service.getJobStatus.mockImplementation(async (jobId: string) =>
+        jobId === 'missing' ? undefined : job(jobId, 'completed'));
+
+      const response = await fetch(`${baseUrl}/status/batch?wait=1000`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ jobIds: ['job-1', 'missing'] })
+      });
+
+      const { data } = await readJson(response);
+      expect(data.jobs.map((found: PrintJob) => found.id)).toEqual(['job-1']);
+      expect(data.notFound).toEqual(['missing']);
+      expect(data.done).toBe(true);
+    });
+  });
+
+  describe('POST /submit', () => {
+    const printing = { ...config.printing };
+
+    const post = (labels: object[]): Promise<Response> => fetch(`${baseUrl}/submit`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ labels, metadata: {} })
+    });
+
+    const zplLabel = (printerName: string) => ({
+      printerName,
+      printMedia: 'Label',
+      name: 'Test Child',
+      contentType: 'zpl',
+      content: Buffer.from('^XA^FDTest Child^FS^XZ').toString('base64')
+    });
+
+    beforeEach(() => {
+      config.printing.printerContentTypes = { 'Nursery Zebra': 'html|zpl' };
+      config.printing.defaultContentTypes = ['html', 'pdf'];
+      service.getPrinterStatus.mockResolvedValue([
+        { name: 'Nursery Zebra', status: 'online' },
+        { name: 'Office Laser', status: 'online' }
+      ]);
+      service.submitPrintJob.mockImplementation(async (request: PrintRequest) => request.id);
+    });
+
+    afterEach(() => {
+      Object.assign(config.printing, printing);
+    });
+
+    it('turns away labels the target printer does not accept', async () => {
+      const response = await post([zplLabel('Nursery Zebra'), zplLabel('Office Laser')]);
+      const { data } = await readJson(response);
+
+      expect(response.status).toBe(207);
+      expect(data.successfulJobs).toHaveLength(1);
+      expect(data.failedLabels).toEqual([
+        expect.objectContaining({ printerName: 'Office Laser', error: "Printer 'Office Laser' does not accept zpl labels" })
+      ]);
+      expect(service.submitPrintJob).toHaveBeenCalledTimes(1);
+    });
+
+    it('logs accepted labels at debug level only', async () => {
+      const log = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+
+      try {
+        await post([{ ...zplLabel('Nursery Zebra'), userId: 7 }]);
+
+        expect(logger.debug).toHaveBeenCalledWith('Label submitted: 1 copies of "Test Child" (userId: 7) to Nursery Zebra');
+        expect(log).not.toHaveBeenCalled();
+      } finally {
+        log.mockRestore();
+      }
+    });
+  });
+
+  describe('GET /barcode', () => {
+    it('renders an SVG barcode', async () => {
+      const response = await fetch(`${baseUrl}/barcode?type=qrcode&value=A1B2&dpi=203`);
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get('content-type')).toContain('image/svg+xml');
+      expect(await response.text()).toContain('<svg');
+    });
+
+    it('reports values the symbology cannot encode', async () => {
+      const response = await fetch(`${baseUrl}/barcode?type=code39&value=${encodeURIComponent('lower~case')}`);
+
+      expect(response.status).toBe(400);
+      expect((await readJson(response)).success).toBe(false);
+    });
+  });
+
+  describe('POST /preview', () => {
+    const label = {
+      printerName: 'Nursery Zebra',
+      printMedia: 'Label',
+      htmlContent: Buffer.from('<p>Test Child</p>').toString('base64'),
+      margin: { top: '0', right: '0', bottom: '0', left: '0' },
+      width: '2in',
+      height: '1in'
+    };
+
+    const post = (body: object): Promise<Response> => fetch(`${baseUrl}/preview`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    });
+
+    it('returns the rendered label with its warnings', async () => {
+      service.previewLabel.mockResolvedValue({
+        format: 'png',
+        mimeType: 'image/png',
+        content: 'iVBORw0KGgo=',
+        dpi: 203,
+        width: 406,
+        height: 203,
+        warnings: ['Content is 300x120px but the label is 192x96px (2in x 1in) and will be cut off'],
+        renderTime: 12
+      });
+
+      const response = await post({ label });
+      const body = await readJson(response);
+
+      expect(response.status).toBe(200);
+      expect(body.data.preview).toEqual(expect.objectContaining({ format: 'png', content: 'iVBORw0KGgo=' }));
+      expect(body.message).toBe('Rendered with 1 warnings');
+      expect(service.previewLabel).toHaveBeenCalledWith(expect.objectContaining({ copies: 1, width: '2in' }), 'png', undefined);
+    });
+
+    it('sends the image itself when the client accepts it, with the warnings in a header', async () => {
+      const warnings: string[] = ['Image https://cdn.example.org/logo-café.png failed to load'];
+      service.previewLabel.mockResolvedValue({
+        format: 'png', mimeType: 'image/png', content: 'iVBORw0KGgo=', dpi: 203, width: 406, height: 203, warnings, renderTime: 12
+      });
+
+      const response = await fetch(`${baseUrl}/preview`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Accept: 'image/png' },
+        body: JSON.stringify({ label })
+      });
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get('content-type')).toBe('image/png');
+      expect(JSON.parse(response.headers.get('preview-warnings')!)).toEqual(warnings);
+      expect(Buffer.from(await response.arrayBuffer())).toEqual(Buffer.from('iVBORw0KGgo=', 'base64'));
+    });
+
+    it('renders a PDF for Accept: application/pdf', async () => {
+      service.previewLabel.mockResolvedValue({
+        format: 'pdf', mimeType: 'application/pdf', content: Buffer.from('%PDF-1.7\n').toString('base64'), pages: 2, warnings: [], renderTime: 12
+      });
+
+      const response = await fetch(`${baseUrl}/preview`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Accept: 'application/pdf' },
+        body: JSON.stringify({ label })
+      });
+
+      expect(service.previewLabel).toHaveBeenCalledWith(expect.anything(), 'pdf', undefined);
+      expect(response.headers.get('content-type')).toBe('application/pdf');
+      expect(response.headers.get('preview-pages')).toBe('2');
+      expect(response.headers.get('preview-warnings')).toBe('[]');
+      expect(await response.text()).toBe('%PDF-1.7\n');
+    });
+
+    it('reports a label that cannot be rendered', async () => {
+      service.previewLabel.mockRejectedValue(new Error('Label size auto x 1in cannot be converted to pixels'));
+
+      const response = await post({ label: { ...label, width: 'auto' }, format: 'png' });
+
+      expect(response.status).toBe(422);
+      expect((await readJson(response)).error).toBe('Preview failed: Label size auto x 1in cannot be converted to pixels');
+    });
+
+    it('rejects an unknown format', async () => {
+      const response = await post({ label, format: 'gif' });
+
+      expect(response.status).toBe(400);
+      expect(service.previewLabel).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('admin actions', () => {
+    const security = { ...config.security };
+
+    const send = (method: string, path: string, token?: string, body: object = {}): Promise<Response> => fetch(`${baseUrl}${path}`, {
+      method,
+      headers: { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}) },
+      body: method === 'DELETE' ? undefined : JSON.stringify(body)
+    });
+
+    beforeEach(() => {
+      config.security.adminApiKey = 'admin-key';
+      service.replayDeadLetter.mockResolvedValue({ outcome: 'replayed', job: job('job-2', 'queued') });
+      service.replayDeadLetters.mockResolvedValue({ replayed: [], failed: [] });
+      service.discardDeadLetter.mockResolvedValue(true);
+      service.cancelJob.mockResolvedValue({ outcome: 'cancelled', job: job('job-1', 'cancelled') });
+      service.updateJobPriority.mockResolvedValue({ outcome: 'updated', job: job('job-1', 'queued') });
+      service.moveJob.mockResolvedValue({ outcome: 'updated', job: job('job-1', 'queued') });
+    });
+
+    afterEach(() => {
+      Object.assign(config.security, security);
+    });
+
+    it.each([
+      ['DELETE', '/jobs/job-1', {}],
+      ['PATCH', '/jobs/job-1/priority', { priority: 'high' }],
+      ['PATCH', '/jobs/job-1/printer', { printerName: 'Lobby Zebra' }],
+      ['POST', '/dead-letter/replay', {}],
+      ['POST', '/dead-letter/dl-1/replay', {}],
+      ['DELETE', '/dead-letter/dl-1', {}]
+    ])('%s %s requires the admin key', async (method: string, path: string, body: object) => {
+      expect((await send(method, path, undefined, body)).status).toBe(401);
+      expect((await send(method, path, 'wrong-key', body)).status).toBe(401);
+      expect((await send(method, path, 'admin-key', body)).status).toBeLessThan(300);
+    });
+
+    it('answers 503 when the queue has no room for a replay', async () => {
+      service.replayDeadLetter.mockResolvedValue({ outcome: 'queue_full', error: 'Queue is full' });
+
+      const response = await send('POST', '/dead-letter/dl-1/replay', 'admin-key');
+
+      expect(response.status).toBe(503);
+      expect((await readJson(response)).error).toBe('Queue is full');
+    });
+  });
+});
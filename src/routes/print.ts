@@ -1,34 +1,73 @@
 // src/routes/print.ts - Fixed with proper timeouts and error handling
 
 import { Router, Request, Response } from 'express';
+import cluster from 'cluster';
+import { createHash } from 'crypto';
 import { v4 as uuidv4 } from 'uuid';
 import { PrintService } from '../services/PrintService';
-import { validatePrintRequest } from '../middleware/validation';
-import { PrintRequest, PrintJob, ServerMetrics, PrinterStatus, ApiResponse } from '../types';
+import { PrintServiceClient, createLocalClient, createWorkerClient, runWithDeadline } from '../services/ClusterBridge';
+import { matchesEventFilter } from '../services/EventService';
+import { requireAdminKey } from '../middleware/auth';
+import { waitAwareTimeout } from '../middleware/timeout';
+import { acceptsContentType, getContentType } from '../utils/contentTypes';
+import { BarcodeOptions, renderBarcodeSvg } from '../utils/barcode';
+import { getPrinterDpi } from '../utils/zpl';
+import { getErrorStatusCode } from '../utils/errors';
+import { config } from '../config';
+import logger from '../utils/logger';
+import {
+  validatePrintRequest, validatePriorityUpdate, validatePrinterMove, validateJobListQuery,
+  validateDeadLetterReplay, validateDeadLetterBulkReplay, validateEventStreamQuery,
+  validateWebhookCreate, validateWebhookDeliveryQuery, validateStatusWaitQuery, validateBatchStatus,
+  validateTemplateCreate, validateTemplateUpdate, validateTemplateQuery, validateBarcodeQuery, validatePreviewRequest,
+  validateAssetUpload, JobListQueryParams
+} from '../middleware/validation';
+import {
+  PrintRequest, PrintJob, ServerMetrics, PrinterStatus, ApiResponse, JobActionResult, JobActionOutcome,
+  JobStatus, PrintEventType, JobListQuery, JobListResult, IdempotencyLookup, DeadLetterEntry, DeadLetterSummary, DeadLetterReplayResult,
+  SubmissionStatus, SubmissionCancelResult, PrintEvent, PrintEventFilter,
+  WebhookEventType, WebhookSubscription, WebhookSubscriptionSummary, WebhookDelivery, WebhookDeliveryQuery,
+  LabelTemplate, LabelTemplateInput, LabelTemplateSummary, TemplateSaveOutcome, TemplateSaveResult,
+  LabelPreview, PreviewFormat, LabelAsset, LabelAssetContent, AssetSaveOutcome, AssetSaveResult
+} from '../types';
 import { FailedLabel, SubmitResponse, PartialSuccessResponse, AllFailedResponse } from '../types';
 
 const router: Router = Router();
 
-// Use singleton instance instead of creating new one
-let printService: PrintService;
+// Singleton in standalone mode, IPC client to the primary's singleton in cluster workers
+let printService: PrintServiceClient;
 
 // Initialize function to be called from server.ts
 export const initializePrintService = async (): Promise<void> => {
-  printService = PrintService.getInstance();
-  await printService.initialize();
+  if (cluster.isWorker) {
+    printService = createWorkerClient();
+    return;
+  }
+
+  const instance = PrintService.getInstance();
+  await instance.initialize();
+  printService = createLocalClient(instance);
+};
+
+// Only the process that owns the PrintService singleton tears it down
+export const shutdownPrintService = (): void => {
+  if (cluster.isWorker) return;
+
+  PrintService.getInstance().destroy();
 };
 
 // Get the service instance with error handling
-const getPrintService = (): PrintService => {
+const getPrintService = (): PrintServiceClient => {
   if (!printService) {
     throw new Error('PrintService not initialized. Call initializePrintService() first.');
   }
   return printService;
 };
 
-// Timeout wrapper for route handlers
-const withTimeout = (handler: (req: Request, res: Response) => Promise<void>, timeoutMs: number = 10000) => {
+// Timeout wrapper for route handlers; the timeout may depend on the request, e.g. its ?wait=
+const withTimeout = (handler: (req: Request, res: Response) => Promise<void>, timeout: number | ((req: Request) => number) = 10000) => {
   return async (req: Request, res: Response): Promise<void> => {
+    const timeoutMs: number = typeof timeout === 'function' ? timeout(req) : timeout;
     const timeoutPromise = new Promise<never>((_, reject) => {
       setTimeout(() => {
         reject(new Error(`Route timeout after ${timeoutMs}ms`));
@@ -37,7 +76,7 @@ const withTimeout = (handler: (req: Request, res: Response) => Promise<void>, ti
 
     try {
       await Promise.race([
-        handler(req, res),
+        runWithDeadline(Date.now() + timeoutMs, () => handler(req, res)),
         timeoutPromise
       ]);
     } catch (error: any) {
@@ -49,7 +88,7 @@ const withTimeout = (handler: (req: Request, res: Response) => Promise<void>, ti
             message: `Operation timed out after ${timeoutMs}ms`
           });
         } else {
-          res.status(500).json({
+          res.status(getErrorStatusCode(error)).json({
             success: false,
             error: error.message
           });
@@ -59,15 +98,53 @@ const withTimeout = (handler: (req: Request, res: Response) => Promise<void>, ti
   };
 };
 
-router.post('/submit', validatePrintRequest, withTimeout(async (req: Request, res: Response): Promise<void> => {
+// Map queue manipulation outcomes onto HTTP responses
+const jobActionStatusCodes: Record<JobActionOutcome, number> = {
+  updated: 200,
+  cancelled: 200,
+  cancelling: 202,
+  replayed: 201,
+  not_found: 404,
+  invalid_state: 409,
+  invalid_target: 400,
+  queue_full: 503
+};
+
+const sendJobActionResult = (res: Response, result: JobActionResult, message: string): void => {
+  const statusCode: number = jobActionStatusCodes[result.outcome];
+
+  if (statusCode >= 400) {
+    const response: ApiResponse<{ job?: PrintJob; }> = {
+      success: false,
+      data: result.job ? { job: result.job } : undefined,
+      error: result.error
+    };
+    res.status(statusCode).json(response);
+    return;
+  }
+
+  const response: ApiResponse<{ job?: PrintJob; outcome: JobActionOutcome; }> = {
+    success: true,
+    data: { job: result.job, outcome: result.outcome },
+    message
+  };
+  res.status(statusCode).json(response);
+};
+
+// Queue each label as its own job and build the submit response
+const submitLabels = async (
+  service: PrintServiceClient,
+  labels: any[],
+  metadata: any
+): Promise<{ statusCode: number; body: ApiResponse<SubmitResponse | PartialSuccessResponse | AllFailedResponse>; }> => {
   const startTime = Date.now();
-  
-  const service = getPrintService();
-  const { labels, metadata } = req.body;
-  
+  const submissionId: string = uuidv4();
+
   const successfulJobs: string[] = [];
   const failedLabels: FailedLabel[] = [];
 
+  const printers: PrinterStatus[] = await service.getPrinterStatus();
+
   // Process each label separately with improved error isolation and timeout
   const labelProcessingPromises = labels.map(async (label: any) => {
     const labelTimeout = new Promise<never>((_, reject) => {
@@ -77,7 +154,7 @@ router.post('/submit', validatePrintRequest, withTimeout(async (req: Request, re
     const labelProcessing = (async () => {
       try {
         // Validate printer is available with timeout
-        const printer = service.getPrinterStatus().find(p => p.name === label.printerName);
+        const printer = printers.find(p => p.name === label.printerName);
         if (!printer) {
           failedLabels.push({
             userId: label.userId,
@@ -98,19 +175,30 @@ router.post('/submit', validatePrintRequest, withTimeout(async (req: Request, re
           return;
         }
 
+        if (!acceptsContentType(label.printerName, getContentType(label))) {
+          failedLabels.push({
+            userId: label.userId,
+            name: label.name,
+            error: `Printer '${label.printerName}' does not accept ${getContentType(label)} labels`,
+            printerName: label.printerName
+          });
+          return;
+        }
+
         // Create individual print request
         const request: PrintRequest = {
           id: uuidv4(),
           labels: [label],
-          metadata,
+          metadata: { ...metadata }, // per job, so priority can be changed independently
           timestamp: Date.now(),
-          retryCount: 0
+          retryCount: 0,
+          submissionId
         };
 
-        const jobId = service.submitPrintJob(request);
+        const jobId = await service.submitPrintJob(request);
         successfulJobs.push(jobId);
 
-        console.log(`🎯 LABEL SUBMITTED: ${label.copies} copies of "${label.name}" (userId: ${label.userId}) to ${label.printerName}`);
+        logger.debug(`Label submitted: ${label.copies} copies of "${label.name}" (userId: ${label.userId}) to ${label.printerName}`);
 
       } catch (error: any) {
         failedLabels.push({
@@ -137,46 +225,165 @@ router.post('/submit', validatePrintRequest, withTimeout(async (req: Request, re
   // Wait for all label processing to complete with overall timeout
   await Promise.allSettled(labelProcessingPromises);
 
+  if (successfulJobs.length > 0) {
+    await service.recordSubmission({
+      id: submissionId,
+      jobIds: successfulJobs,
+      failedLabels,
+      totalLabels: labels.length,
+      createdAt: startTime
+    });
+  }
+
   const processingTime = Date.now() - startTime;
 
   // Response handling
   if (successfulJobs.length > 0 && failedLabels.length === 0) {
-    res.json({
-      success: true,
-      data: { 
-        jobIds: successfulJobs,
-        totalLabels: labels.length,
-        processingTime
-      },
-      message: `All ${labels.length} labels submitted successfully`
-    });
+    return {
+      statusCode: 200,
+      body: {
+        success: true,
+        data: {
+          submissionId,
+          jobIds: successfulJobs,
+          totalLabels: labels.length,
+          processingTime
+        },
+        message: `All ${labels.length} labels submitted successfully`
+      }
+    };
   } else if (successfulJobs.length > 0 && failedLabels.length > 0) {
-    res.status(207).json({
-      success: false,
-      data: {
-        successfulJobs,
-        failedLabels,
-        totalLabels: labels.length,
-        processingTime
-      },
-      message: `${successfulJobs.length}/${labels.length} labels submitted successfully`
-    });
+    return {
+      statusCode: 207,
+      body: {
+        success: false,
+        data: {
+          submissionId,
+          successfulJobs,
+          failedLabels,
+          totalLabels: labels.length,
+          processingTime
+        },
+        message: `${successfulJobs.length}/${labels.length} labels submitted successfully`
+      }
+    };
   } else {
-    res.status(400).json({
-      success: false,
-      data: {
-        failedLabels,
-        totalLabels: labels.length,
-        processingTime
-      },
-      error: 'All labels failed validation or printer unavailable'
-    });
+    return {
+      statusCode: 400,
+      body: {
+        success: false,
+        data: {
+          failedLabels,
+          totalLabels: labels.length,
+          processingTime
+        },
+        error: 'All labels failed validation or printer unavailable'
+      }
+    };
+  }
+};
+
+router.post('/submit', validatePrintRequest, withTimeout(async (req: Request, res: Response): Promise<void> => {
+  const service = getPrintService();
+  const idempotencyKey: string | undefined = req.get('Idempotency-Key');
+
+  // A retried submission with the same key gets the original response, including 207s
+  if (idempotencyKey) {
+    const fingerprint: string = createHash('sha256').update(JSON.stringify(req.body)).digest('hex');
+    const lookup: IdempotencyLookup = await service.beginIdempotentRequest(idempotencyKey, fingerprint);
+
+    if (lookup.state === 'replay') {
+      res.set('Idempotent-Replayed', 'true');
+      res.status(lookup.statusCode).json(lookup.body);
+      return;
+    }
+
+    if (lookup.state === 'in_progress') {
+      const response: ApiResponse = {
+        success: false,
+        error: 'A request with this Idempotency-Key is still being processed'
+      };
+      res.status(409).json(response);
+      return;
+    }
+
+    if (lookup.state === 'mismatch') {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Idempotency-Key was already used with a different request body'
+      };
+      res.status(422).json(response);
+      return;
+    }
+  }
+
+  try {
+    const { statusCode, body } = await submitLabels(service, req.body.labels, req.body.metadata);
+
+    // Recorded even if the client already gave up on this request, so its retry gets the result
+    if (idempotencyKey) {
+      await service.completeIdempotentRequest(idempotencyKey, statusCode, body);
+    }
+
+    res.status(statusCode).json(body);
+  } catch (error) {
+    if (idempotencyKey) {
+      await service.abandonIdempotentRequest(idempotencyKey).catch(() => undefined);
+    }
+    throw error;
   }
 }, 15000)); // 15 second timeout for submit
 
-router.get('/status/:jobId', withTimeout(async (req: Request, res: Response): Promise<void> => {
+const TERMINAL_STATUSES: JobStatus[] = ['completed', 'failed', 'cancelled', 'expired'];
+const TERMINAL_EVENTS: PrintEventType[] = ['job.completed', 'job.failed', 'job.cancelled', 'job.expired'];
+
+const isSettled = (job?: PrintJob): boolean => !job || TERMINAL_STATUSES.includes(job.status);
+
+// Status of each job, once all of them reached a terminal state or after waitMs. Listens
+// before the first read so a job that finishes in between still ends the wait.
+const waitForJobs = async (service: PrintServiceClient, jobIds: string[], waitMs: number): Promise<(PrintJob | undefined)[]> => {
+  const unsettled: Set<string> = new Set(jobIds);
+  let wake: () => void = (): void => undefined;
+
+  const unsubscribe = service.subscribeEvents((event: PrintEvent): void => {
+    if (event.jobId && TERMINAL_EVENTS.includes(event.type) && unsettled.delete(event.jobId) && unsettled.size === 0) {
+      wake();
+    }
+  });
+
+  const readJobs = (): Promise<(PrintJob | undefined)[]> =>
+    Promise.all(jobIds.map((jobId: string): Promise<PrintJob | undefined> => service.getJobStatus(jobId)));
+
+  try {
+    const jobs: (PrintJob | undefined)[] = await readJobs();
+    if (waitMs === 0 || jobs.every(isSettled)) {
+      return jobs;
+    }
+
+    jobs.forEach((job: PrintJob | undefined, index: number): void => {
+      if (isSettled(job)) unsettled.delete(jobIds[index]);
+    });
+
+    await new Promise<void>((resolve): void => {
+      const timer = setTimeout(resolve, waitMs);
+      wake = (): void => {
+        clearTimeout(timer);
+        resolve();
+      };
+
+      if (unsettled.size === 0) wake();
+    });
+
+    return await readJobs();
+  } finally {
+    unsubscribe();
+  }
+};
+
+// ?wait=<ms> holds the request until the job completes, fails, is cancelled or expires
+router.get('/status/:jobId', validateStatusWaitQuery, waitAwareTimeout(), withTimeout(async (req: Request, res: Response): Promise<void> => {
   const service = getPrintService();
-  const job: PrintJob | undefined = service.getJobStatus(req.params.jobId);
+  const [job]: (PrintJob | undefined)[] = await waitForJobs(service, [req.params.jobId], Number(req.query.wait));
 
   if (!job) {
     const response: ApiResponse = {
@@ -192,6 +399,547 @@ router.get('/status/:jobId', withTimeout(async (req: Request, res: Response): Pr
     data: { job }
   };
   res.json(response);
+}, (req: Request): number => 5000 + Number(req.query.wait))); // 5 seconds plus the requested wait
+
+// Several jobs at once, e.g. every job of one check-in; ?wait= holds until all are finished
+router.post('/status/batch', validateStatusWaitQuery, validateBatchStatus, waitAwareTimeout(), withTimeout(async (req: Request, res: Response): Promise<void> => {
+  const service = getPrintService();
+  const jobIds: string[] = req.body.jobIds;
+  const results: (PrintJob | undefined)[] = await waitForJobs(service, jobIds, Number(req.query.wait));
+
+  const jobs: PrintJob[] = results.filter((job?: PrintJob): job is PrintJob => job !== undefined);
+  const notFound: string[] = jobIds.filter((_: string, index: number): boolean => results[index] === undefined);
+
+  const response: ApiResponse<{ jobs: PrintJob[]; notFound: string[]; done: boolean; }> = {
+    success: true,
+    data: { jobs, notFound, done: jobs.every(isSettled) }
+  };
+  res.json(response);
+}, (req: Request): number => 5000 + Number(req.query.wait))); // 5 seconds plus the requested wait
+
+// Aggregate progress of every label sent in one submit call
+router.get('/submissions/:submissionId', withTimeout(async (req: Request, res: Response): Promise<void> => {
+  const service = getPrintService();
+  const submission: SubmissionStatus | undefined = await service.getSubmission(req.params.submissionId);
+
+  if (!submission) {
+    const response: ApiResponse = {
+      success: false,
+      error: 'Submission not found'
+    };
+    res.status(404).json(response);
+    return;
+  }
+
+  const response: ApiResponse<{ submission: SubmissionStatus; }> = {
+    success: true,
+    data: { submission }
+  };
+  res.json(response);
+}, 5000)); // 5 second timeout
+
+router.delete('/submissions/:submissionId', withTimeout(async (req: Request, res: Response): Promise<void> => {
+  const service = getPrintService();
+  const result: SubmissionCancelResult | undefined = await service.cancelSubmission(req.params.submissionId);
+
+  if (!result) {
+    const response: ApiResponse = {
+      success: false,
+      error: 'Submission not found'
+    };
+    res.status(404).json(response);
+    return;
+  }
+
+  // Jobs already printing only stop once their abort is honored
+  const stopped: number = result.cancelled.length + result.cancelling.length;
+  const response: ApiResponse<SubmissionCancelResult> = {
+    success: true,
+    data: result,
+    message: `${stopped}/${stopped + result.unchanged.length} jobs cancelled`
+  };
+  res.status(result.cancelling.length > 0 ? 202 : 200).json(response);
+}, 5000)); // 5 second timeout
+
+// Server-Sent Events stream of job transitions and printer status changes, e.g.
+// ?submissionId=... for one check-in. Resumes after Last-Event-ID from the replay buffer.
+router.get('/events', validateEventStreamQuery, async (req: Request, res: Response): Promise<void> => {
+  const service = getPrintService();
+  const filter: PrintEventFilter = {
+    printerName: req.query.printerName as string | undefined,
+    submissionId: req.query.submissionId as string | undefined,
+    jobId: req.query.jobId as string | undefined
+  };
+
+  const lastEventIdHeader: string | undefined = req.get('Last-Event-ID');
+  const lastEventId: number | undefined = lastEventIdHeader !== undefined && /^\d+$/.test(lastEventIdHeader)
+    ? Number(lastEventIdHeader)
+    : req.query.lastEventId as number | undefined;
+
+  // The stream outlives the route timeouts; no-transform keeps compression from buffering it
+  req.setTimeout(0);
+  res.setTimeout(0);
+  res.status(200).set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no'
+  });
+  res.flushHeaders();
+
+  const send = (event: PrintEvent): void => {
+    if (!matchesEventFilter(event, filter)) return;
+    res.write(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+  };
+
+  // Subscribe before fetching the replay so nothing published in between is lost
+  let backlog: PrintEvent[] | undefined = lastEventId !== undefined ? [] : undefined;
+  const unsubscribe = service.subscribeEvents((event: PrintEvent): void => {
+    if (backlog) {
+      backlog.push(event);
+    } else {
+      send(event);
+    }
+  });
+
+  const heartbeat = setInterval((): void => {
+    res.write(': heartbeat\n\n');
+  }, config.events.heartbeatInterval);
+
+  req.on('close', (): void => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+
+  if (backlog) {
+    let replayedUpTo: number = 0;
+
+    try {
+      const replay: PrintEvent[] = await service.getEventsSince(lastEventId!);
+      replay.forEach(send);
+      replayedUpTo = replay.length > 0 ? replay[replay.length - 1].id : 0;
+    } catch (error: any) {
+      logger.warn(`Event replay after ${lastEventId} failed: ${error.message}`);
+    }
+
+    const live: PrintEvent[] = backlog;
+    backlog = undefined;
+    live.filter((event: PrintEvent): boolean => event.id > replayedUpTo).forEach(send);
+  }
+});
+
+// Search queued, processing and finished jobs, e.g. ?name=jimmy&status=completed
+router.get('/jobs', validateJobListQuery, withTimeout(async (req: Request, res: Response): Promise<void> => {
+  const service = getPrintService();
+  const { from, to, ...filters } = req.query as unknown as JobListQueryParams;
+
+  const query: JobListQuery = {
+    ...filters,
+    from: from?.getTime(),
+    to: to?.getTime()
+  };
+
+  const result: JobListResult = await service.listJobs(query);
+
+  const response: ApiResponse<JobListResult> = {
+    success: true,
+    data: result
+  };
+  res.json(response);
+}, 5000)); // 5 second timeout
+
+// Cancel a queued job, or abort an in-flight one before it reaches the spooler
+router.delete('/jobs/:jobId', requireAdminKey, withTimeout(async (req: Request, res: Response): Promise<void> => {
+  const service = getPrintService();
+  const result: JobActionResult = await service.cancelJob(req.params.jobId);
+
+  const message: string = result.outcome === 'cancelling'
+    ? 'Job is printing, cancellation requested'
+    : 'Job cancelled';
+  sendJobActionResult(res, result, message);
+}, 5000)); // 5 second timeout
+
+router.patch('/jobs/:jobId/priority', requireAdminKey, validatePriorityUpdate, withTimeout(async (req: Request, res: Response): Promise<void> => {
+  const service = getPrintService();
+  const result: JobActionResult = await service.updateJobPriority(req.params.jobId, req.body.priority);
+
+  sendJobActionResult(res, result, `Job priority changed to ${req.body.priority}`);
+}, 5000)); // 5 second timeout
+
+router.patch('/jobs/:jobId/printer', requireAdminKey, validatePrinterMove, withTimeout(async (req: Request, res: Response): Promise<void> => {
+  const service = getPrintService();
+  const result: JobActionResult = await service.moveJob(req.params.jobId, req.body.printerName);
+
+  sendJobActionResult(res, result, `Job moved to printer ${req.body.printerName}`);
+}, 5000)); // 5 second timeout
+
+// Global webhook subscriptions (admin)
+router.post('/webhooks', requireAdminKey, validateWebhookCreate, withTimeout(async (req: Request, res: Response): Promise<void> => {
+  const service = getPrintService();
+  const events: WebhookEventType[] = req.body.events ?? ['job.completed', 'job.failed', 'job.retrying'];
+
+  const webhook: WebhookSubscription = await service.createWebhook({
+    url: req.body.url,
+    events,
+    secret: req.body.secret,
+    description: req.body.description
+  });
+
+  // The secret is only ever returned here
+  const response: ApiResponse<{ webhook: WebhookSubscription; }> = {
+    success: true,
+    data: { webhook },
+    message: 'Webhook registered'
+  };
+  res.status(201).json(response);
+}, 5000)); // 5 second timeout
+
+router.get('/webhooks', requireAdminKey, withTimeout(async (req: Request, res: Response): Promise<void> => {
+  const service = getPrintService();
+  const webhooks: WebhookSubscriptionSummary[] = await service.listWebhooks();
+
+  const response: ApiResponse<{ webhooks: WebhookSubscriptionSummary[]; }> = {
+    success: true,
+    data: { webhooks }
+  };
+  res.json(response);
+}, 5000)); // 5 second timeout
+
+// Delivery log, newest first, e.g. ?jobId=...&status=failed
+router.get('/webhooks/deliveries', requireAdminKey, validateWebhookDeliveryQuery, withTimeout(async (req: Request, res: Response): Promise<void> => {
+  const service = getPrintService();
+  const deliveries: WebhookDelivery[] = await service.listWebhookDeliveries(req.query as WebhookDeliveryQuery);
+
+  const response: ApiResponse<{ deliveries: WebhookDelivery[]; total: number; }> = {
+    success: true,
+    data: { deliveries, total: deliveries.length }
+  };
+  res.json(response);
+}, 5000)); // 5 second timeout
+
+router.get('/webhooks/deliveries/:deliveryId', requireAdminKey, withTimeout(async (req: Request, res: Response): Promise<void> => {
+  const service = getPrintService();
+  const delivery: WebhookDelivery | undefined = await service.getWebhookDelivery(req.params.deliveryId);
+
+  if (!delivery) {
+    const response: ApiResponse = {
+      success: false,
+      error: 'Webhook delivery not found'
+    };
+    res.status(404).json(response);
+    return;
+  }
+
+  const response: ApiResponse<{ delivery: WebhookDelivery; }> = {
+    success: true,
+    data: { delivery }
+  };
+  res.json(response);
+}, 5000)); // 5 second timeout
+
+router.delete('/webhooks/:webhookId', requireAdminKey, withTimeout(async (req: Request, res: Response): Promise<void> => {
+  const service = getPrintService();
+  const removed: boolean = await service.deleteWebhook(req.params.webhookId);
+
+  if (!removed) {
+    const response: ApiResponse = {
+      success: false,
+      error: 'Webhook not found'
+    };
+    res.status(404).json(response);
+    return;
+  }
+
+  const response: ApiResponse = {
+    success: true,
+    message: 'Webhook removed'
+  };
+  res.json(response);
+}, 5000)); // 5 second timeout
+
+const templateStatusCodes: Record<TemplateSaveOutcome, number> = {
+  created: 201,
+  updated: 200,
+  not_found: 404,
+  conflict: 409,
+  invalid: 400
+};
+
+const sendTemplateSaveResult = (res: Response, result: TemplateSaveResult): void => {
+  const statusCode: number = templateStatusCodes[result.outcome];
+
+  if (statusCode >= 400) {
+    const response: ApiResponse = {
+      success: false,
+      error: result.error
+    };
+    res.status(statusCode).json(response);
+    return;
+  }
+
+  const response: ApiResponse<{ template: LabelTemplate; }> = {
+    success: true,
+    data: { template: result.template! },
+    message: `Template ${result.template!.id} saved as version ${result.template!.version}`
+  };
+  res.status(statusCode).json(response);
+};
+
+const toTemplateInput = (body: any): LabelTemplateInput => ({
+  name: body.name,
+  description: body.description,
+  html: body.html,
+  width: body.width,
+  height: body.height,
+  margin: body.margin,
+  printMedia: body.printMedia,
+  orientation: body.orientation
+});
+
+// Label templates: labels can send templateId + data instead of htmlContent
+router.get('/templates', withTimeout(async (req: Request, res: Response): Promise<void> => {
+  const service = getPrintService();
+  const templates: LabelTemplateSummary[] = await service.listTemplates();
+
+  const response: ApiResponse<{ templates: LabelTemplateSummary[]; }> = {
+    success: true,
+    data: { templates }
+  };
+  res.json(response);
+}, 5000)); // 5 second timeout
+
+// Latest version, or ?version=
+router.get('/templates/:templateId', validateTemplateQuery, withTimeout(async (req: Request, res: Response): Promise<void> => {
+  const service = getPrintService();
+  const version: number | undefined = req.query.version as number | undefined;
+  const template: LabelTemplate | undefined = await service.getTemplate(req.params.templateId, version);
+
+  if (!template) {
+    const response: ApiResponse = {
+      success: false,
+      error: version === undefined ? 'Template not found' : 'Template version not found'
+    };
+    res.status(404).json(response);
+    return;
+  }
+
+  const response: ApiResponse<{ template: LabelTemplate; }> = {
+    success: true,
+    data: { template }
+  };
+  res.json(response);
+}, 5000)); // 5 second timeout
+
+router.post('/templates', requireAdminKey, validateTemplateCreate, withTimeout(async (req: Request, res: Response): Promise<void> => {
+  const service = getPrintService();
+  const result: TemplateSaveResult = await service.createTemplate(req.body.id, toTemplateInput(req.body));
+
+  sendTemplateSaveResult(res, result);
+}, 5000)); // 5 second timeout
+
+// Saves the next version; labels without templateVersion pick it up immediately
+router.put('/templates/:templateId', requireAdminKey, validateTemplateUpdate, withTimeout(async (req: Request, res: Response): Promise<void> => {
+  const service = getPrintService();
+  const result: TemplateSaveResult = await service.updateTemplate(req.params.templateId, toTemplateInput(req.body));
+
+  sendTemplateSaveResult(res, result);
+}, 5000)); // 5 second timeout
+
+router.delete('/templates/:templateId', requireAdminKey, withTimeout(async (req: Request, res: Response): Promise<void> => {
+  const service = getPrintService();
+  const removed: boolean = await service.deleteTemplate(req.params.templateId);
+
+  if (!removed) {
+    const response: ApiResponse = {
+      success: false,
+      error: 'Template not found'
+    };
+    res.status(404).json(response);
+    return;
+  }
+
+  const response: ApiResponse = {
+    success: true,
+    message: 'Template removed'
+  };
+  res.json(response);
+}, 5000)); // 5 second timeout
+
+const assetStatusCodes: Record<AssetSaveOutcome, number> = {
+  created: 201,
+  updated: 200,
+  invalid: 400
+};
+
+// Label assets: logos, images and fonts that labels reference as asset://<id>
+router.get('/assets', withTimeout(async (req: Request, res: Response): Promise<void> => {
+  const service = getPrintService();
+  const assets: LabelAsset[] = await service.listAssets();
+
+  const response: ApiResponse<{ assets: LabelAsset[]; }> = {
+    success: true,
+    data: { assets }
+  };
+  res.json(response);
+}, 5000)); // 5 second timeout
+
+// The asset itself, with its own content type
+router.get('/assets/:assetId', withTimeout(async (req: Request, res: Response): Promise<void> => {
+  const service = getPrintService();
+  const stored: LabelAssetContent | undefined = await service.getAsset(req.params.assetId);
+
+  if (!stored) {
+    const response: ApiResponse = {
+      success: false,
+      error: 'Asset not found'
+    };
+    res.status(404).json(response);
+    return;
+  }
+
+  res.set('ETag', `"${stored.asset.hash}"`);
+  res.type(stored.asset.mimeType).send(Buffer.from(stored.content, 'base64'));
+}, 5000)); // 5 second timeout
+
+// Uploads or replaces the asset; labels rendered afterwards use the new content
+router.put('/assets/:assetId', requireAdminKey, validateAssetUpload, withTimeout(async (req: Request, res: Response): Promise<void> => {
+  const service = getPrintService();
+  const result: AssetSaveResult = await service.saveAsset(req.params.assetId, {
+    name: req.body.name,
+    mimeType: req.body.mimeType,
+    content: req.body.content
+  });
+
+  const statusCode: number = assetStatusCodes[result.outcome];
+  if (statusCode >= 400) {
+    const response: ApiResponse = {
+      success: false,
+      error: result.error
+    };
+    res.status(statusCode).json(response);
+    return;
+  }
+
+  const response: ApiResponse<{ asset: LabelAsset; }> = {
+    success: true,
+    data: { asset: result.asset! },
+    message: `Asset ${result.asset!.id} saved`
+  };
+  res.status(statusCode).json(response);
+}, 10000)); // 10 second timeout
+
+router.delete('/assets/:assetId', requireAdminKey, withTimeout(async (req: Request, res: Response): Promise<void> => {
+  const service = getPrintService();
+  const removed: boolean = await service.deleteAsset(req.params.assetId);
+
+  if (!removed) {
+    const response: ApiResponse = {
+      success: false,
+      error: 'Asset not found'
+    };
+    res.status(404).json(response);
+    return;
+  }
+
+  const response: ApiResponse = {
+    success: true,
+    message: 'Asset removed'
+  };
+  res.json(response);
+}, 5000)); // 5 second timeout
+
+// Standalone SVG barcode, e.g. ?type=qrcode&value=A1B2&printerName=Nursery%20Zebra
+router.get('/barcode', validateBarcodeQuery, withTimeout(async (req: Request, res: Response): Promise<void> => {
+  const query = req.query as unknown as BarcodeOptions & { dpi?: number; printerName?: string; };
+
+  let svg: string;
+  try {
+    svg = renderBarcodeSvg(query, query.dpi ?? getPrinterDpi(query.printerName));
+  } catch (error: any) {
+    const response: ApiResponse = {
+      success: false,
+      error: error.message
+    };
+    res.status(400).json(response);
+    return;
+  }
+
+  res.set('Cache-Control', 'public, max-age=86400');
+  res.type('image/svg+xml').send(svg);
+}, 5000)); // 5 second timeout
+
+// Jobs that exhausted their retries, optionally only those for ?printerName=
+router.get('/dead-letter', withTimeout(async (req: Request, res: Response): Promise<void> => {
+  const service = getPrintService();
+  const printerName: string | undefined = typeof req.query.printerName === 'string' ? req.query.printerName : undefined;
+
+  const entries: DeadLetterSummary[] = await service.listDeadLetters(printerName);
+
+  const response: ApiResponse<{ entries: DeadLetterSummary[]; total: number; }> = {
+    success: true,
+    data: { entries, total: entries.length }
+  };
+  res.json(response);
+}, 5000)); // 5 second timeout
+
+// Requeue every matching entry, e.g. { "printerName": "Nursery Zebra" } once it is back online
+router.post('/dead-letter/replay', requireAdminKey, validateDeadLetterBulkReplay, withTimeout(async (req: Request, res: Response): Promise<void> => {
+  const service = getPrintService();
+  const result: DeadLetterReplayResult = await service.replayDeadLetters(req.body);
+
+  const response: ApiResponse<DeadLetterReplayResult> = {
+    success: result.failed.length === 0,
+    data: result,
+    message: `${result.replayed.length}/${result.replayed.length + result.failed.length} dead-letter entries replayed`
+  };
+  res.status(result.failed.length === 0 ? 200 : 207).json(response);
+}, 10000)); // 10 second timeout
+
+router.get('/dead-letter/:id', withTimeout(async (req: Request, res: Response): Promise<void> => {
+  const service = getPrintService();
+  const entry: DeadLetterEntry | undefined = await service.getDeadLetter(req.params.id);
+
+  if (!entry) {
+    const response: ApiResponse = {
+      success: false,
+      error: 'Dead-letter entry not found'
+    };
+    res.status(404).json(response);
+    return;
+  }
+
+  const response: ApiResponse<{ entry: DeadLetterEntry; }> = {
+    success: true,
+    data: { entry }
+  };
+  res.json(response);
+}, 5000)); // 5 second timeout
+
+router.post('/dead-letter/:id/replay', requireAdminKey, validateDeadLetterReplay, withTimeout(async (req: Request, res: Response): Promise<void> => {
+  const service = getPrintService();
+  const result: JobActionResult = await service.replayDeadLetter(req.params.id, req.body.printerName);
+
+  sendJobActionResult(res, result, 'Dead-letter entry requeued');
+}, 5000)); // 5 second timeout
+
+router.delete('/dead-letter/:id', requireAdminKey, withTimeout(async (req: Request, res: Response): Promise<void> => {
+  const service = getPrintService();
+  const removed: boolean = await service.discardDeadLetter(req.params.id);
+
+  if (!removed) {
+    const response: ApiResponse = {
+      success: false,
+      error: 'Dead-letter entry not found'
+    };
+    res.status(404).json(response);
+    return;
+  }
+
+  const response: ApiResponse = {
+    success: true,
+    message: 'Dead-letter entry discarded'
+  };
+  res.json(response);
 }, 5000)); // 5 second timeout
 
 // Enhanced metrics with performance stats - THIS WAS HANGING
@@ -199,29 +947,28 @@ router.get('/metrics', withTimeout(async (req: Request, res: Response): Promise<
   const service = getPrintService();
   
   // Wrap metrics collection with timeout
-  const metricsPromise = new Promise((resolve, reject) => {
+  const metricsTimeout = new Promise<never>((_, reject) => {
     setTimeout(() => reject(new Error('Metrics collection timeout')), 3000);
-    
-    try {
-      const metrics: ServerMetrics = service.getMetrics();
-      
-      // Add performance stats if available
-      let performanceStats = {};
-      if (typeof service.getPerformanceStats === 'function') {
-        performanceStats = service.getPerformanceStats();
-      }
-      
-      resolve({
-        metrics,
-        performance: performanceStats,
-        timestamp: new Date().toISOString()
-      });
-    } catch (error) {
-      reject(error);
-    }
   });
 
-  const data = await metricsPromise;
+  const metricsPromise = (async () => {
+    const metrics: ServerMetrics = await service.getMetrics();
+
+    // Add performance stats if available
+    let performanceStats = {};
+    if (typeof service.getPerformanceStats === 'function') {
+      performanceStats = await service.getPerformanceStats();
+    }
+
+    return {
+      metrics,
+      performance: performanceStats,
+      cluster: await service.getClusterStatus(),
+      timestamp: new Date().toISOString()
+    };
+  })();
+
+  const data = await Promise.race([metricsPromise, metricsTimeout]);
   
   const response: ApiResponse<any> = {
     success: true,
@@ -239,15 +986,16 @@ router.get('/printers', withTimeout(async (req: Request, res: Response): Promise
     const timeout = setTimeout(() => {
       reject(new Error('Printer status collection timeout - printer discovery may be hanging'));
     }, 3000); // 3 second timeout
-    
-    try {
-      const printers: PrinterStatus[] = service.getPrinterStatus();
-      clearTimeout(timeout);
-      resolve(printers);
-    } catch (error) {
-      clearTimeout(timeout);
-      reject(error);
-    }
+
+    service.getPrinterStatus()
+      .then((printers: PrinterStatus[]) => {
+        clearTimeout(timeout);
+        resolve(printers);
+      })
+      .catch((error: any) => {
+        clearTimeout(timeout);
+        reject(error);
+      });
   });
 
   try {
@@ -299,7 +1047,7 @@ router.get('/browser-status', withTimeout(async (req: Request, res: Response): P
   };
 
   if (typeof service.getBrowserStatus === 'function') {
-    browserStatus = service.getBrowserStatus();
+    browserStatus = await service.getBrowserStatus();
   }
 
   const response: ApiResponse<{ browserStatus: any; }> = {
@@ -309,6 +1057,47 @@ router.get('/browser-status', withTimeout(async (req: Request, res: Response): P
   res.json(response);
 }, 3000)); // 3 second timeout
 
+// Render a label through the print pipeline and return it instead of printing it
+// JSON with non-ASCII characters escaped, so it is a valid header value
+const toHeaderJson = (value: unknown): string =>
+  JSON.stringify(value).replace(/[^\x20-\x7e]/g, (char: string): string => `\\u${char.charCodeAt(0).toString(16).padStart(4, '0')}`);
+
+// JSON with base64 content by default; Accept: image/png or application/pdf gets the file
+// itself, with the warnings as JSON in a Preview-Warnings header
+router.post('/preview', validatePreviewRequest, withTimeout(async (req: Request, res: Response): Promise<void> => {
+  const service = getPrintService();
+  const format: PreviewFormat = req.body.format ?? (req.accepts(['image/png', 'application/pdf']) === 'application/pdf' ? 'pdf' : 'png');
+
+  let preview: LabelPreview;
+  try {
+    preview = await service.previewLabel(req.body.label, format, req.body.dpi);
+  } catch (error: any) {
+    const response: ApiResponse = {
+      success: false,
+      error: `Preview failed: ${error.message}`
+    };
+    res.status(getErrorStatusCode(error, 422)).json(response);
+    return;
+  }
+
+  res.vary('Accept');
+  if (req.accepts(['application/json', preview.mimeType]) === preview.mimeType) {
+    res.set('Preview-Warnings', toHeaderJson(preview.warnings));
+    if (preview.pages !== undefined) {
+      res.set('Preview-Pages', String(preview.pages));
+    }
+    res.type(preview.mimeType).send(Buffer.from(preview.content, 'base64'));
+    return;
+  }
+
+  const response: ApiResponse<{ preview: LabelPreview; }> = {
+    success: true,
+    data: { preview },
+    message: preview.warnings.length > 0 ? `Rendered with ${preview.warnings.length} warnings` : 'Rendered without warnings'
+  };
+  res.json(response);
+}, 30000)); // 30 second timeout
+
 // Performance test endpoint
 router.post('/test-performance/:printerName', withTimeout(async (req: Request, res: Response): Promise<void> => {
   const startTime = Date.now();
@@ -319,7 +1108,7 @@ router.post('/test-performance/:printerName', withTimeout(async (req: Request, r
   const service = getPrintService();
 
   // Check if printer exists and is online with timeout
-  const printer: PrinterStatus | undefined = service.getPrinterStatus().find(p => p.name === printerName);
+  const printer: PrinterStatus | undefined = (await service.getPrinterStatus()).find(p => p.name === printerName);
   if (!printer) {
     const response: ApiResponse = {
       success: false,
@@ -386,7 +1175,7 @@ router.post('/test-performance/:printerName', withTimeout(async (req: Request, r
 
   console.log(`🧪 PERFORMANCE TEST: ${copies} copies to ${printerName}`);
 
-  const jobId: string = service.submitPrintJob(request);
+  const jobId: string = await service.submitPrintJob(request);
   const totalTime = Date.now() - startTime;
 
   const response: ApiResponse<{
@@ -420,7 +1209,7 @@ router.post('/zebra/reset-media/:printerName', withTimeout(async (req: Request,
   const service = getPrintService();
 
   // Check if printer exists and is online
-  const printer: PrinterStatus | undefined = service.getPrinterStatus().find(p => p.name === printerName);
+  const printer: PrinterStatus | undefined = (await service.getPrinterStatus()).find(p => p.name === printerName);
   if (!printer) {
     const response: ApiResponse = {
       success: false,
@@ -466,7 +1255,7 @@ router.get('/performance-report', withTimeout(async (req: Request, res: Response
 
   let report = {};
   if (typeof service.getPerformanceReport === 'function') {
-    report = service.getPerformanceReport();
+    report = await service.getPerformanceReport();
   }
 
   const response: ApiResponse<{ report: any; }> = {
@@ -6,23 +6,58 @@ import cluster, { type Worker } from 'cluster';
 
 import { config } from './config';
 import logger from './utils/logger';
-import printRoutes, { initializePrintService } from './routes/print';
+import printRoutes, { initializePrintService, shutdownPrintService } from './routes/print';
+import { PrintService } from './services/PrintService';
+import { registerClusterHandlers } from './services/ClusterBridge';
 import { HealthCheckResponse } from './types';
 import { corsConfig } from './middleware/cors';
 import { globalTimeoutMiddleware, printRouteTimeout } from './middleware/timeout'; // ADD THIS
 
 if (cluster.isPrimary && process.env.NODE_ENV === 'production') {
   const numWorkers: number = config.server.workers;
-  logger.info(`Starting ${numWorkers} workers`);
+  let shuttingDown: boolean = false;
 
-  for (let i: number = 0; i < numWorkers; i++) {
-    cluster.fork();
-  }
+  // The primary owns the queue, printer discovery and the Puppeteer browser;
+  // workers only serve HTTP and talk to it over IPC
+  cluster.setupPrimary({ serialization: 'advanced' });
+
+  const printService: PrintService = PrintService.getInstance();
+  registerClusterHandlers(printService);
+
+  printService.initialize()
+    .then((): void => {
+      logger.info(`✅ Print service initialized in primary ${process.pid}, starting ${numWorkers} workers`);
+
+      for (let i: number = 0; i < numWorkers; i++) {
+        cluster.fork();
+      }
+    })
+    .catch((error: any): void => {
+      logger.error('❌ Failed to initialize print service:', error);
+      process.exit(1);
+    });
 
   cluster.on('exit', (worker: Worker, code: number, signal: string): void => {
+    if (shuttingDown) return;
+
     logger.warn(`Worker ${worker.process.pid} died with code ${code} and signal ${signal}`);
     cluster.fork();
   });
+
+  const shutdownPrimary = (signal: string): void => {
+    logger.info(`${signal} received, stopping workers and print service`);
+    shuttingDown = true;
+
+    for (const worker of Object.values(cluster.workers ?? {})) {
+      worker?.kill(signal);
+    }
+
+    printService.destroy();
+    process.exit(0);
+  };
+
+  process.on('SIGTERM', (): void => shutdownPrimary('SIGTERM'));
+  process.on('SIGINT', (): void => shutdownPrimary('SIGINT'));
 } else {
   const app: Application = express();
 
@@ -123,7 +158,7 @@ if (cluster.isPrimary && process.env.NODE_ENV === 'production') {
   const server = app.listen(config.server.port, config.server.host, async (): Promise<void> => {
     logger.info(`🗄️  Print server running on ${config.server.host}:${config.server.port}`);
 
-    // Initialize print service ONCE using singleton
+    // Initialize print service ONCE using singleton (or connect to the primary's)
     try {
       logger.info('Initializing print service singleton...');
       await initializePrintService();
@@ -143,12 +178,8 @@ if (cluster.isPrimary && process.env.NODE_ENV === 'production') {
     server.close((): void => {
       // Use singleton instance for cleanup
       try {
-        const PrintService = require('./services/PrintService').PrintService;
-        const instance = PrintService.getInstance();
-        if (instance) {
-          instance.destroy();
-          logger.info('PrintService singleton destroyed');
-        }
+        shutdownPrintService();
+        logger.info('PrintService singleton destroyed');
       } catch (error) {
         logger.warn('Error during PrintService cleanup:', error);
       }
@@ -0,0 +1,191 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ASSET_ORIGIN, AssetResponse, AssetService } from './AssetService';
+import { config } from '../config';
+import { LabelAssetInput } from '../types';
+
+jest.mock('../utils/logger', () => ({
+  __esModule: true,
+  default: { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() }
+}));
+
+const logo: LabelAssetInput = { name: 'Logo', mimeType: 'image/png', content: Buffer.from('png bytes').toString('base64') };
+
+describe('AssetService', () => {
+  const assets = { ...config.assets };
+  const printing = { ...config.printing };
+
+  afterEach(() => {
+    Object.assign(config.assets, assets);
+    Object.assign(config.printing, printing);
+  });
+
+  describe('stored assets', () => {
+    it('only accepts ids that are safe as file names', () => {
+      const service = new AssetService();
+
+      expect(service.save('church-logo_2.png', logo).outcome).toBe('created');
+      expect(service.save('../../etc/passwd', logo).outcome).toBe('invalid');
+      expect(service.save('.hidden', logo).outcome).toBe('invalid');
+      expect(service.save('logos/church', logo).outcome).toBe('invalid');
+      expect(service.save('a'.repeat(65), logo).outcome).toBe('invalid');
+    });
+
+    it('rejects empty and oversized content', () => {
+      config.assets.maxBytes = 4;
+      const service = new AssetService();
+
+      expect(service.save('logo', { ...logo, content: '' }).error).toBe('Asset content is empty');
+      expect(service.save('logo', logo).error).toBe('Asset is 9 bytes, the limit is 4');
+    });
+
+    it('reloads saved assets from its directory', () => {
+      const dir: string = mkdtempSync(join(tmpdir(), 'assets-'));
+
+      try {
+        new AssetService(dir).save('logo', logo);
+
+        const reloaded = new AssetService(dir);
+        expect(reloaded.get('logo')).toEqual({ asset: expect.objectContaining({ id: 'logo', size: 9 }), content: logo.content });
+        expect(reloaded.remove('logo')).toBe(true);
+        expect(new AssetService(dir).list()).toEqual([]);
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('points asset:// references at a URL that changes with the content', () => {
+      const service = new AssetService();
+      service.save('logo', logo);
+      const before: string = service.resolveReferences('<img src="asset://logo">');
+
+      service.save('logo', { ...logo, content: Buffer.from('new png').toString('base64') });
+      const after: string = service.resolveReferences('<img src="asset://logo">');
+
+      expect(before).toMatch(new RegExp(`^<img src="${ASSET_ORIGIN}logo\\?v=[0-9a-f]{12}">$`));
+      expect(after).not.toBe(before);
+      expect(service.resolveReferences('asset://missing')).toBe(`${ASSET_ORIGIN}missing`);
+    });
+
+    it('answers intercepted requests for stored assets', async () => {
+      const service = new AssetService();
+      service.save('logo', logo);
+
+      const found: AssetResponse | undefined = await service.resolveRequest(`${ASSET_ORIGIN}logo?v=1`, 'image', 'GET');
+      const missing: AssetResponse | undefined = await service.resolveRequest(`${ASSET_ORIGIN}other`, 'image', 'GET');
+
+      expect(found).toEqual({ status: 200, contentType: 'image/png', body: Buffer.from('png bytes') });
+      expect(missing?.status).toBe(404);
+    });
+  });
+
+  describe('remote assets', () => {
+    const url: string = 'https://cdn.example.org/logo.png';
+    let fetchMock: jest.SpyInstance;
+
+    beforeEach(() => {
+      config.printing.renderAllowedHosts = ['cdn.example.org'];
+      fetchMock = jest.spyOn(global, 'fetch').mockImplementation(async () =>
+        new Response('remote png', { status: 200, headers: { 'Content-Type': 'image/png' } }));
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+      fetchMock.mockRestore();
+    });
+
+    it('fetches a remote image once and serves it from the cache', async () => {
+      const service = new AssetService();
+
+      await service.resolveRequest(url, 'image', 'GET');
+      const cached: AssetResponse | undefined = await service.resolveRequest(url, 'image', 'GET');
+
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(cached?.body.toString()).toBe('remote png');
+    });
+
+    it('serves the stale copy when a refresh fails', async () => {
+      jest.useFakeTimers({ now: 1_000_000, doNotFake: ['setTimeout', 'setImmediate'] });
+      config.assets.remoteTtlMs = 1000;
+      const service = new AssetService();
+      await service.resolveRequest(url, 'image', 'GET');
+
+      jest.setSystemTime(1_002_000);
+      fetchMock.mockRejectedValueOnce(new Error('getaddrinfo ENOTFOUND cdn.example.org'));
+
+      expect((await service.resolveRequest(url, 'image', 'GET'))?.body.toString()).toBe('remote png');
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it('leaves other requests to the network', async () => {
+      const service = new AssetService();
+
+      expect(await service.resolveRequest(url, 'script', 'GET')).toBeUndefined();
+      expect(await service.resolveRequest(url, 'image', 'POST')).toBeUndefined();
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it('does not cache error responses', async () => {
+      fetchMock.mockImplementation(async () => new Response('gone', { status: 404 }));
+      const service = new AssetService();
+
+      expect((await service.resolveRequest(url, 'image', 'GET'))?.status).toBe(404);
+      await service.resolveRequest(url, 'image', 'GET');
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it('follows redirects between allowed hosts', async () => {
+      fetchMock.mockImplementationOnce(async () => new Response(null, { status: 302, headers: { Location: '/v2/logo.png' } }));
+      const service = new AssetService();
+
+      const fetched: AssetResponse | undefined = await service.resolveRequest(url, 'image', 'GET');
+
+      expect(fetched?.body.toString()).toBe('remote png');
+      expect(fetchMock).toHaveBeenLastCalledWith('https://cdn.example.org/v2/logo.png', expect.objectContaining({ redirect: 'manual' }));
+    });
+
+    it('refuses a redirect to a host outside RENDER_ALLOWED_HOSTS', async () => {
+      fetchMock.mockImplementationOnce(async () =>
+        new Response(null, { status: 301, headers: { Location: 'http://169.254.169.254/latest/meta-data' } }));
+      const service = new AssetService();
+
+      await expect(service.resolveRequest(url, 'image', 'GET'))
+        .rejects.toThrow('Redirect to http://169.254.169.254/latest/meta-data is not in RENDER_ALLOWED_HOSTS');
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('stops after too many redirects', async () => {
+      fetchMock.mockImplementation(async () => new Response(null, { status: 302, headers: { Location: url } }));
+      const service = new AssetService();
+
+      await expect(service.resolveRequest(url, 'image', 'GET')).rejects.toThrow(`Too many redirects fetching ${url}`);
+      expect(fetchMock).toHaveBeenCalledTimes(6);
+    });
+
+    it('stops reading a response once it passes the size limit', async () => {
+      config.assets.maxBytes = 4096;
+      let chunks: number = 0;
+      const endless = new ReadableStream<Uint8Array>({
+        pull(controller): void {
+          chunks++;
+          controller.enqueue(new Uint8Array(1024));
+        }
+      });
+      fetchMock.mockImplementation(async () => new Response(endless, { status: 200 }));
+      const service = new AssetService();
+
+      await expect(service.resolveRequest(url, 'image', 'GET')).rejects.toThrow('Remote asset is over the limit of 4096 bytes');
+      expect(chunks).toBeLessThanOrEqual(6);
+    });
+
+    it('refuses a response that declares a size over the limit', async () => {
+      config.assets.maxBytes = 4;
+      fetchMock.mockImplementation(async () =>
+        new Response('remote png', { status: 200, headers: { 'Content-Type': 'image/png', 'Content-Length': '10' } }));
+      const service = new AssetService();
+
+      await expect(service.resolveRequest(url, 'image', 'GET')).rejects.toThrow('Remote asset is 10 bytes, the limit is 4');
+    });
+  });
+});
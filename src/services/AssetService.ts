@@ -0,0 +1,320 @@
+// src/services/AssetService.ts - Local logos, images and fonts for labels, plus a cache of remote ones
+
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, renameSync, unlinkSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { AssetSaveResult, LabelAsset, LabelAssetContent, LabelAssetInput } from '../types';
+import { config } from '../config';
+import logger from '../utils/logger';
+import { isRequestAllowed } from '../utils/network';
+
+// asset://<id> is rewritten to this origin before rendering; the host never resolves,
+// every request to it is answered from the store by request interception
+export const ASSET_ORIGIN: string = 'http://assets.mp-print.invalid/';
+
+export const ASSET_ID_PATTERN: RegExp = /^[a-z0-9][a-z0-9_.-]*$/i;
+const ASSET_REFERENCE_PATTERN: RegExp = /asset:\/\/([a-z0-9][a-z0-9_.-]*)/gi;
+
+// Remote requests of these types are cached; anything else goes to the network as before
+const CACHED_RESOURCE_TYPES: string[] = ['image', 'font', 'stylesheet'];
+
+const MAX_REMOTE_REDIRECTS = 5;
+
+export interface AssetResponse {
+  status: number;
+  contentType: string;
+  body: Buffer;
+}
+
+interface RemoteEntry extends AssetResponse {
+  fetchedAt: number;
+}
+
+export class AssetService {
+  private assets: Map<string, LabelAsset> = new Map();
+  private contents: Map<string, Buffer> = new Map();
+
+  // Least recently used first, like the render cache
+  private remote: Map<string, RemoteEntry> = new Map();
+  private remoteInFlight: Map<string, Promise<AssetResponse>> = new Map();
+  private remoteBytes: number = 0;
+
+  // Assets are kept in dir when given, in memory otherwise
+  constructor(private readonly dir?: string) {
+    this.loadAssets();
+  }
+
+  public save(id: string, input: LabelAssetInput): AssetSaveResult {
+    if (!ASSET_ID_PATTERN.test(id) || id.length > 64) {
+      return { outcome: 'invalid', error: 'Asset id must be letters, digits, dots, dashes or underscores (max 64)' };
+    }
+
+    const content: Buffer = Buffer.from(input.content, 'base64');
+    if (content.length === 0) {
+      return { outcome: 'invalid', error: 'Asset content is empty' };
+    }
+    if (content.length > config.assets.maxBytes) {
+      return { outcome: 'invalid', error: `Asset is ${content.length} bytes, the limit is ${config.assets.maxBytes}` };
+    }
+
+    const existing: LabelAsset | undefined = this.assets.get(id);
+    const now: number = Date.now();
+    const asset: LabelAsset = {
+      id,
+      name: input.name,
+      mimeType: input.mimeType,
+      size: content.length,
+      hash: createHash('sha256').update(content).digest('hex'),
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now
+    };
+
+    this.assets.set(id, asset);
+    this.contents.set(id, content);
+    this.saveContent(id, content);
+    this.saveIndex();
+
+    logger.info(`Asset ${id} ${existing ? 'replaced' : 'stored'} (${asset.mimeType}, ${asset.size} bytes)`);
+    return { outcome: existing ? 'updated' : 'created', asset };
+  }
+
+  public get(id: string): LabelAssetContent | undefined {
+    const asset: LabelAsset | undefined = this.assets.get(id);
+    const content: Buffer | undefined = this.contents.get(id);
+    if (!asset || !content) return undefined;
+
+    return { asset, content: content.toString('base64') };
+  }
+
+  public list(): LabelAsset[] {
+    return Array.from(this.assets.values());
+  }
+
+  public remove(id: string): boolean {
+    if (!this.assets.delete(id)) return false;
+
+    this.contents.delete(id);
+    this.saveIndex();
+
+    if (this.dir) {
+      try {
+        unlinkSync(this.filePath(id));
+      } catch (error: any) {
+        logger.debug(`Asset file for ${id} not removed: ${error.message}`);
+      }
+    }
+
+    logger.info(`Asset ${id} removed`);
+    return true;
+  }
+
+  // asset://logo -> the interception origin. The content hash is part of the URL, so a
+  // replaced asset also changes the label's render cache key.
+  public resolveReferences(html: string): string {
+    return html.replace(ASSET_REFERENCE_PATTERN, (_: string, id: string): string => {
+      const asset: LabelAsset | undefined = this.assets.get(id);
+      return asset ? `${ASSET_ORIGIN}${id}?v=${asset.hash.slice(0, 12)}` : `${ASSET_ORIGIN}${id}`;
+    });
+  }
+
+  // Response for an intercepted page request; undefined lets it through to the network
+  public async resolveRequest(url: string, resourceType: string, method: string): Promise<AssetResponse | undefined> {
+    if (url.startsWith(ASSET_ORIGIN)) {
+      return this.getLocalResponse(decodeURIComponent(new URL(url).pathname.slice(1)));
+    }
+
+    if (method === 'GET' && /^https?:\/\//i.test(url) && CACHED_RESOURCE_TYPES.includes(resourceType)) {
+      return this.getRemoteResponse(url);
+    }
+
+    return undefined;
+  }
+
+  private getLocalResponse(id: string): AssetResponse {
+    const asset: LabelAsset | undefined = this.assets.get(id);
+    const content: Buffer | undefined = this.contents.get(id);
+
+    if (!asset || !content) {
+      return { status: 404, contentType: 'text/plain', body: Buffer.from(`Asset '${id}' not found`) };
+    }
+    return { status: 200, contentType: asset.mimeType, body: content };
+  }
+
+  // Fresh cache entries are served without a request. Once the TTL passes the URL is fetched
+  // again, and the stale copy is still served if the fetch fails (e.g. the internet is down).
+  private async getRemoteResponse(url: string): Promise<AssetResponse> {
+    const cached: RemoteEntry | undefined = this.remote.get(url);
+    if (cached && Date.now() - cached.fetchedAt < config.assets.remoteTtlMs) {
+      this.remote.delete(url);
+      this.remote.set(url, cached);
+      return cached;
+    }
+
+    const pending: Promise<AssetResponse> | undefined = this.remoteInFlight.get(url);
+    if (pending) return pending;
+
+    const fetching: Promise<AssetResponse> = this.fetchRemote(url, cached).finally((): void => {
+      this.remoteInFlight.delete(url);
+    });
+
+    this.remoteInFlight.set(url, fetching);
+    return fetching;
+  }
+
+  // Redirects are followed by hand so every hop is checked against RENDER_ALLOWED_HOSTS;
+  // an allowed host must not be able to bounce the renderer to a blocked or internal address
+  private async fetchAllowed(url: string): Promise<Response> {
+    const signal: AbortSignal = AbortSignal.timeout(config.assets.remoteTimeout);
+    let target: string = url;
+
+    for (let hop = 0; hop <= MAX_REMOTE_REDIRECTS; hop++) {
+      if (!isRequestAllowed(target)) {
+        throw new Error(`Redirect to ${target} is not in RENDER_ALLOWED_HOSTS`);
+      }
+
+      const response = await fetch(target, { signal, redirect: 'manual' });
+      const location: string | null = response.headers.get('location');
+      if (response.status < 300 || response.status >= 400 || !location) {
+        return response;
+      }
+
+      await response.body?.cancel();
+      target = new URL(location, target).toString();
+    }
+
+    throw new Error(`Too many redirects fetching ${url}`);
+  }
+
+  // Reads the body as it arrives and stops past ASSET_MAX_MB, so an oversized or endless
+  // response is never held in memory whole
+  private async readLimited(response: Response): Promise<Buffer> {
+    const limit: number = config.assets.maxBytes;
+    const declared: number = Number(response.headers.get('content-length') ?? 0);
+    if (declared > limit) {
+      await response.body?.cancel();
+      throw new Error(`Remote asset is ${declared} bytes, the limit is ${limit}`);
+    }
+
+    if (!response.body) return Buffer.alloc(0);
+
+    const reader = response.body.getReader();
+    const chunks: Buffer[] = [];
+    let size: number = 0;
+
+    for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+      size += chunk.value.byteLength;
+      if (size > limit) {
+        await reader.cancel();
+        throw new Error(`Remote asset is over the limit of ${limit} bytes`);
+      }
+      chunks.push(Buffer.from(chunk.value));
+    }
+
+    return Buffer.concat(chunks, size);
+  }
+
+  private async fetchRemote(url: string, stale?: RemoteEntry): Promise<AssetResponse> {
+    try {
+      const response = await this.fetchAllowed(url);
+      const fetched: AssetResponse = {
+        status: response.status,
+        contentType: response.headers.get('content-type') ?? 'application/octet-stream',
+        body: await this.readLimited(response)
+      };
+
+      if (!response.ok || (response.url && !isRequestAllowed(response.url))) {
+        if (stale) {
+          logger.warn(`Remote asset ${url} returned HTTP ${response.status}, serving cached copy`);
+          return stale;
+        }
+        return fetched;
+      }
+
+      this.setRemote(url, { ...fetched, fetchedAt: Date.now() });
+      return fetched;
+    } catch (error: any) {
+      if (stale) {
+        logger.warn(`Remote asset ${url} unavailable (${error.message}), serving cached copy`);
+        return stale;
+      }
+      throw error;
+    }
+  }
+
+  private setRemote(url: string, entry: RemoteEntry): void {
+    const previous: RemoteEntry | undefined = this.remote.get(url);
+    if (previous) {
+      this.remote.delete(url);
+      this.remoteBytes -= previous.body.length;
+    }
+
+    if (entry.body.length > config.assets.remoteCacheBytes) return;
+
+    this.remote.set(url, entry);
+    this.remoteBytes += entry.body.length;
+
+    for (const [oldestUrl, oldest] of this.remote) {
+      if (this.remoteBytes <= config.assets.remoteCacheBytes) break;
+      this.remote.delete(oldestUrl);
+      this.remoteBytes -= oldest.body.length;
+    }
+  }
+
+  private loadAssets(): void {
+    const indexPath: string | undefined = this.dir ? join(this.dir, 'index.json') : undefined;
+    if (!indexPath || !existsSync(indexPath)) return;
+
+    try {
+      const stored: LabelAsset[] = JSON.parse(readFileSync(indexPath, 'utf8'));
+      stored.forEach((asset: LabelAsset): void => {
+        try {
+          this.contents.set(asset.id, readFileSync(this.filePath(asset.id)));
+          this.assets.set(asset.id, asset);
+        } catch (error: any) {
+          logger.warn(`Asset ${asset.id} skipped, its file could not be read: ${error.message}`);
+        }
+      });
+      logger.info(`Loaded ${this.assets.size} label assets from ${this.dir}`);
+    } catch (error) {
+      logger.error(`Failed to load label assets from ${this.dir}:`, error);
+    }
+  }
+
+  private saveContent(id: string, content: Buffer): void {
+    if (!this.dir) return;
+
+    try {
+      this.ensureDir(join(this.dir, 'files'));
+      const tempPath = `${this.filePath(id)}.tmp`;
+      writeFileSync(tempPath, content);
+      renameSync(tempPath, this.filePath(id));
+    } catch (error) {
+      logger.error(`Failed to save asset ${id} to ${this.dir}:`, error);
+    }
+  }
+
+  private saveIndex(): void {
+    if (!this.dir) return;
+
+    try {
+      this.ensureDir(this.dir);
+      const indexPath = join(this.dir, 'index.json');
+      const tempPath = `${indexPath}.tmp`;
+      writeFileSync(tempPath, JSON.stringify(this.list(), null, 2), 'utf8');
+      renameSync(tempPath, indexPath);
+    } catch (error) {
+      logger.error(`Failed to save label assets to ${this.dir}:`, error);
+    }
+  }
+
+  // Metadata in index.json, content in files/<id>
+  private filePath(id: string): string {
+    return join(this.dir!, 'files', id);
+  }
+
+  private ensureDir(dir: string): void {
+    if (!existsSync(dir)) {
+      mkdirSync(dir, { recursive: true });
+    }
+  }
+}
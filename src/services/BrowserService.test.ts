@@ -0,0 +1,309 @@
+import puppeteer, { Browser, Page } from 'puppeteer';
+import { BrowserService } from './BrowserService';
+import { config } from '../config';
+import { getProcessTreeMemory } from '../utils/processMemory';
+
+jest.mock('../utils/logger', () => ({
+  __esModule: true,
+  default: { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() }
+}));
+jest.mock('puppeteer', () => ({ __esModule: true, default: { launch: jest.fn() } }));
+jest.mock('../utils/chrome', () => ({ resolveChromeExecutable: () => ({ path: '/usr/bin/chromium', source: 'system' }) }));
+jest.mock('../utils/processMemory', () => ({ getProcessTreeMemory: jest.fn() }));
+
+type FakePage = Page & { close: jest.Mock; goto: jest.Mock; removeAllListeners: jest.Mock; };
+type FakeBrowser = Browser & { newPage: jest.Mock; close: jest.Mock; crash: () => void; };
+
+const launch = puppeteer.launch as jest.Mock;
+const processMemory = getProcessTreeMemory as jest.MockedFunction<typeof getProcessTreeMemory>;
+
+// Just enough of a Browser for the pools
+const fakeBrowser = (pid: number): FakeBrowser => {
+  const handlers: Record<string, () => void> = {};
+  const browser = {
+    connected: true,
+    version: async (): Promise<string> => 'Chrome/130.0.0.0',
+    process: () => ({ pid, kill: jest.fn() }),
+    on: jest.fn((event: string, handler: () => void) => { handlers[event] = handler; }),
+    close: jest.fn(async () => { browser.connected = false; }),
+    crash: (): void => {
+      browser.connected = false;
+      handlers.disconnected();
+    },
+    newPage: jest.fn(async (): Promise<FakePage> => {
+      let closed: boolean = false;
+      return {
+        browser: () => browser,
+        isClosed: () => closed,
+        close: jest.fn(async () => { closed = true; }),
+        removeAllListeners: jest.fn(),
+        setRequestInterception: jest.fn(async () => undefined),
+        emulateMediaType: jest.fn(async () => undefined),
+        goto: jest.fn(async () => null)
+      } as unknown as FakePage;
+    })
+  };
+  return browser as unknown as FakeBrowser;
+};
+
+// Pool work after a release (closing, topping up, restarting) is not awaited by releasePage
+const settle = async (): Promise<void> => {
+  for (let i = 0; i < 10; i++) {
+    await new Promise((resolve) => setImmediate(resolve));
+  }
+};
+
+describe('BrowserService', () => {
+  const printing = { ...config.printing };
+  let launched: FakeBrowser[];
+  let service: BrowserService;
+
+  beforeEach(() => {
+    config.printing.puppeteerBrowsers = 1;
+    config.printing.puppeteerPagePoolSize = 0;
+    config.printing.puppeteerMaxPages = 2;
+    config.printing.puppeteerPageMaxUses = 3;
+    config.printing.puppeteerPageAcquireTimeout = 1000;
+    config.printing.puppeteerBrowserMaxRenders = 0;
+    config.printing.puppeteerBrowserMaxRss = 0;
+
+    launched = [];
+    launch.mockImplementation(async (): Promise<FakeBrowser> => {
+      const browser: FakeBrowser = fakeBrowser(1000 + launched.length);
+      launched.push(browser);
+      return browser;
+    });
+  });
+
+  afterEach(() => {
+    service.destroy();
+    jest.useRealTimers();
+    Object.assign(config.printing, printing);
+  });
+
+  const start = async (): Promise<BrowserService> => {
+    service = new BrowserService();
+    await service.initialize();
+    return service;
+  };
+
+  describe('page pool', () => {
+    it('resets a released page and hands it out again', async () => {
+      await start();
+      const page = await service.acquirePage() as FakePage;
+      await service.releasePage(page);
+
+      expect(page.removeAllListeners).toHaveBeenCalled();
+      expect(page.goto).toHaveBeenCalledWith('about:blank', { timeout: 3000 });
+      expect(await service.acquirePage()).toBe(page);
+      expect(launched[0].newPage).toHaveBeenCalledTimes(1);
+      expect(service.getPagePoolStats()).toEqual(expect.objectContaining({ total: 1, inUse: 1, created: 1, acquired: 2 }));
+    });
+
+    it('recycles a page after its maximum number of uses', async () => {
+      await start();
+      const page = await service.acquirePage() as FakePage;
+      await service.releasePage(page);
+      await service.releasePage(await service.acquirePage());
+      await service.releasePage(await service.acquirePage());
+
+      expect(page.close).toHaveBeenCalled();
+      expect(await service.acquirePage()).not.toBe(page);
+      expect(service.getPagePoolStats().recycled).toBe(1);
+    });
+
+    it('closes a page released after a failed render', async () => {
+      await start();
+      const page = await service.acquirePage() as FakePage;
+      await service.releasePage(page, true);
+
+      expect(page.close).toHaveBeenCalled();
+      expect(page.goto).not.toHaveBeenCalled();
+      expect(service.getPagePoolStats()).toEqual(expect.objectContaining({ total: 0, recycled: 1 }));
+    });
+
+    it('opens pages on demand up to the configured maximum', async () => {
+      await start();
+      await Promise.all([service.acquirePage(), service.acquirePage()]);
+
+      expect(launched[0].newPage).toHaveBeenCalledTimes(2);
+      expect(service.getPagePoolStats()).toEqual(expect.objectContaining({ total: 2, inUse: 2, utilization: 1 }));
+    });
+
+    it('makes callers wait for a page once the pool is exhausted', async () => {
+      await start();
+      const [first] = await Promise.all([service.acquirePage(), service.acquirePage()]);
+
+      const waiting: Promise<Page> = service.acquirePage();
+      await settle();
+      expect(service.getPagePoolStats().waiting).toBe(1);
+
+      await service.releasePage(first);
+      expect(await waiting).toBe(first);
+      expect(service.getPagePoolStats().waiting).toBe(0);
+    });
+
+    it('opens a replacement for a waiting caller when a page is recycled', async () => {
+      await start();
+      const [first] = await Promise.all([service.acquirePage(), service.acquirePage()]);
+
+      const waiting: Promise<Page> = service.acquirePage();
+      await service.releasePage(first, true);
+
+      const replacement: Page = await waiting;
+      expect(replacement).not.toBe(first);
+      expect(launched[0].newPage).toHaveBeenCalledTimes(3);
+    });
+
+    it('gives up waiting after the acquire timeout', async () => {
+      await start();
+      await Promise.all([service.acquirePage(), service.acquirePage()]);
+
+      jest.useFakeTimers();
+      const waiting: Promise<Page> = service.acquirePage();
+      jest.advanceTimersByTime(1000);
+
+      await expect(waiting).rejects.toThrow('No browser page available within 1000ms (2 pages in use)');
+      expect(service.getPagePoolStats()).toEqual(expect.objectContaining({ waiting: 0, acquireTimeouts: 1 }));
+    });
+
+    it('gives up on a page Chrome does not open in time and closes it if it appears later', async () => {
+      await start();
+      let opened!: (page: FakePage) => void;
+      launched[0].newPage.mockImplementationOnce(() => new Promise((resolve) => { opened = resolve; }));
+
+      jest.useFakeTimers({ doNotFake: ['setImmediate'] });
+      const acquiring: Promise<Page> = service.acquirePage();
+      const rejected = expect(acquiring).rejects.toThrow('Page creation timeout');
+      await jest.advanceTimersByTimeAsync(5000);
+      await rejected;
+
+      const late = { isClosed: () => false, close: jest.fn(async () => undefined) } as unknown as FakePage;
+      opened(late);
+      await settle();
+
+      expect(late.close).toHaveBeenCalled();
+      expect(service.getPagePoolStats().opening).toBe(0);
+    });
+  });
+
+  describe('browser pool', () => {
+    it('spreads pages over the browsers, least busy first', async () => {
+      config.printing.puppeteerBrowsers = 2;
+      await start();
+
+      const first: Page = await service.acquirePage();
+      const second: Page = await service.acquirePage();
+
+      expect(first.browser()).not.toBe(second.browser());
+      expect(service.getBrowserPoolStats()).toEqual(expect.objectContaining({ size: 2, ready: 2, launches: 2 }));
+    });
+
+    it('starts with the browsers that launch and retries the others', async () => {
+      config.printing.puppeteerBrowsers = 2;
+      launch.mockRejectedValueOnce(new Error('Failed to launch the browser process'));
+      await start();
+
+      expect(service.isAvailable()).toBe(true);
+      expect(service.getBrowserPoolStats().browsers.map((browser) => browser.state)).toEqual(['failed', 'ready']);
+    });
+
+    it('fails to initialize when no browser launches', async () => {
+      launch.mockRejectedValue(new Error('Failed to launch the browser process'));
+      service = new BrowserService();
+
+      await expect(service.initialize()).rejects.toThrow('no browser could be launched');
+      expect(service.isAvailable()).toBe(false);
+    });
+
+    it('drains a browser at the render limit and restarts it after its last label', async () => {
+      config.printing.puppeteerBrowserMaxRenders = 2;
+      await start();
+      await service.releasePage(await service.acquirePage());
+      const last: Page = await service.acquirePage();
+
+      expect(service.getBrowserPoolStats().browsers[0].state).toBe('draining');
+      expect(launch).toHaveBeenCalledTimes(1);
+
+      await service.releasePage(last);
+      await settle();
+
+      expect(launched[0].close).toHaveBeenCalled();
+      expect(service.getBrowserPoolStats()).toEqual(expect.objectContaining({ launches: 2, recycled: 1 }));
+      expect(service.getBrowserPoolStats().browsers[0]).toEqual(expect.objectContaining({
+        state: 'ready', renders: 0, restarts: 1, lastRestartReason: '2 renders'
+      }));
+      expect((await service.acquirePage()).browser()).toBe(launched[1]);
+    });
+
+    it('serves renders that waited during a restart once the new browser is ready', async () => {
+      config.printing.puppeteerBrowserMaxRenders = 1;
+      await start();
+      const last: Page = await service.acquirePage();
+
+      const waiting: Promise<Page> = service.acquirePage();
+      await settle();
+      expect(service.getPagePoolStats().waiting).toBe(1);
+
+      await service.releasePage(last);
+      await settle();
+
+      expect((await waiting).browser()).toBe(launched[1]);
+      expect(launched[1].newPage).toHaveBeenCalledTimes(1);
+    });
+
+    it('restarts a draining browser after the drain timeout', async () => {
+      config.printing.puppeteerBrowserMaxRenders = 1;
+      config.printing.puppeteerBrowserDrainTimeout = 5000;
+      await start();
+
+      jest.useFakeTimers({ doNotFake: ['setImmediate'] });
+      await service.acquirePage();
+      await jest.advanceTimersByTimeAsync(5000);
+      await settle();
+
+      expect(launch).toHaveBeenCalledTimes(2);
+      expect(service.getBrowserPoolStats().browsers[0].state).toBe('ready');
+    });
+
+    it('replaces a crashed browser and never hands out its pages', async () => {
+      await start();
+      const page: Page = await service.acquirePage();
+      await service.releasePage(page);
+
+      launched[0].crash();
+      await settle();
+
+      expect(await service.acquirePage()).not.toBe(page);
+      expect(service.getBrowserPoolStats()).toEqual(expect.objectContaining({ crashes: 1, launches: 2 }));
+      expect(service.getBrowserPoolStats().browsers[0].lastRestartReason).toBe('crash');
+    });
+
+    it('drains a browser above the memory limit at the health check', async () => {
+      config.printing.puppeteerBrowserMaxRss = 512 * 1024 * 1024;
+      config.printing.puppeteerBrowserHealthInterval = 1000;
+      processMemory.mockResolvedValue(new Map([[1000, 600 * 1024 * 1024]]));
+
+      jest.useFakeTimers({ doNotFake: ['setImmediate'] });
+      await start();
+      await jest.advanceTimersByTimeAsync(1000);
+      await settle();
+
+      expect(processMemory).toHaveBeenCalledWith([1000]);
+      expect(launch).toHaveBeenCalledTimes(2);
+      expect(service.getBrowserPoolStats().browsers[0].lastRestartReason).toBe('600 MB resident');
+    });
+
+    it('restarts one browser at a time', async () => {
+      config.printing.puppeteerBrowsers = 2;
+      config.printing.puppeteerMaxPages = 4;
+      config.printing.puppeteerBrowserMaxRenders = 1;
+      await start();
+
+      await service.acquirePage();
+      await service.acquirePage();
+
+      expect(service.getBrowserPoolStats().browsers.map((browser) => browser.state)).toEqual(['draining', 'ready']);
+    });
+  });
+});
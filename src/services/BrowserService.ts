@@ -1,140 +1,632 @@
 import puppeteer, { Browser, Page } from 'puppeteer';
-import { existsSync } from 'fs';
+import { config } from '../config';
 import logger from '../utils/logger';
+import { ChromeExecutable, resolveChromeExecutable } from '../utils/chrome';
+import { getProcessTreeMemory } from '../utils/processMemory';
+
+interface PooledPage {
+  page: Page;
+  uses: number;
+}
+
+interface PageWaiter {
+  resolve: (page: Page) => void;
+  reject: (error: Error) => void;
+  timeout: ReturnType<typeof setTimeout>;
+}
+
+export interface PagePoolStats {
+  total: number;
+  idle: number;
+  inUse: number;
+  opening: number;
+  waiting: number;
+  warmSize: number;
+  maxPages: number;
+  maxUses: number;
+  utilization: number; // in-use share of maxPages, 0..1
+  created: number;
+  recycled: number;
+  acquired: number;
+  acquireTimeouts: number;
+}
+
+// Executable in use, as reported by /browser-status
+export interface BrowserExecutable extends ChromeExecutable {
+  version: string;
+}
+
+// starting/restarting: launching; ready: takes new labels; draining: finishing its labels
+// before a restart; failed: launch failed, retried after BROWSER_RELAUNCH_DELAY
+export type BrowserState = 'starting' | 'ready' | 'draining' | 'restarting' | 'failed';
+
+export interface BrowserInstanceStats {
+  id: number;
+  state: BrowserState;
+  connected: boolean;
+  pid?: number;
+  version?: string;
+  renders: number; // labels since launch
+  rssMb?: number;  // browser and renderer processes, at the last health check
+  idlePages: number;
+  busyPages: number;
+  restarts: number;
+  uptimeMs?: number;
+  lastRestartReason?: string;
+}
+
+export interface BrowserPoolStats {
+  size: number;
+  ready: number;
+  maxRenders: number;
+  maxRssMb: number;
+  launches: number;
+  crashes: number;
+  recycled: number; // restarted for the render count or memory limit
+  browsers: BrowserInstanceStats[];
+}
+
+interface BrowserInstance {
+  id: number;
+  state: BrowserState;
+  browser?: Browser;
+  executable?: BrowserExecutable;
+  // Idle pages are reused LIFO, so the warmest page goes out first
+  idlePages: PooledPage[];
+  busyPages: number;
+  openingPages: number;
+  renders: number;
+  rssBytes?: number;
+  launchedAt?: number;
+  restarts: number;
+  lastRestartReason?: string;
+  drainTimer?: ReturnType<typeof setTimeout>;
+  relaunchTimer?: ReturnType<typeof setTimeout>;
+}
+
+// Launch flags unless PUPPETEER_ARGS replaces them
+const DEFAULT_BROWSER_ARGS: string[] = [
+  '--disable-setuid-sandbox',
+  '--disable-javascript',
+  '--disable-dev-shm-usage',
+  '--disable-gpu',
+  '--disable-features=VizDisplayCompositor',
+  '--disable-features=TranslateUI',
+  '--disable-background-timer-throttling',
+  '--disable-backgrounding-occluded-windows',
+  '--disable-accelerated-2d-canvas',
+  '--disable-renderer-backgrounding',
+  '--disable-extensions',
+  '--disable-plugins',
+  '--disable-default-apps',
+  '--disable-background-networking',
+  '--disable-sync',
+  '--disable-translate',
+  '--hide-scrollbars',
+  '--mute-audio',
+  '--no-first-run',
+  '--disable-ipc-flooding-protection',
+  // Memory optimizations
+  '--memory-pressure-off'
+];
+
+// PUPPETEER_HEADLESS: 'true' is Chrome's new headless mode, 'shell' the old headless shell
+const HEADLESS_MODES: Record<string, boolean | 'shell'> = {
+  true: true,
+  shell: 'shell',
+  false: false
+};
+
+// A browser that failed to launch is tried again after this long
+const BROWSER_RELAUNCH_DELAY = 5000;
+
+// A hung renderer must not hold up the render that asked for the page
+const PAGE_CREATION_TIMEOUT = 5000;
 
 export class BrowserService {
 
-  public browser?: Browser;
-  private chromePath: string | undefined;
+  private instances: BrowserInstance[] = Array.from(
+    { length: Math.max(1, config.printing.puppeteerBrowsers) },
+    (_, i: number): BrowserInstance => ({ id: i + 1, state: 'starting', idlePages: [], busyPages: 0, openingPages: 0, renders: 0, restarts: 0 })
+  );
+  private busyPages: Map<Page, { pooled: PooledPage; instance: BrowserInstance; }> = new Map();
+  private pageWaiters: PageWaiter[] = [];
+  private poolCounters = { created: 0, recycled: 0, acquired: 0, acquireTimeouts: 0 };
+  private browserCounters = { launches: 0, crashes: 0, recycled: 0 };
   private browserHealthInterval?: ReturnType<typeof setInterval>;
+  private destroyed: boolean = false;
+
+  // Page limits are for the whole pool, split evenly between the browsers
+  private readonly warmPagesPerBrowser: number = Math.ceil(config.printing.puppeteerPagePoolSize / this.instances.length);
+  private readonly maxPagesPerBrowser: number = Math.max(1, Math.ceil(config.printing.puppeteerMaxPages / this.instances.length));
 
+  // Usable once any browser is up; the others keep retrying in the background
   public async initialize(): Promise<void> {
-    await this.initializePuppeteer();
+    await Promise.allSettled(this.instances.map((instance: BrowserInstance): Promise<void> => this.launchInstance(instance)));
+
+    if (!this.instances.some((instance: BrowserInstance): boolean => instance.state === 'ready')) {
+      throw new Error('Puppeteer initialization failed: no browser could be launched');
+    }
+
     this.startBrowserHealthCheck();
   }
 
-  // Puppeteer implementation 
-  private async initializePuppeteer(): Promise<void> {
-    try {
-      const chromePaths = [
-        'C:\\Program Files\\Google\\Chrome\\Application\\chrome.exe',
-        'C:\\Program Files (x86)\\Google\\Chrome\\Application\\chrome.exe'
-      ];
-
-      for (const path of chromePaths) {
-        if (require('fs').existsSync(path)) {
-          this.chromePath = path;
-          break;
+  // False only when every browser is down; a browser that is restarting or draining
+  // still counts, pages are handed out again as soon as one is ready
+  public isAvailable(): boolean {
+    return this.instances.some((instance: BrowserInstance): boolean => instance.state !== 'failed');
+  }
+
+  // A reset page from the least busy browser; waits up to PUPPETEER_PAGE_ACQUIRE_TIMEOUT when all pages are busy
+  public async acquirePage(): Promise<Page> {
+    const instance: BrowserInstance | undefined = this.pickInstance();
+
+    if (instance) {
+      while (instance.idlePages.length > 0) {
+        const pooled: PooledPage = instance.idlePages.pop()!;
+        if (this.isUsable(pooled.page, instance)) {
+          return this.checkOut(pooled, instance);
         }
+        this.poolCounters.recycled++;
+        void this.closePage(pooled.page);
+      }
+
+      return this.checkOut(await this.openPage(instance), instance);
+    }
+
+    return new Promise<Page>((resolve, reject) => {
+      const waiter: PageWaiter = {
+        resolve,
+        reject,
+        timeout: setTimeout(() => {
+          this.pageWaiters = this.pageWaiters.filter((pending: PageWaiter): boolean => pending !== waiter);
+          this.poolCounters.acquireTimeouts++;
+          reject(new Error(`No browser page available within ${config.printing.puppeteerPageAcquireTimeout}ms (${this.busyPages.size} pages in use)`));
+        }, config.printing.puppeteerPageAcquireTimeout)
+      };
+      this.pageWaiters.push(waiter);
+    });
+  }
+
+  // Back to its browser's pool; a page that errored is recycled rather than reused
+  public async releasePage(page: Page, failed: boolean = false): Promise<void> {
+    const entry = this.busyPages.get(page);
+    this.busyPages.delete(page);
+
+    if (!entry) {
+      await this.closePage(page);
+      return;
+    }
+
+    const { pooled, instance } = entry;
+    instance.busyPages--;
+    pooled.uses++;
+
+    if (!failed && pooled.uses < config.printing.puppeteerPageMaxUses && instance.state === 'ready' && this.isUsable(page, instance)) {
+      try {
+        await this.resetPage(page);
+        this.checkIn(pooled, instance);
+        return;
+      } catch (error: any) {
+        logger.debug(`Page reset failed, recycling: ${error.message}`);
+      }
+    }
+
+    this.poolCounters.recycled++;
+    await this.closePage(page);
+    this.afterPageClosed(instance);
+  }
+
+  public getPagePoolStats(): PagePoolStats {
+    const idle: number = this.instances.reduce((sum: number, instance: BrowserInstance): number => sum + instance.idlePages.length, 0);
+    const opening: number = this.instances.reduce((sum: number, instance: BrowserInstance): number => sum + instance.openingPages, 0);
+
+    return {
+      total: idle + this.busyPages.size + opening,
+      idle,
+      inUse: this.busyPages.size,
+      opening,
+      waiting: this.pageWaiters.length,
+      warmSize: config.printing.puppeteerPagePoolSize,
+      maxPages: config.printing.puppeteerMaxPages,
+      maxUses: config.printing.puppeteerPageMaxUses,
+      utilization: Math.round((this.busyPages.size / config.printing.puppeteerMaxPages) * 1000) / 1000,
+      ...this.poolCounters
+    };
+  }
+
+  public getBrowserPoolStats(): BrowserPoolStats {
+    return {
+      size: this.instances.length,
+      ready: this.instances.filter((instance: BrowserInstance): boolean => instance.state === 'ready').length,
+      maxRenders: config.printing.puppeteerBrowserMaxRenders,
+      maxRssMb: Math.round(config.printing.puppeteerBrowserMaxRss / 1024 / 1024),
+      ...this.browserCounters,
+      browsers: this.instances.map((instance: BrowserInstance): BrowserInstanceStats => ({
+        id: instance.id,
+        state: instance.state,
+        connected: instance.browser?.connected ?? false,
+        pid: instance.browser?.process()?.pid,
+        version: instance.executable?.version,
+        renders: instance.renders,
+        rssMb: instance.rssBytes !== undefined ? Math.round(instance.rssBytes / 1024 / 1024) : undefined,
+        idlePages: instance.idlePages.length,
+        busyPages: instance.busyPages,
+        restarts: instance.restarts,
+        uptimeMs: instance.launchedAt !== undefined && instance.state !== 'failed' ? Date.now() - instance.launchedAt : undefined,
+        lastRestartReason: instance.lastRestartReason
+      }))
+    };
+  }
+
+  // Ready browsers with a free or openable page, least busy first
+  private pickInstance(): BrowserInstance | undefined {
+    return this.instances
+      .filter((instance: BrowserInstance): boolean =>
+        instance.state === 'ready' &&
+        (instance.idlePages.length > 0 || this.getInstancePages(instance) < this.maxPagesPerBrowser))
+      .sort((a: BrowserInstance, b: BrowserInstance): number => a.busyPages - b.busyPages)[0];
+  }
+
+  private getInstancePages(instance: BrowserInstance): number {
+    return instance.idlePages.length + instance.busyPages + instance.openingPages;
+  }
+
+  private isUsable(page: Page, instance: BrowserInstance): boolean {
+    return !page.isClosed() && page.browser() === instance.browser && instance.browser.connected;
+  }
+
+  private checkOut(pooled: PooledPage, instance: BrowserInstance): Page {
+    this.busyPages.set(pooled.page, { pooled, instance });
+    instance.busyPages++;
+    instance.renders++;
+    this.poolCounters.acquired++;
+
+    const maxRenders: number = config.printing.puppeteerBrowserMaxRenders;
+    if (maxRenders > 0 && instance.renders >= maxRenders) {
+      this.drainInstance(instance, `${instance.renders} renders`);
+    }
+
+    return pooled.page;
+  }
+
+  // Hands the page to the longest waiting caller, or parks it as idle
+  private checkIn(pooled: PooledPage, instance: BrowserInstance): void {
+    // The browser started draining or was replaced while the page was being reset
+    if (instance.state !== 'ready' || !this.isUsable(pooled.page, instance)) {
+      void this.closePage(pooled.page).then((): void => this.afterPageClosed(instance));
+      return;
+    }
+
+    const waiter: PageWaiter | undefined = this.pageWaiters.shift();
+    if (waiter) {
+      clearTimeout(waiter.timeout);
+      waiter.resolve(this.checkOut(pooled, instance));
+      return;
+    }
+    instance.idlePages.push(pooled);
+  }
+
+  private async openPage(instance: BrowserInstance): Promise<PooledPage> {
+    if (!instance.browser?.connected) {
+      throw new Error('Browser not available');
+    }
+
+    instance.openingPages++;
+    const pagePromise: Promise<Page> = instance.browser.newPage();
+    let pageTimer: ReturnType<typeof setTimeout> | undefined;
+
+    try {
+      const page: Page = await Promise.race([
+        pagePromise,
+        new Promise<never>((_, reject) => {
+          pageTimer = setTimeout(() => reject(new Error('Page creation timeout')), PAGE_CREATION_TIMEOUT);
+        })
+      ]);
+      this.poolCounters.created++;
+      return { page, uses: 0 };
+    } catch (error) {
+      // A page that still opens after the timeout would never be pooled or closed
+      pagePromise.then((page: Page): Promise<void> => this.closePage(page)).catch((): void => undefined);
+      throw error;
+    } finally {
+      clearTimeout(pageTimer);
+      instance.openingPages--;
+    }
+  }
+
+  // Clears what a label left behind: listeners, request interception, print media emulation and the document
+  private async resetPage(page: Page): Promise<void> {
+    page.removeAllListeners();
+    await page.setRequestInterception(false);
+    await page.emulateMediaType();
+    await page.goto('about:blank', { timeout: 3000 });
+  }
+
+  private async closePage(page: Page): Promise<void> {
+    try {
+      if (!page.isClosed()) {
+        await Promise.race([
+          page.close(),
+          new Promise<never>((_, reject) => setTimeout(() => reject(new Error('Page close timeout')), 3000))
+        ]);
       }
+    } catch (error: any) {
+      logger.warn('Error closing page:', error.message);
+    }
+  }
 
-      if (!this.chromePath) {
-        throw new Error('Chrome not found in system directories');
+  // A draining browser restarts once its last page is back; a ready one is topped up
+  private afterPageClosed(instance: BrowserInstance): void {
+    if (instance.state === 'draining') {
+      if (instance.busyPages === 0) {
+        void this.restartInstance(instance);
       }
+      return;
+    }
 
-      this.browser = await puppeteer.launch({
-        executablePath: this.chromePath,
-        headless: true,
-        args: [
-          '--headless=new',
-          '--disable-setuid-sandbox',
-          '--disable-javascript',
-          '--disable-dev-shm-usage',
-          '--disable-web-security',
-          '--disable-gpu',
-          '--disable-features=VizDisplayCompositor',
-          '--disable-features=TranslateUI',
-          '--disable-background-timer-throttling',
-          '--disable-backgrounding-occluded-windows',
-          '--disable-accelerated-2d-canvas',
-          '--disable-renderer-backgrounding',
-          '--disable-extensions',
-          '--disable-plugins',
-          '--disable-default-apps',
-          '--disable-background-networking',
-          '--disable-sync',
-          '--disable-translate',
-          '--hide-scrollbars',
-          '--mute-audio',
-          '--no-first-run',
-          '--disable-ipc-flooding-protection',
-          // Memory optimizations
-          '--memory-pressure-off',
-        ],
-        timeout: 10000,
-        protocolTimeout: 120000, // 2 minutes protocol timeout
-        defaultViewport: {
-          width: 980,
-          height: 600, // Standard size, not too small
-          deviceScaleFactor: 1
+    if (instance.state === 'ready') {
+      this.replenishPages(instance);
+    }
+  }
+
+  // Opens pages up to this browser's share of PUPPETEER_PAGE_POOL_SIZE, PUPPETEER_BATCH_SIZE at a time
+  private async warmPages(instance: BrowserInstance): Promise<void> {
+    const target: number = Math.min(this.warmPagesPerBrowser, this.maxPagesPerBrowser);
+
+    while (this.getInstancePages(instance) < target && instance.state === 'ready' && instance.browser?.connected) {
+      const batch: number = Math.min(config.printing.puppeteerBatchSize, target - this.getInstancePages(instance));
+      const results = await Promise.allSettled(Array.from({ length: batch }, () => this.openPage(instance)));
+
+      results.forEach((result: PromiseSettledResult<PooledPage>): void => {
+        if (result.status === 'fulfilled') {
+          this.checkIn(result.value, instance);
         }
       });
 
-      logger.info('Puppeteer browser initialized');
-    } catch (error: any) {
-      logger.error('Failed to initialize Puppeteer:', error);
-      throw new Error('Puppeteer initialization failed');
+      const failure = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+      if (failure) {
+        logger.warn(`Browser ${instance.id} page warm-up stopped: ${failure.reason?.message ?? failure.reason}`);
+        return;
+      }
     }
+
+    logger.debug(`Browser ${instance.id} pages warm: ${instance.idlePages.length} idle, ${instance.busyPages} in use`);
   }
 
-  // browser health check
-  private startBrowserHealthCheck(): void {
-    this.browserHealthInterval = setInterval(async () => {
-      if (!this.browser?.connected) {
-        logger.warn('Browser disconnected, marking for reinitialization');
-        this.browser = undefined; // Let next print job reinitialize
+  // After a page is closed: serve waiting callers first, otherwise restore the warm pages
+  private replenishPages(instance: BrowserInstance): void {
+    if (this.pageWaiters.length > 0) {
+      this.serveWaiters(instance);
+      return;
+    }
+
+    this.warmPages(instance).catch((error: any): void => {
+      logger.warn(`Browser ${instance.id} page warm-up failed: ${error.message}`);
+    });
+  }
+
+  // Opens a page for each waiting caller not already covered by a page being opened,
+  // up to this browser's page limit. Needed when there are no warm pages to hand over,
+  // e.g. with PUPPETEER_PAGE_POOL_SIZE=0 or right after a restart.
+  private serveWaiters(instance: BrowserInstance): void {
+    const count: number = Math.min(
+      this.pageWaiters.length - instance.openingPages,
+      this.maxPagesPerBrowser - this.getInstancePages(instance)
+    );
+
+    for (let i = 0; i < count; i++) {
+      this.openPage(instance)
+        .then((pooled: PooledPage): void => this.checkIn(pooled, instance))
+        .catch((error: any): void => {
+          logger.warn(`Browser ${instance.id} failed to open a page for a waiting render: ${error.message}`);
+        });
+    }
+  }
+
+  private async launchBrowser(): Promise<{ browser: Browser; executable: BrowserExecutable; }> {
+    const executable: ChromeExecutable = resolveChromeExecutable();
+    const args: string[] = [
+      ...(config.printing.puppeteerArgs.length > 0 ? config.printing.puppeteerArgs : DEFAULT_BROWSER_ARGS),
+      ...config.printing.puppeteerExtraArgs
+    ];
+
+    const browser: Browser = await puppeteer.launch({
+      executablePath: executable.path,
+      headless: HEADLESS_MODES[config.printing.puppeteerHeadless] ?? true,
+      args,
+      timeout: 10000,
+      protocolTimeout: 120000, // 2 minutes protocol timeout
+      defaultViewport: {
+        width: 980,
+        height: 600, // Standard size, not too small
+        deviceScaleFactor: 1
       }
-    }, 60000);
+    });
+
+    return { browser, executable: { ...executable, version: await browser.version() } };
   }
 
-  // Conservative browser reinitialization
-  public async reinitializeBrowser(): Promise<void> {
-    logger.info('🔄 Reinitializing browser...');
+  // Starts the browser and warms its pages; a failed launch is retried in the background
+  private async launchInstance(instance: BrowserInstance): Promise<void> {
+    instance.relaunchTimer = undefined;
 
     try {
-      // Close old browser with timeout
-      if (this.browser) {
-        try {
-          const closePromise = this.browser.close();
-          await Promise.race([
-            closePromise,
-            new Promise((_, reject) => setTimeout(() => reject(new Error('Browser close timeout')), 10000))
-          ]);
-          logger.debug('Old browser closed successfully');
-        } catch (error: any) {
-          logger.warn('Error/timeout closing old browser:', error.message);
-          // Continue anyway
-        }
+      const { browser, executable } = await this.launchBrowser();
+      this.browserCounters.launches++;
+
+      if (this.destroyed) {
+        await browser.close();
+        return;
       }
 
-      // Wait for cleanup
-      await new Promise(resolve => setTimeout(resolve, 3000));
+      instance.browser = browser;
+      instance.executable = executable;
+      instance.renders = 0;
+      instance.rssBytes = undefined;
+      instance.launchedAt = Date.now();
+      instance.state = 'ready';
+
+      browser.on('disconnected', (): void => this.handleDisconnect(instance, browser));
 
-      // Reinitialize browser
-      await this.initializePuppeteer();
+      logger.info(`Browser ${instance.id} ready: ${executable.version} (${executable.source}, ${executable.path})`);
 
-      logger.info('✅ Browser reinitialized successfully');
+      // Renders that queued while no browser was ready are served before the warm-up
+      this.serveWaiters(instance);
+      await this.warmPages(instance);
     } catch (error: any) {
-      logger.error('❌ Failed to reinitialize browser:', error);
+      instance.state = 'failed';
+      logger.error(`Failed to launch browser ${instance.id}: ${error.message}`);
+
+      if (!this.destroyed) {
+        instance.relaunchTimer = setTimeout((): void => {
+          void this.restartInstance(instance, 'relaunch after failed start');
+        }, BROWSER_RELAUNCH_DELAY);
+      }
       throw error;
     }
   }
 
-  public getBrowserStatus(): { available: boolean, error?: string, stats?: any; } {
-    try {
-      if (!this.browser) {
-        return { available: false, error: 'Browser not initialized' };
+  // Only the crashed browser is replaced; the rest of the pool keeps rendering meanwhile
+  private handleDisconnect(instance: BrowserInstance, browser: Browser): void {
+    if (instance.browser !== browser || this.destroyed) return; // closed on purpose
+
+    this.browserCounters.crashes++;
+    logger.warn(`Browser ${instance.id} disconnected, replacing it`);
+    void this.restartInstance(instance, 'crash');
+  }
+
+  // Stops taking labels; the restart happens when in-flight labels finish or the drain times out
+  private drainInstance(instance: BrowserInstance, reason: string): void {
+    if (instance.state !== 'ready') return;
+
+    // One restart at a time, unless this is the only browser
+    const othersReady: boolean = this.instances.some((other: BrowserInstance): boolean => other !== instance && other.state === 'ready');
+    const othersRestarting: boolean = this.instances.some((other: BrowserInstance): boolean =>
+      other !== instance && (other.state === 'draining' || other.state === 'restarting' || other.state === 'starting'));
+    if (this.instances.length > 1 && (!othersReady || othersRestarting)) return;
+
+    instance.state = 'draining';
+    instance.lastRestartReason = reason;
+    this.browserCounters.recycled++;
+    logger.info(`Browser ${instance.id} draining for restart (${reason}), ${instance.busyPages} labels in flight`);
+
+    instance.idlePages.forEach((pooled: PooledPage): void => {
+      void this.closePage(pooled.page);
+    });
+    instance.idlePages = [];
+
+    if (instance.busyPages === 0) {
+      void this.restartInstance(instance);
+      return;
+    }
+
+    instance.drainTimer = setTimeout((): void => {
+      logger.warn(`Browser ${instance.id} still had ${instance.busyPages} labels in flight after ${config.printing.puppeteerBrowserDrainTimeout}ms, restarting anyway`);
+      void this.restartInstance(instance);
+    }, config.printing.puppeteerBrowserDrainTimeout);
+  }
+
+  private async restartInstance(instance: BrowserInstance, reason?: string): Promise<void> {
+    if (this.destroyed || instance.state === 'restarting' || instance.state === 'starting') return;
+
+    clearTimeout(instance.drainTimer);
+    clearTimeout(instance.relaunchTimer);
+    instance.state = 'restarting';
+    instance.restarts++;
+    if (reason) instance.lastRestartReason = reason;
+
+    // Idle pages die with the old browser; busy ones are closed when they are released
+    const oldBrowser: Browser | undefined = instance.browser;
+    instance.browser = undefined;
+    instance.idlePages = [];
+
+    if (oldBrowser) {
+      try {
+        await Promise.race([
+          oldBrowser.close(),
+          new Promise((_, reject) => setTimeout(() => reject(new Error('Browser close timeout')), 10000))
+        ]);
+      } catch (error: any) {
+        logger.warn(`Error/timeout closing browser ${instance.id}:`, error.message);
+        oldBrowser.process()?.kill('SIGKILL');
       }
+    }
+
+    logger.info(`🔄 Restarting browser ${instance.id} (${instance.lastRestartReason ?? 'restart'})`);
+    await this.launchInstance(instance).catch((): void => undefined);
+  }
+
+  // Crash detection backstop and the memory limit
+  private startBrowserHealthCheck(): void {
+    this.browserHealthInterval = setInterval(async () => {
+      this.instances
+        .filter((instance: BrowserInstance): boolean => instance.state === 'ready' && !instance.browser?.connected)
+        .forEach((instance: BrowserInstance): void => {
+          void this.restartInstance(instance, 'disconnected');
+        });
 
-      if (!this.browser.connected) {
-        return { available: false, error: 'Browser disconnected' };
+      await this.checkMemory();
+
+      // Browsers that reached the render limit while another one was restarting
+      const maxRenders: number = config.printing.puppeteerBrowserMaxRenders;
+      this.instances
+        .filter((instance: BrowserInstance): boolean => maxRenders > 0 && instance.renders >= maxRenders)
+        .forEach((instance: BrowserInstance): void => this.drainInstance(instance, `${instance.renders} renders`));
+    }, config.printing.puppeteerBrowserHealthInterval);
+  }
+
+  private async checkMemory(): Promise<void> {
+    const pids: Map<number, BrowserInstance> = new Map();
+    this.instances.forEach((instance: BrowserInstance): void => {
+      const pid: number | undefined = instance.browser?.process()?.pid;
+      if (pid !== undefined && instance.state === 'ready') {
+        pids.set(pid, instance);
+      }
+    });
+    if (pids.size === 0) return;
+
+    try {
+      const memory: Map<number, number> = await getProcessTreeMemory(Array.from(pids.keys()));
+
+      memory.forEach((rssBytes: number, pid: number): void => {
+        const instance: BrowserInstance = pids.get(pid)!;
+        instance.rssBytes = rssBytes;
+
+        const maxRss: number = config.printing.puppeteerBrowserMaxRss;
+        if (maxRss > 0 && rssBytes > maxRss) {
+          this.drainInstance(instance, `${Math.round(rssBytes / 1024 / 1024)} MB resident`);
+        }
+      });
+    } catch (error: any) {
+      logger.debug(`Browser memory check failed: ${error.message}`);
+    }
+  }
+
+  // Relaunches browsers that are down; other pool members are left alone
+  public async reinitializeBrowser(): Promise<void> {
+    const failed: BrowserInstance[] = this.instances.filter((instance: BrowserInstance): boolean => instance.state === 'failed');
+    await Promise.all(failed.map((instance: BrowserInstance): Promise<void> => this.restartInstance(instance, 'manual')));
+
+    if (!this.isAvailable()) {
+      throw new Error('No browser could be relaunched');
+    }
+  }
+
+  public getBrowserStatus(): { available: boolean, error?: string, stats?: any; } {
+    try {
+      if (!this.isAvailable()) {
+        return { available: false, error: 'No browser running' };
       }
 
       return {
         available: true,
         stats: {
           mode: 'parallel-processing',
-          browserConnected: this.browser.connected
+          browserConnected: this.instances.some((instance: BrowserInstance): boolean => instance.browser?.connected ?? false),
+          executable: this.getExecutable(),
+          browserPool: this.getBrowserPoolStats(),
+          pagePool: this.getPagePoolStats()
         }
       };
     } catch (error: any) {
@@ -144,20 +636,43 @@ export class BrowserService {
 
   public getPerformanceStats(): any {
     return {
-      browserConnected: this.browser?.connected || false,
+      available: this.isAvailable(),
+      browserConnected: this.instances.some((instance: BrowserInstance): boolean => instance.browser?.connected ?? false),
+      executable: this.getExecutable(),
+      headless: config.printing.puppeteerHeadless,
+      browserPool: this.getBrowserPoolStats(),
+      pagePool: this.getPagePoolStats(),
       memoryUsage: process.memoryUsage(),
     };
   }
 
+  private getExecutable(): BrowserExecutable | undefined {
+    return this.instances.find((instance: BrowserInstance): boolean => instance.executable !== undefined)?.executable;
+  }
+
   public destroy(): void {
+    this.destroyed = true;
+
     if (this.browserHealthInterval) {
       clearInterval(this.browserHealthInterval);
     }
 
-    if (this.browser) {
-      this.browser.close().catch(error => {
-        logger.error('Error closing Puppeteer browser:', error);
+    this.pageWaiters.forEach((waiter: PageWaiter): void => {
+      clearTimeout(waiter.timeout);
+      waiter.reject(new Error('Browser service shutting down'));
+    });
+    this.pageWaiters = [];
+
+    this.instances.forEach((instance: BrowserInstance): void => {
+      clearTimeout(instance.drainTimer);
+      clearTimeout(instance.relaunchTimer);
+      instance.idlePages = [];
+
+      const browser: Browser | undefined = instance.browser;
+      instance.browser = undefined;
+      browser?.close().catch(error => {
+        logger.error(`Error closing Puppeteer browser ${instance.id}:`, error);
       });
-    }
+    });
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,209 @@
+import cluster, { type Worker } from 'cluster';
+import { createLocalClient, createWorkerClient, PrintServiceClient, registerClusterHandlers, runWithDeadline } from './ClusterBridge';
+import { PrintService } from './PrintService';
+import { config } from '../config';
+import { PrintError, StatusError } from '../utils/errors';
+
+jest.mock('../utils/logger', () => ({
+  __esModule: true,
+  default: { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() }
+}));
+
+const fakeService = (overrides: Record<string, jest.Mock> = {}): PrintService => ({
+  getJobStatus: jest.fn((jobId: string) => ({ id: jobId, status: 'queued' })),
+  getMetrics: jest.fn(async () => ({ totalJobs: 3 })),
+  subscribeEvents: jest.fn(() => jest.fn()),
+  ...overrides
+}) as unknown as PrintService;
+
+const flush = (): Promise<void> => new Promise((resolve) => setImmediate(resolve));
+
+describe('createLocalClient', () => {
+  it('wraps the in-process service in promises', async () => {
+    const service: PrintService = fakeService();
+    const client: PrintServiceClient = createLocalClient(service);
+
+    await expect(client.getJobStatus('job-1')).resolves.toEqual({ id: 'job-1', status: 'queued' });
+    await expect(client.getMetrics()).resolves.toEqual({ totalJobs: 3 });
+    await expect(client.getClusterStatus()).resolves.toEqual({ mode: 'standalone', primaryPid: process.pid, workers: [] });
+  });
+});
+
+describe('registerClusterHandlers', () => {
+  const worker = (id: number): Worker & { send: jest.Mock } => ({
+    id,
+    process: { pid: 1000 + id },
+    isConnected: () => true,
+    send: jest.fn()
+  }) as unknown as Worker & { send: jest.Mock };
+
+  afterEach(() => {
+    cluster.removeAllListeners('message');
+    cluster.removeAllListeners('exit');
+  });
+
+  it('answers worker calls against the primary service', async () => {
+    const service: PrintService = fakeService();
+    registerClusterHandlers(service);
+    const w = worker(1);
+
+    cluster.emit('message', w, { type: 'print:rpc', id: 'r1', method: 'getJobStatus', args: ['job-1'] });
+    await flush();
+
+    expect(service.getJobStatus).toHaveBeenCalledWith('job-1');
+    expect(w.send).toHaveBeenCalledWith({ type: 'print:rpc-result', id: 'r1', result: { id: 'job-1', status: 'queued' } });
+  });
+
+  it('refuses methods outside the remote list', async () => {
+    registerClusterHandlers(fakeService({ shutdown: jest.fn() }));
+    const w = worker(1);
+
+    cluster.emit('message', w, { type: 'print:rpc', id: 'r2', method: 'shutdown', args: [] });
+    await flush();
+
+    expect(w.send).toHaveBeenCalledWith({
+      type: 'print:rpc-result',
+      id: 'r2',
+      error: { message: 'Unknown print service method: shutdown', name: 'Error' }
+    });
+  });
+
+  it('passes service errors back to the worker', async () => {
+    registerClusterHandlers(fakeService({ getMetrics: jest.fn(async () => { throw new Error('Queue is full'); }) }));
+    const w = worker(2);
+
+    cluster.emit('message', w, { type: 'print:rpc', id: 'r3', method: 'getMetrics', args: [] });
+    await flush();
+
+    expect(w.send).toHaveBeenCalledWith({ type: 'print:rpc-result', id: 'r3', error: { message: 'Queue is full', name: 'Error' } });
+  });
+
+  it('keeps the category and status code of service errors', async () => {
+    const unavailable = new StatusError('Printer paused', 409);
+    registerClusterHandlers(fakeService({
+      getJobStatus: jest.fn(() => { throw new PrintError('Invalid ZPL', 'invalid_content'); }),
+      getMetrics: jest.fn(async () => { throw unavailable; })
+    }));
+    const w = worker(2);
+
+    cluster.emit('message', w, { type: 'print:rpc', id: 'r6', method: 'getJobStatus', args: ['job-1'] });
+    cluster.emit('message', w, { type: 'print:rpc', id: 'r7', method: 'getMetrics', args: [] });
+    await flush();
+
+    expect(w.send).toHaveBeenCalledWith({
+      type: 'print:rpc-result',
+      id: 'r6',
+      error: { message: 'Invalid ZPL', name: 'PrintError', category: 'invalid_content' }
+    });
+    expect(w.send).toHaveBeenCalledWith({
+      type: 'print:rpc-result',
+      id: 'r7',
+      error: { message: 'Printer paused', name: 'StatusError', statusCode: 409 }
+    });
+  });
+
+  it('reports the cluster status from the primary', async () => {
+    registerClusterHandlers(fakeService());
+    const w = worker(3);
+
+    cluster.emit('message', w, { type: 'print:rpc', id: 'r5', method: 'getClusterStatus', args: [] });
+    await flush();
+
+    expect(w.send).toHaveBeenCalledWith({
+      type: 'print:rpc-result',
+      id: 'r5',
+      result: { mode: 'cluster', primaryPid: process.pid, workers: [] }
+    });
+  });
+});
+
+describe('createWorkerClient', () => {
+  const originalSend = process.send;
+  let listeners: Function[];
+  let send: jest.Mock;
+
+  beforeEach(() => {
+    listeners = process.listeners('message');
+    send = jest.fn();
+    process.send = send as unknown as typeof process.send;
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    process.send = originalSend;
+    process.listeners('message')
+      .filter((listener: Function) => !listeners.includes(listener))
+      .forEach((listener: Function) => process.removeListener('message', listener as (...args: any[]) => void));
+  });
+
+  const reply = (message: object): void => {
+    process.emit('message' as any, message as any);
+  };
+
+  it('forwards calls to the primary and resolves with its answer', async () => {
+    const client: PrintServiceClient = createWorkerClient();
+
+    const status = client.getJobStatus('job-1');
+    expect(send).toHaveBeenCalledWith({ type: 'print:rpc', id: expect.any(String), method: 'getJobStatus', args: ['job-1'] });
+
+    reply({ type: 'print:rpc-result', id: send.mock.calls[0][0].id, result: { id: 'job-1', status: 'completed' } });
+    await expect(status).resolves.toEqual({ id: 'job-1', status: 'completed' });
+  });
+
+  it('rejects with the error reported by the primary', async () => {
+    const client: PrintServiceClient = createWorkerClient();
+
+    const metrics = client.getMetrics();
+    reply({ type: 'print:rpc-result', id: send.mock.calls[0][0].id, error: { message: 'Queue is full', name: 'Error' } });
+
+    await expect(metrics).rejects.toThrow('Queue is full');
+  });
+
+  it('rebuilds print errors and status codes from the primary', async () => {
+    const client: PrintServiceClient = createWorkerClient();
+
+    const status = client.getJobStatus('job-1');
+    const metrics = client.getMetrics();
+    reply({ type: 'print:rpc-result', id: send.mock.calls[0][0].id, error: { message: 'Invalid ZPL', name: 'PrintError', category: 'invalid_content' } });
+    reply({ type: 'print:rpc-result', id: send.mock.calls[1][0].id, error: { message: 'Printer paused', name: 'StatusError', statusCode: 409 } });
+
+    await expect(status).rejects.toEqual(expect.objectContaining({ message: 'Invalid ZPL', category: 'invalid_content' }));
+    await expect(status).rejects.toBeInstanceOf(PrintError);
+    await expect(metrics).rejects.toEqual(new StatusError('Printer paused', 409));
+    await expect(metrics).rejects.toBeInstanceOf(StatusError);
+  });
+
+  it('delivers events pushed by the primary to local subscribers', () => {
+    const client: PrintServiceClient = createWorkerClient();
+    const listener = jest.fn();
+    const event = { id: 1, type: 'job.queued', timestamp: 1000, printerName: 'Nursery Zebra', jobId: 'job-1' };
+
+    const unsubscribe = client.subscribeEvents(listener);
+    reply({ type: 'print:event', event });
+    unsubscribe();
+    reply({ type: 'print:event', event: { ...event, id: 2 } });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(event);
+  });
+
+  it('gives up when the primary does not answer in time', async () => {
+    jest.useFakeTimers();
+    const client: PrintServiceClient = createWorkerClient();
+
+    const metrics = client.getMetrics();
+    jest.advanceTimersByTime(config.cluster.rpcTimeout);
+
+    await expect(metrics).rejects.toThrow(`Print service call getMetrics timeout after ${config.cluster.rpcTimeout}ms`);
+  });
+
+  it('gives up at the deadline of the route that made the call', async () => {
+    jest.useFakeTimers({ now: 10_000 });
+    const client: PrintServiceClient = createWorkerClient();
+
+    const metrics = runWithDeadline(12_000, () => client.getMetrics());
+    jest.advanceTimersByTime(2000);
+
+    await expect(metrics).rejects.toEqual(new StatusError('Print service call getMetrics timeout after 2000ms', 504));
+  });
+});
@@ -0,0 +1,282 @@
+// src/services/ClusterBridge.ts - Primary-owned PrintService shared with forked workers over cluster IPC
+
+import { AsyncLocalStorage } from 'async_hooks';
+import cluster, { type Worker } from 'cluster';
+import { EventEmitter } from 'events';
+import { v4 as uuidv4 } from 'uuid';
+import { PrintService } from './PrintService';
+import { PrintEventListener } from './EventService';
+import { ClusterStatus, ClusterWorkerStatus, FailureCategory, PrintEvent } from '../types';
+import { config } from '../config';
+import logger from '../utils/logger';
+import { PrintError, StatusError } from '../utils/errors';
+
+// PrintService methods that workers are allowed to invoke on the primary
+export const REMOTE_METHODS = [
+  'submitPrintJob',
+  'recordSubmission',
+  'getSubmission',
+  'cancelSubmission',
+  'beginIdempotentRequest',
+  'completeIdempotentRequest',
+  'abandonIdempotentRequest',
+  'getEventsSince',
+  'createWebhook',
+  'listWebhooks',
+  'deleteWebhook',
+  'listWebhookDeliveries',
+  'getWebhookDelivery',
+  'createTemplate',
+  'updateTemplate',
+  'getTemplate',
+  'listTemplates',
+  'deleteTemplate',
+  'saveAsset',
+  'getAsset',
+  'listAssets',
+  'deleteAsset',
+  'getJobStatus',
+  'listJobs',
+  'cancelJob',
+  'updateJobPriority',
+  'moveJob',
+  'listDeadLetters',
+  'getDeadLetter',
+  'discardDeadLetter',
+  'replayDeadLetter',
+  'replayDeadLetters',
+  'getMetrics',
+  'getPrinterStatus',
+  'getBrowserStatus',
+  'getPerformanceStats',
+  'getPerformanceReport',
+  'testPrint',
+  'previewLabel',
+  'resetZebraMediaValues'
+] as const;
+
+export type RemoteMethod = typeof REMOTE_METHODS[number];
+
+// Async view of PrintService used by the routes, whether the service lives in this
+// process (standalone) or in the cluster primary (workers)
+export type PrintServiceClient = {
+  [K in RemoteMethod]: (...args: Parameters<PrintService[K]>) => Promise<Awaited<ReturnType<PrintService[K]>>>;
+} & {
+  getClusterStatus(): Promise<ClusterStatus>;
+  // Live job and printer events; returns the unsubscribe function
+  subscribeEvents(listener: PrintEventListener): () => void;
+};
+
+interface RpcRequest {
+  type: 'print:rpc';
+  id: string;
+  method: RemoteMethod | 'getClusterStatus';
+  args: any[];
+}
+
+// Enough of a thrown error for the worker to rebuild it and pick the same HTTP status
+interface RpcError {
+  message: string;
+  name: string;
+  category?: FailureCategory; // set for PrintError
+  statusCode?: number; // set for StatusError
+}
+
+interface RpcResponse {
+  type: 'print:rpc-result';
+  id: string;
+  result?: any;
+  error?: RpcError;
+}
+
+// Pushed from the primary to every worker as events are published
+interface EventMessage {
+  type: 'print:event';
+  event: PrintEvent;
+}
+
+const isRpcRequest = (message: any): message is RpcRequest =>
+  message?.type === 'print:rpc' && typeof message.id === 'string';
+
+const isRpcResponse = (message: any): message is RpcResponse =>
+  message?.type === 'print:rpc-result' && typeof message.id === 'string';
+
+const isEventMessage = (message: any): message is EventMessage =>
+  message?.type === 'print:event' && message.event !== undefined;
+
+const serializeError = (error: any): RpcError => ({
+  message: error?.message ?? String(error),
+  name: error?.name ?? 'Error',
+  category: error instanceof PrintError ? error.category : undefined,
+  statusCode: error instanceof StatusError ? error.statusCode : undefined
+});
+
+const deserializeError = (serialized: RpcError): Error => {
+  let error: Error;
+  if (serialized.category !== undefined) {
+    error = new PrintError(serialized.message, serialized.category);
+  } else if (serialized.statusCode !== undefined) {
+    error = new StatusError(serialized.message, serialized.statusCode);
+  } else {
+    error = new Error(serialized.message);
+  }
+
+  error.name = serialized.name;
+  return error;
+};
+
+// Epoch ms by which the route being handled must answer; worker calls made while
+// handling it give up at the same moment instead of after a fixed RPC timeout
+const callerDeadline: AsyncLocalStorage<number> = new AsyncLocalStorage();
+
+export const runWithDeadline = <T>(deadline: number, fn: () => T): T => callerDeadline.run(deadline, fn);
+
+// Primary side: answer worker requests against the single PrintService instance
+export const registerClusterHandlers = (service: PrintService): void => {
+  const workerRequests: Map<number, number> = new Map();
+
+  const getClusterStatus = (): ClusterStatus => {
+    const workers: ClusterWorkerStatus[] = Object.values(cluster.workers ?? {})
+      .filter((worker?: Worker): worker is Worker => worker !== undefined)
+      .map((worker: Worker): ClusterWorkerStatus => ({
+        id: worker.id,
+        pid: worker.process.pid,
+        requests: workerRequests.get(worker.id) ?? 0
+      }));
+
+    return { mode: 'cluster', primaryPid: process.pid, workers };
+  };
+
+  cluster.on('message', async (worker: Worker, message: any): Promise<void> => {
+    if (!isRpcRequest(message)) return;
+
+    workerRequests.set(worker.id, (workerRequests.get(worker.id) ?? 0) + 1);
+
+    const response: RpcResponse = { type: 'print:rpc-result', id: message.id };
+
+    try {
+      if (message.method === 'getClusterStatus') {
+        response.result = getClusterStatus();
+      } else if ((REMOTE_METHODS as readonly string[]).includes(message.method)) {
+        const method = service[message.method] as (...args: any[]) => any;
+        response.result = await method.apply(service, message.args);
+      } else {
+        throw new Error(`Unknown print service method: ${message.method}`);
+      }
+    } catch (error: any) {
+      response.error = serializeError(error);
+    }
+
+    if (worker.isConnected()) {
+      worker.send(response);
+    }
+  });
+
+  cluster.on('exit', (worker: Worker): void => {
+    workerRequests.delete(worker.id);
+  });
+
+  // Workers hold the /events connections, so every event is fanned out to them
+  service.subscribeEvents((event: PrintEvent): void => {
+    const message: EventMessage = { type: 'print:event', event };
+
+    for (const worker of Object.values(cluster.workers ?? {})) {
+      if (worker?.isConnected()) {
+        worker.send(message);
+      }
+    }
+  });
+};
+
+// Standalone: wrap the in-process singleton
+export const createLocalClient = (service: PrintService): PrintServiceClient => {
+  const client: Record<string, (...args: any[]) => any> = {};
+
+  for (const method of REMOTE_METHODS) {
+    client[method] = async (...args: any[]): Promise<any> =>
+      (service[method] as (...args: any[]) => any).apply(service, args);
+  }
+
+  client.getClusterStatus = async (): Promise<ClusterStatus> => ({
+    mode: 'standalone',
+    primaryPid: process.pid,
+    workers: []
+  });
+
+  client.subscribeEvents = (listener: PrintEventListener): (() => void) => service.subscribeEvents(listener);
+
+  return client as PrintServiceClient;
+};
+
+// Worker side: forward every call to the primary and wait for its answer
+export const createWorkerClient = (): PrintServiceClient => {
+  const pending: Map<string, {
+    resolve: (value: any) => void;
+    reject: (error: Error) => void;
+    timeout: ReturnType<typeof setTimeout>;
+  }> = new Map();
+
+  const events: EventEmitter = new EventEmitter();
+  events.setMaxListeners(0);
+
+  process.on('message', (message: any): void => {
+    if (isEventMessage(message)) {
+      events.emit('event', message.event);
+      return;
+    }
+
+    if (!isRpcResponse(message)) return;
+
+    const call = pending.get(message.id);
+    if (!call) return;
+
+    clearTimeout(call.timeout);
+    pending.delete(message.id);
+
+    if (message.error !== undefined) {
+      call.reject(deserializeError(message.error));
+    } else {
+      call.resolve(message.result);
+    }
+  });
+
+  const call = (method: RpcRequest['method'], args: any[]): Promise<any> => {
+    return new Promise((resolve, reject) => {
+      if (!process.send) {
+        reject(new Error('Not running as a cluster worker'));
+        return;
+      }
+
+      const request: RpcRequest = { type: 'print:rpc', id: uuidv4(), method, args };
+      const deadline: number | undefined = callerDeadline.getStore();
+      const timeoutMs: number = deadline !== undefined ? Math.max(0, deadline - Date.now()) : config.cluster.rpcTimeout;
+
+      const timeout = setTimeout(() => {
+        pending.delete(request.id);
+        reject(new StatusError(`Print service call ${method} timeout after ${timeoutMs}ms`, 504));
+      }, timeoutMs);
+
+      pending.set(request.id, { resolve, reject, timeout });
+      process.send(request);
+    });
+  };
+
+  const client: Record<string, (...args: any[]) => any> = {};
+
+  for (const method of REMOTE_METHODS) {
+    client[method] = (...args: any[]): Promise<any> => call(method, args);
+  }
+
+  client.getClusterStatus = (): Promise<ClusterStatus> => call('getClusterStatus', []);
+
+  client.subscribeEvents = (listener: PrintEventListener): (() => void) => {
+    events.on('event', listener);
+    return (): void => {
+      events.off('event', listener);
+    };
+  };
+
+  logger.debug(`Worker ${process.pid} using primary print service over IPC`);
+
+  return client as PrintServiceClient;
+};
@@ -0,0 +1,65 @@
+import { EventService, matchesEventFilter } from './EventService';
+import { PrintEvent } from '../types';
+
+const publishJobEvent = (events: EventService, printerName: string = 'Nursery Zebra'): PrintEvent =>
+  events.publish({ type: 'job.queued', printerName, jobId: `job-${printerName}` });
+
+describe('EventService', () => {
+  it('numbers events in publish order', () => {
+    const events = new EventService(10);
+
+    expect([1, 2, 3].map(() => publishJobEvent(events).id)).toEqual([1, 2, 3]);
+  });
+
+  it('replays the buffered events after a Last-Event-ID', () => {
+    const events = new EventService(10);
+    [1, 2, 3, 4].forEach(() => publishJobEvent(events));
+
+    expect(events.getEventsSince(2).map((event: PrintEvent) => event.id)).toEqual([3, 4]);
+    expect(events.getEventsSince(4)).toEqual([]);
+  });
+
+  it('keeps only the newest events in the replay buffer', () => {
+    const events = new EventService(2);
+    [1, 2, 3, 4].forEach(() => publishJobEvent(events));
+
+    expect(events.getEventsSince(0).map((event: PrintEvent) => event.id)).toEqual([3, 4]);
+  });
+
+  it('replays the whole buffer for an id from before a restart', () => {
+    const events = new EventService(10);
+    [1, 2].forEach(() => publishJobEvent(events));
+
+    expect(events.getEventsSince(500).map((event: PrintEvent) => event.id)).toEqual([1, 2]);
+  });
+
+  it('stops delivering to a listener once it unsubscribes', () => {
+    const events = new EventService(10);
+    const listener = jest.fn();
+
+    const unsubscribe = events.subscribe(listener);
+    const first: PrintEvent = publishJobEvent(events);
+    unsubscribe();
+    publishJobEvent(events);
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(first);
+  });
+});
+
+describe('matchesEventFilter', () => {
+  const event: PrintEvent = {
+    id: 1,
+    type: 'job.completed',
+    timestamp: 1000,
+    printerName: 'Nursery Zebra',
+    jobId: 'job-1',
+    submissionId: 'sub-1'
+  };
+
+  it('matches every field that is set', () => {
+    expect(matchesEventFilter(event, {})).toBe(true);
+    expect(matchesEventFilter(event, { printerName: 'Nursery Zebra', submissionId: 'sub-1' })).toBe(true);
+    expect(matchesEventFilter(event, { printerName: 'Nursery Zebra', jobId: 'job-2' })).toBe(false);
+  });
+});
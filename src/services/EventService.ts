@@ -0,0 +1,55 @@
+// src/services/EventService.ts - Job and printer lifecycle events with a bounded replay buffer
+
+import { EventEmitter } from 'events';
+import { PrintEvent, PrintEventFilter } from '../types';
+import { config } from '../config';
+
+export type PrintEventListener = (event: PrintEvent) => void;
+
+export class EventService extends EventEmitter {
+  private buffer: PrintEvent[] = [];
+  private nextId: number = 1;
+
+  constructor(private readonly bufferSize: number = config.events.bufferSize) {
+    super();
+    // Every open /events stream in this process is a listener
+    this.setMaxListeners(0);
+  }
+
+  public publish(event: Omit<PrintEvent, 'id' | 'timestamp'>): PrintEvent {
+    const published: PrintEvent = { id: this.nextId++, timestamp: Date.now(), ...event };
+
+    this.buffer.push(published);
+    if (this.buffer.length > this.bufferSize) {
+      this.buffer.splice(0, this.buffer.length - this.bufferSize);
+    }
+
+    this.emit('event', published);
+    return published;
+  }
+
+  // Events after lastEventId that are still buffered. An id newer than anything buffered
+  // comes from before a restart, so the client gets the whole buffer instead of nothing.
+  public getEventsSince(lastEventId: number): PrintEvent[] {
+    const newest: PrintEvent | undefined = this.buffer[this.buffer.length - 1];
+    if (!newest || lastEventId > newest.id) {
+      return [...this.buffer];
+    }
+
+    return this.buffer.filter((event: PrintEvent): boolean => event.id > lastEventId);
+  }
+
+  public subscribe(listener: PrintEventListener): () => void {
+    this.on('event', listener);
+    return (): void => {
+      this.off('event', listener);
+    };
+  }
+}
+
+export const matchesEventFilter = (event: PrintEvent, filter: PrintEventFilter): boolean => {
+  if (filter.printerName && event.printerName !== filter.printerName) return false;
+  if (filter.submissionId && event.submissionId !== filter.submissionId) return false;
+  if (filter.jobId && event.jobId !== filter.jobId) return false;
+  return true;
+};
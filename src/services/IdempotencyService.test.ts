@@ -0,0 +1,92 @@
+import { IdempotencyService } from './IdempotencyService';
+import { config } from '../config';
+
+jest.mock('../utils/logger', () => ({
+  __esModule: true,
+  default: { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() }
+}));
+
+describe('IdempotencyService', () => {
+  let service: IdempotencyService;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: 1_000_000 });
+    service = new IdempotencyService();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('replays the recorded response for a repeated key and body', () => {
+    expect(service.begin('key-1', 'body-a')).toEqual({ state: 'new' });
+    service.complete('key-1', 207, { jobIds: ['a'] });
+
+    expect(service.begin('key-1', 'body-a')).toEqual({ state: 'replay', statusCode: 207, body: { jobIds: ['a'] } });
+  });
+
+  it('reports a repeat that arrives while the first request is still running', () => {
+    service.begin('key-1', 'body-a');
+
+    expect(service.begin('key-1', 'body-a')).toEqual({ state: 'in_progress' });
+  });
+
+  it('refuses a reused key with a different body', () => {
+    service.begin('key-1', 'body-a');
+    service.complete('key-1', 200, {});
+
+    expect(service.begin('key-1', 'body-b')).toEqual({ state: 'mismatch' });
+  });
+
+  it('lets a request run again once its claim was abandoned', () => {
+    service.begin('key-1', 'body-a');
+    service.abandon('key-1');
+
+    expect(service.begin('key-1', 'body-a')).toEqual({ state: 'new' });
+  });
+
+  it('does not abandon a completed response', () => {
+    service.begin('key-1', 'body-a');
+    service.complete('key-1', 200, { ok: true });
+    service.abandon('key-1');
+
+    expect(service.begin('key-1', 'body-a').state).toBe('replay');
+  });
+
+  it('treats a claim left in progress past the request timeout as new', () => {
+    service.begin('key-1', 'body-a');
+    jest.advanceTimersByTime(config.server.timeout);
+
+    expect(service.begin('key-1', 'body-b')).toEqual({ state: 'new' });
+  });
+
+  it('forgets responses after the idempotency window', () => {
+    service.begin('key-1', 'body-a');
+    service.complete('key-1', 200, {});
+
+    jest.advanceTimersByTime(config.idempotency.windowMs - 1);
+    expect(service.begin('key-1', 'body-a').state).toBe('replay');
+
+    jest.advanceTimersByTime(1);
+    expect(service.begin('key-1', 'body-a')).toEqual({ state: 'new' });
+  });
+
+  it('remembers the job a label client id was queued as within the window', () => {
+    service.rememberLabelJob('label-1', 'job-1');
+    expect(service.findLabelJob('label-1')).toBe('job-1');
+
+    jest.advanceTimersByTime(config.idempotency.windowMs);
+    expect(service.findLabelJob('label-1')).toBeUndefined();
+  });
+
+  it('drops expired entries on cleanup', () => {
+    service.begin('key-1', 'body-a');
+    service.complete('key-1', 200, {});
+    service.rememberLabelJob('label-1', 'job-1');
+    jest.advanceTimersByTime(config.idempotency.windowMs);
+    service.begin('key-2', 'body-b');
+
+    service.cleanup();
+    expect(service.getStats()).toEqual({ requests: 1, labels: 0 });
+  });
+});
@@ -0,0 +1,105 @@
+// src/services/IdempotencyService.ts - Remembers submissions so kiosk retries don't print duplicates
+
+import { IdempotencyLookup } from '../types';
+import { config } from '../config';
+import logger from '../utils/logger';
+
+interface IdempotencyEntry {
+  fingerprint: string;
+  state: 'in_progress' | 'done';
+  statusCode?: number;
+  body?: any;
+  expiresAt: number;
+}
+
+interface LabelEntry {
+  jobId: string;
+  expiresAt: number;
+}
+
+export class IdempotencyService {
+  // Idempotency-Key header -> recorded response
+  private requests: Map<string, IdempotencyEntry> = new Map();
+
+  // Per-label client id -> job it was queued as
+  private labels: Map<string, LabelEntry> = new Map();
+
+  // Claims a key for a new request, or tells the caller how to answer a repeat
+  public begin(key: string, fingerprint: string): IdempotencyLookup {
+    const now: number = Date.now();
+    const entry: IdempotencyEntry | undefined = this.requests.get(key);
+
+    if (entry && entry.expiresAt > now) {
+      if (entry.fingerprint !== fingerprint) {
+        return { state: 'mismatch' };
+      }
+      if (entry.state === 'in_progress') {
+        return { state: 'in_progress' };
+      }
+
+      logger.info(`Replaying response for Idempotency-Key ${key}`);
+      return { state: 'replay', statusCode: entry.statusCode!, body: entry.body };
+    }
+
+    // An abandoned in-progress claim expires with the request timeout
+    this.requests.set(key, {
+      fingerprint,
+      state: 'in_progress',
+      expiresAt: now + config.server.timeout
+    });
+
+    return { state: 'new' };
+  }
+
+  public complete(key: string, statusCode: number, body: any): void {
+    const entry: IdempotencyEntry | undefined = this.requests.get(key);
+    if (!entry) return;
+
+    entry.state = 'done';
+    entry.statusCode = statusCode;
+    entry.body = body;
+    entry.expiresAt = Date.now() + config.idempotency.windowMs;
+  }
+
+  // Releases a claim when the request failed before producing a response
+  public abandon(key: string): void {
+    const entry: IdempotencyEntry | undefined = this.requests.get(key);
+    if (entry?.state === 'in_progress') {
+      this.requests.delete(key);
+    }
+  }
+
+  public findLabelJob(clientId: string): string | undefined {
+    const entry: LabelEntry | undefined = this.labels.get(clientId);
+    if (!entry || entry.expiresAt <= Date.now()) {
+      return undefined;
+    }
+    return entry.jobId;
+  }
+
+  public rememberLabelJob(clientId: string, jobId: string): void {
+    this.labels.set(clientId, {
+      jobId,
+      expiresAt: Date.now() + config.idempotency.windowMs
+    });
+  }
+
+  public cleanup(): void {
+    const now: number = Date.now();
+
+    for (const [key, entry] of this.requests) {
+      if (entry.expiresAt <= now) this.requests.delete(key);
+    }
+
+    for (const [clientId, entry] of this.labels) {
+      if (entry.expiresAt <= now) this.labels.delete(clientId);
+    }
+  }
+
+  public getStats(): { requests: number; labels: number; } {
+    return {
+      requests: this.requests.size,
+      labels: this.labels.size
+    };
+  }
+}
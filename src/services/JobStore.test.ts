@@ -0,0 +1,228 @@
+import { appendFileSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FileJobStore, JournalRecord } from './JobStore';
+import { QueueService } from './QueueService';
+import { config } from '../config';
+import { HtmlPrintLabel, JobStatus, PrintJob, RawPrintLabel } from '../types';
+
+jest.mock('../utils/logger', () => ({
+  __esModule: true,
+  default: { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() }
+}));
+
+const makeJob = (id: string, status: JobStatus, printerName: string = 'Nursery Zebra'): PrintJob => ({
+  id,
+  status,
+  request: {
+    id,
+    labels: [{
+      userId: 1,
+      name: 'Test Child',
+      printerName,
+      printMedia: 'Label',
+      mpGroup: { id: 1, name: 'Kids', print: 'Label' },
+      copies: 1,
+      htmlContent: '',
+      margin: { top: '0', right: '0', bottom: '0', left: '0' },
+      width: '2in',
+      height: '1in'
+    }],
+    metadata: { priority: 'medium' },
+    timestamp: 1000,
+    retryCount: 1
+  },
+  ...(status === 'processing' ? { startTime: 2000 } : {}),
+  ...(status === 'completed' || status === 'failed' ? { endTime: 3000 } : {})
+});
+
+const readJournal = (path: string): JournalRecord[] =>
+  readFileSync(path, 'utf8').split('\n').filter(Boolean).map((line: string): JournalRecord => JSON.parse(line));
+
+describe('FileJobStore', () => {
+  let dir: string;
+  let journalPath: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'job-store-'));
+    journalPath = join(dir, 'nested', 'jobs.journal');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('reads back appended records and skips a line torn by a crash', () => {
+    const store = new FileJobStore(journalPath);
+    store.append({ type: 'job', job: makeJob('a', 'queued') });
+    store.append({ type: 'deadLetterRemoved', id: 'x' });
+    appendFileSync(journalPath, '{"type":"job","job":{"id":"b"');
+
+    expect(store.appendedSinceCompaction).toBe(2);
+    expect(store.load()).toEqual([
+      { type: 'job', job: makeJob('a', 'queued') },
+      { type: 'deadLetterRemoved', id: 'x' }
+    ]);
+  });
+
+  it('replaces the journal on compaction and resets the append count', () => {
+    const store = new FileJobStore(journalPath);
+    store.append({ type: 'job', job: makeJob('a', 'queued') });
+    store.append({ type: 'job', job: makeJob('a', 'completed') });
+
+    store.compact([{ type: 'job', job: makeJob('a', 'completed') }]);
+
+    expect(store.appendedSinceCompaction).toBe(0);
+    expect(readJournal(journalPath)).toEqual([{ type: 'job', job: makeJob('a', 'completed') }]);
+  });
+
+  describe('restore after a crash', () => {
+    const writeJournal = (records: JournalRecord[]): void => {
+      new FileJobStore(journalPath);
+      writeFileSync(journalPath, records.map((record: JournalRecord): string => JSON.stringify(record)).join('\n') + '\n');
+    };
+
+    it('requeues unfinished jobs, including ones interrupted mid-print', () => {
+      writeJournal([
+        { type: 'job', job: makeJob('queued', 'queued') },
+        { type: 'job', job: makeJob('printing', 'queued') },
+        { type: 'job', job: makeJob('printing', 'processing') },
+        { type: 'job', job: makeJob('done', 'queued') },
+        { type: 'job', job: makeJob('done', 'completed') }
+      ]);
+
+      const queue = new QueueService(new FileJobStore(journalPath));
+      expect(queue.restore()).toBe(2);
+
+      const interrupted: PrintJob | undefined = queue.getJob('printing');
+      expect(interrupted?.status).toBe('queued');
+      expect(interrupted?.startTime).toBeUndefined();
+      expect(interrupted?.request.retryCount).toBe(1);
+      expect(queue.getJob('done')?.status).toBe('completed');
+
+      expect(queue.getNextJobs(10).map((job: PrintJob): string => job.id).sort()).toEqual(['printing', 'queued']);
+    });
+
+    it('restores dead letters and submissions, minus removed dead letters', () => {
+      writeJournal([
+        { type: 'job', job: makeJob('a', 'failed') },
+        { type: 'deadLetter', entry: { id: 'a', job: makeJob('a', 'failed'), deadLetteredAt: 4000 } },
+        { type: 'deadLetter', entry: { id: 'b', job: makeJob('b', 'failed'), deadLetteredAt: 4000 } },
+        { type: 'deadLetterRemoved', id: 'b' },
+        { type: 'submission', submission: { id: 's', jobIds: ['a'], failedLabels: [], totalLabels: 1, createdAt: 1000 } }
+      ]);
+
+      const queue = new QueueService(new FileJobStore(journalPath));
+      queue.restore();
+
+      expect(queue.listDeadLetters().map((entry) => entry.id)).toEqual(['a']);
+      expect(queue.getSubmission('s')).toEqual(expect.objectContaining({ state: 'failed', failed: 1 }));
+    });
+
+    it('compacts the journal to one record per job on restore', () => {
+      writeJournal([
+        { type: 'job', job: makeJob('a', 'queued') },
+        { type: 'job', job: makeJob('a', 'processing') },
+        { type: 'job', job: makeJob('b', 'queued') },
+        { type: 'job', job: makeJob('b', 'completed') }
+      ]);
+
+      new QueueService(new FileJobStore(journalPath)).restore();
+
+      const records: JournalRecord[] = readJournal(journalPath);
+      expect(records).toHaveLength(2);
+      expect(records).toEqual(expect.arrayContaining([
+        { type: 'job', job: expect.objectContaining({ id: 'a', status: 'queued' }) },
+        { type: 'job', job: expect.objectContaining({ id: 'b', status: 'completed' }) }
+      ]));
+    });
+
+    it('survives a second restart with nothing lost', () => {
+      const threshold: number = config.persistence.compactionThreshold;
+      config.persistence.compactionThreshold = 3;
+
+      try {
+        const first = new QueueService(new FileJobStore(journalPath));
+        first.restore();
+        const ids: string[] = ['a', 'b', 'c', 'd'].map((id: string): string => first.addJob(makeJob(id, 'queued').request));
+        first.getNextJobs(1).forEach((job: PrintJob) => first.completeJob(job.id, true));
+
+        // Simulated crash: the first instance is dropped without shutting down
+        const second = new QueueService(new FileJobStore(journalPath));
+        expect(second.restore()).toBe(3);
+        expect(ids.map((id: string) => second.getJob(id)?.status).sort()).toEqual(['completed', 'queued', 'queued', 'queued']);
+      } finally {
+        config.persistence.compactionThreshold = threshold;
+      }
+    });
+  });
+
+  describe('label content retention', () => {
+    const html: string = Buffer.from('<p>Test Child - security code 4821</p>').toString('base64');
+
+    const withContent = (id: string, status: JobStatus): PrintJob => {
+      const job: PrintJob = makeJob(id, status);
+      job.request.labels = [{ ...(job.request.labels[0] as HtmlPrintLabel), htmlContent: html }];
+      return job;
+    };
+
+    const journaledLabels = (): Record<string, any> => Object.fromEntries(
+      readJournal(journalPath)
+        .filter((record: JournalRecord): record is Extract<JournalRecord, { type: 'job'; }> => record.type === 'job')
+        .map((record) => [record.job.id, record.job.request.labels[0]])
+    );
+
+    it('leaves the label content of finished jobs out of the compacted journal', () => {
+      new FileJobStore(journalPath);
+      writeFileSync(journalPath, [
+        withContent('queued', 'queued'),
+        withContent('done', 'completed'),
+        withContent('cancelled', 'cancelled'),
+        withContent('failed', 'failed')
+      ].map((job: PrintJob): string => JSON.stringify({ type: 'job', job })).join('\n') + '\n');
+
+      const queue = new QueueService(new FileJobStore(journalPath));
+      queue.restore();
+
+      expect(journaledLabels()).toEqual({
+        queued: expect.objectContaining({ htmlContent: html }),
+        done: expect.objectContaining({ htmlContent: '', name: 'Test Child' }),
+        cancelled: expect.objectContaining({ htmlContent: '' }),
+        failed: expect.objectContaining({ htmlContent: html })
+      });
+      expect((queue.getJob('queued')!.request.labels[0] as HtmlPrintLabel).htmlContent).toBe(html);
+    });
+
+    it('drops raw label content too', () => {
+      const queue = new QueueService(new FileJobStore(journalPath));
+      const job: PrintJob = makeJob('zpl', 'queued');
+      const { userId, name, printerName, printMedia, mpGroup, copies } = job.request.labels[0];
+      const zpl: RawPrintLabel = {
+        userId, name, printerName, printMedia, mpGroup, copies,
+        contentType: 'zpl',
+        content: Buffer.from('^XA^FDTest Child^FS^XZ').toString('base64')
+      };
+      job.request.labels = [zpl];
+
+      queue.addJob(job.request);
+      queue.getNextJobs(1).forEach((next: PrintJob) => queue.completeJob(next.id, true));
+      queue.cleanup();
+
+      expect(journaledLabels().zpl).toEqual(expect.objectContaining({ contentType: 'zpl', content: '' }));
+    });
+
+    it('rewrites the journal at cleanup once jobs have finished', () => {
+      const store = new FileJobStore(journalPath);
+      const queue = new QueueService(store);
+      queue.addJob(withContent('a', 'queued').request);
+      queue.getNextJobs(1).forEach((job: PrintJob) => queue.completeJob(job.id, true));
+
+      expect(readFileSync(journalPath, 'utf8')).toContain(html);
+
+      queue.cleanup();
+
+      expect(readFileSync(journalPath, 'utf8')).not.toContain(html);
+      expect(store.appendedSinceCompaction).toBe(0);
+    });
+  });
+});
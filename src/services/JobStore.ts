@@ -0,0 +1,101 @@
+// src/services/JobStore.ts - Pluggable persistence for the print job queue
+
+import { appendFileSync, existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import { PrintJob, DeadLetterEntry, Submission } from '../types';
+import { config } from '../config';
+import logger from '../utils/logger';
+
+export type JournalRecord =
+  | { type: 'job'; job: PrintJob; }
+  | { type: 'deadLetter'; entry: DeadLetterEntry; }
+  | { type: 'deadLetterRemoved'; id: string; }
+  | { type: 'submission'; submission: Submission; };
+
+export interface JobStore {
+  load(): JournalRecord[];
+  append(record: JournalRecord): void;
+  compact(records: JournalRecord[]): void;
+  readonly appendedSinceCompaction: number;
+}
+
+// No-op store used when persistence is disabled
+export class MemoryJobStore implements JobStore {
+  public readonly appendedSinceCompaction: number = 0;
+
+  public load(): JournalRecord[] {
+    return [];
+  }
+
+  public append(): void { }
+
+  public compact(): void { }
+}
+
+// Append-only JSON lines journal. Every state change is written synchronously so that
+// a crash or service restart never loses an accepted job.
+export class FileJobStore implements JobStore {
+  private appended: number = 0;
+
+  constructor(private readonly journalPath: string) {
+    const dir = dirname(journalPath);
+    if (!existsSync(dir)) {
+      mkdirSync(dir, { recursive: true });
+    }
+  }
+
+  public get appendedSinceCompaction(): number {
+    return this.appended;
+  }
+
+  public load(): JournalRecord[] {
+    if (!existsSync(this.journalPath)) {
+      return [];
+    }
+
+    const records: JournalRecord[] = [];
+    const lines = readFileSync(this.journalPath, 'utf8').split('\n');
+
+    lines.forEach((line: string, index: number): void => {
+      if (!line.trim()) return;
+
+      try {
+        records.push(JSON.parse(line));
+      } catch (error) {
+        // A torn write from a crash only ever affects the last line
+        logger.warn(`Skipping corrupt journal entry at ${this.journalPath}:${index + 1}`);
+      }
+    });
+
+    return records;
+  }
+
+  public append(record: JournalRecord): void {
+    appendFileSync(this.journalPath, JSON.stringify(record) + '\n', 'utf8');
+    this.appended++;
+  }
+
+  public compact(records: JournalRecord[]): void {
+    const tempPath = `${this.journalPath}.tmp`;
+    const content = records.map((record: JournalRecord): string => JSON.stringify(record)).join('\n');
+
+    writeFileSync(tempPath, content ? content + '\n' : '', 'utf8');
+    renameSync(tempPath, this.journalPath);
+    this.appended = 0;
+
+    logger.debug(`Job journal compacted to ${records.length} records`);
+  }
+}
+
+export const createJobStore = (): JobStore => {
+  switch (config.persistence.driver) {
+    case 'file':
+      logger.info(`Using file job journal at ${config.persistence.journalPath}`);
+      return new FileJobStore(config.persistence.journalPath);
+    case 'memory':
+      logger.warn('Job persistence disabled - queued jobs will not survive a restart');
+      return new MemoryJobStore();
+    default:
+      throw new Error(`Unknown job store driver: ${config.persistence.driver}`);
+  }
+};
@@ -1,10 +1,27 @@
 // src/services/PrintService.ts - Enhanced Singleton with improved error isolation
 
+import { v4 as uuidv4 } from 'uuid';
 import { PrinterService } from './PrinterService';
 import { QueueService } from './QueueService';
-import { PrintRequest, ServerMetrics, PrintJob, QueueStatus, PrinterStatus } from '../types';
+import { createJobStore } from './JobStore';
+import { IdempotencyService } from './IdempotencyService';
+import { EventService, PrintEventListener } from './EventService';
+import { WebhookService } from './WebhookService';
+import { TemplateService } from './TemplateService';
+import { AssetService } from './AssetService';
+import {
+  PrintRequest, PrintLabel, ServerMetrics, PrintJob, QueueStatus, PrinterStatus, PrintPriority,
+  JobActionResult, JobListQuery, JobListResult, IdempotencyLookup,
+  DeadLetterEntry, DeadLetterSummary, DeadLetterReplayResult,
+  Submission, SubmissionStatus, SubmissionCancelResult, PrintEvent, JobEventType, PrinterStatusType, LabelContentType,
+  WebhookEventType, WebhookSubscription, WebhookSubscriptionSummary, WebhookDelivery, WebhookDeliveryQuery,
+  LabelTemplate, LabelTemplateInput, LabelTemplateSummary, TemplateSaveResult, TemplatePrintLabel,
+  LabelPreview, PreviewFormat, LabelAsset, LabelAssetContent, LabelAssetInput, AssetSaveResult
+} from '../types';
 import { config } from '../config';
 import logger from '../utils/logger';
+import { PrintError, getFailureCategory } from '../utils/errors';
+import { acceptsContentType, getContentType, isRawLabel } from '../utils/contentTypes';
 
 export class PrintService {
   private static instance: PrintService;
@@ -12,8 +29,14 @@ export class PrintService {
 
   private printerService: PrinterService;
   private queueService: QueueService;
+  private idempotencyService: IdempotencyService;
+  private eventService: EventService;
+  private webhookService: WebhookService;
+  private templateService: TemplateService;
+  private assetService: AssetService;
   private processingInterval?: ReturnType<typeof setInterval>;
   private metricsInterval?: ReturnType<typeof setInterval>;
+  private cleanupInterval?: ReturnType<typeof setInterval>;
   private metrics: ServerMetrics = {
     totalJobs: 0,
     completedJobs: 0,
@@ -32,8 +55,13 @@ export class PrintService {
   };
 
   private constructor() {
-    this.printerService = new PrinterService();
-    this.queueService = new QueueService();
+    this.assetService = new AssetService(config.assets.driver === 'file' ? config.assets.dir : undefined);
+    this.printerService = new PrinterService(this.assetService);
+    this.queueService = new QueueService(createJobStore());
+    this.idempotencyService = new IdempotencyService();
+    this.eventService = new EventService();
+    this.webhookService = new WebhookService(config.webhooks.driver === 'file' ? config.webhooks.storePath : undefined);
+    this.templateService = new TemplateService(config.templates.driver === 'file' ? config.templates.storePath : undefined);
     this.setupEventListeners();
   }
 
@@ -53,8 +81,15 @@ export class PrintService {
     try {
       logger.info('Initializing PrintService singleton...');
       await this.printerService.initialize();
+
+      const restoredJobs: number = this.queueService.restore();
+      if (restoredJobs > 0) {
+        logger.info(`♻️  Replaying ${restoredJobs} unfinished jobs from previous run`);
+      }
+
       this.startProcessing();
       this.startMetricsCollection();
+      this.startCleanup();
 
       PrintService.isInitialized = true;
       logger.info('✅ PrintService singleton initialized successfully');
@@ -72,6 +107,46 @@ export class PrintService {
     this.queueService.on('jobFailed', (): void => {
       this.metrics.failedJobs++;
     });
+
+    // Republish queue transitions for /events subscribers
+    const jobEvents: [string, JobEventType][] = [
+      ['jobAdded', 'job.queued'],
+      ['jobStarted', 'job.processing'],
+      ['jobRetry', 'job.retrying'],
+      ['jobCompleted', 'job.completed'],
+      ['jobFailed', 'job.failed'],
+      ['jobCancelled', 'job.cancelled'],
+      ['jobExpired', 'job.expired']
+    ];
+
+    const webhookEvents: JobEventType[] = ['job.completed', 'job.failed', 'job.retrying'];
+
+    for (const [queueEvent, type] of jobEvents) {
+      this.queueService.on(queueEvent, (job: PrintJob): void => {
+        const summary = this.queueService.summarizeJob(job);
+
+        this.eventService.publish({
+          type,
+          printerName: job.request.labels[0].printerName,
+          jobId: job.id,
+          submissionId: job.request.submissionId,
+          job: summary
+        });
+
+        if (webhookEvents.includes(type)) {
+          this.webhookService.notify(type as WebhookEventType, job, summary);
+        }
+      });
+    }
+
+    this.printerService.on('printerStatusChanged', (printer: PrinterStatus, previousStatus: PrinterStatusType): void => {
+      this.eventService.publish({
+        type: 'printer.status',
+        printerName: printer.name,
+        printer: { ...printer },
+        previousStatus
+      });
+    });
   }
 
   private startProcessing(): void {
@@ -86,6 +161,15 @@ export class PrintService {
     }, 5000);
   }
 
+  private startCleanup(): void {
+    this.cleanupInterval = setInterval((): void => {
+      const prunedBefore: number | undefined = this.queueService.cleanup();
+      this.idempotencyService.cleanup();
+      // Rendered labels carry the same personal data as the jobs, so they leave with them
+      this.printerService.pruneRenderCache(prunedBefore);
+    }, config.monitoring.cleanupInterval);
+  }
+
   private async processJobs(): Promise<void> {
     const queueStatus: QueueStatus = this.queueService.getQueueStatus();
     const availableSlots: number = config.printing.maxConcurrentJobs - queueStatus.processing;
@@ -108,28 +192,29 @@ export class PrintService {
     } catch (error: any) {
       // Ensure one job failure doesn't affect others
       logger.error(`Job ${job.id} failed with isolated error:`, error);
-      this.queueService.completeJob(job.id, false, error.message);
+      this.queueService.completeJob(job.id, false, error.message, getFailureCategory(error));
     }
   }
 
   private async processJob(job: PrintJob): Promise<void> {
     const { request } = job;
     const startTime: number = Date.now();
+    const blockedRequests: Set<string> = new Set();
 
     try {
       const label = request.labels[0];
 
       if (!this.printerService.isOnline(label.printerName)) {
-        throw new Error(`Printer ${label.printerName} is not available`);
+        throw new PrintError(`Printer ${label.printerName} is not available`, 'printer_unavailable');
       }
 
       this.printerService.updateJobCount(label.printerName, 1);
 
       logger.debug(`🚀 Processing label: ${label.copies} copies of "${label.name}" (userId: ${label.userId}) to ${label.printerName}`);
 
-      await this.printerService.printLabel(label, request.metadata);
+      await this.printerService.printLabel(label, request.metadata, this.queueService.getAbortSignal(job.id), blockedRequests);
 
-      this.queueService.completeJob(job.id, true);
+      this.queueService.completeJob(job.id, true, undefined, undefined, Array.from(blockedRequests));
       const processingTime: number = Date.now() - startTime;
 
       this.updateProcessingTime(processingTime);
@@ -142,7 +227,7 @@ export class PrintService {
 
     } catch (error: any) {
       logger.error(`Job ${job.id} failed:`, error);
-      this.queueService.completeJob(job.id, false, error.message);
+      this.queueService.completeJob(job.id, false, error.message, getFailureCategory(error), Array.from(blockedRequests));
     } finally {
       const label = request.labels[0];
       this.printerService.updateJobCount(label.printerName, -1);
@@ -185,7 +270,7 @@ export class PrintService {
     const queueStatus: QueueStatus = this.queueService.getQueueStatus();
     this.metrics.queueLength = queueStatus.queued;
     this.metrics.totalJobs = queueStatus.queued + queueStatus.processing +
-      queueStatus.completed + queueStatus.failed;
+      queueStatus.completed + queueStatus.failed + queueStatus.cancelled + queueStatus.expired;
 
     const printers: PrinterStatus[] = this.printerService.getAllPrinters();
     this.metrics.activePrinters = printers.filter((p: PrinterStatus): boolean =>
@@ -194,19 +279,234 @@ export class PrintService {
   }
 
   public submitPrintJob(request: PrintRequest): string {
+    // A label the client already submitted within the window maps to its original job
+    const clientId: string | undefined = request.labels[0]?.clientId;
+    if (clientId) {
+      const existingJobId: string | undefined = this.idempotencyService.findLabelJob(clientId);
+      if (existingJobId && this.queueService.getJob(existingJobId)) {
+        logger.info(`🔁 Duplicate label ${clientId} ignored, already queued as job ${existingJobId}`);
+        return existingJobId;
+      }
+    }
+
+    // Template labels are rendered now, so the job keeps the exact HTML it will print
+    request = { ...request, labels: request.labels.map((label: PrintLabel): PrintLabel => this.templateService.renderLabel(label)) };
+
     this.metrics.totalJobs++;
 
     // Log submission
     const copies = request.metadata.copies || 1;
     logger.debug(`📋 Job submitted: ${copies} copies to ${request.id} (Priority: ${request.metadata.priority})`);
 
-    return this.queueService.addJob(request);
+    const jobId: string = this.queueService.addJob(request);
+    if (clientId) {
+      this.idempotencyService.rememberLabelJob(clientId, jobId);
+    }
+    return jobId;
+  }
+
+  public recordSubmission(submission: Submission): void {
+    this.queueService.addSubmission(submission);
+  }
+
+  public getSubmission(id: string): SubmissionStatus | undefined {
+    return this.queueService.getSubmission(id);
+  }
+
+  public cancelSubmission(id: string): SubmissionCancelResult | undefined {
+    return this.queueService.cancelSubmission(id);
+  }
+
+  // Local listener only; cluster workers receive events forwarded by ClusterBridge
+  public subscribeEvents(listener: PrintEventListener): () => void {
+    return this.eventService.subscribe(listener);
+  }
+
+  public getEventsSince(lastEventId: number): PrintEvent[] {
+    return this.eventService.getEventsSince(lastEventId);
+  }
+
+  public createWebhook(input: Omit<WebhookSubscription, 'id' | 'secret' | 'createdAt'> & { secret?: string; }): WebhookSubscription {
+    return this.webhookService.createSubscription(input);
+  }
+
+  public listWebhooks(): WebhookSubscriptionSummary[] {
+    return this.webhookService.listSubscriptions();
+  }
+
+  public deleteWebhook(id: string): boolean {
+    return this.webhookService.removeSubscription(id);
+  }
+
+  public listWebhookDeliveries(query: WebhookDeliveryQuery): WebhookDelivery[] {
+    return this.webhookService.listDeliveries(query);
+  }
+
+  public getWebhookDelivery(id: string): WebhookDelivery | undefined {
+    return this.webhookService.getDelivery(id);
+  }
+
+  public createTemplate(id: string, input: LabelTemplateInput): TemplateSaveResult {
+    return this.templateService.create(id, input);
+  }
+
+  public updateTemplate(id: string, input: LabelTemplateInput): TemplateSaveResult {
+    return this.templateService.update(id, input);
+  }
+
+  public getTemplate(id: string, version?: number): LabelTemplate | undefined {
+    return this.templateService.get(id, version);
+  }
+
+  public listTemplates(): LabelTemplateSummary[] {
+    return this.templateService.list();
+  }
+
+  public deleteTemplate(id: string): boolean {
+    return this.templateService.remove(id);
+  }
+
+  public saveAsset(id: string, input: LabelAssetInput): AssetSaveResult {
+    return this.assetService.save(id, input);
+  }
+
+  public getAsset(id: string): LabelAssetContent | undefined {
+    return this.assetService.get(id);
+  }
+
+  public listAssets(): LabelAsset[] {
+    return this.assetService.list();
+  }
+
+  public deleteAsset(id: string): boolean {
+    return this.assetService.remove(id);
+  }
+
+  public beginIdempotentRequest(key: string, fingerprint: string): IdempotencyLookup {
+    return this.idempotencyService.begin(key, fingerprint);
+  }
+
+  public completeIdempotentRequest(key: string, statusCode: number, body: any): void {
+    this.idempotencyService.complete(key, statusCode, body);
+  }
+
+  public abandonIdempotentRequest(key: string): void {
+    this.idempotencyService.abandon(key);
   }
 
   public getJobStatus(jobId: string): PrintJob | undefined {
     return this.queueService.getJob(jobId);
   }
 
+  public listJobs(query: JobListQuery): JobListResult {
+    return this.queueService.listJobs(query);
+  }
+
+  public cancelJob(jobId: string): JobActionResult {
+    return this.queueService.cancelJob(jobId);
+  }
+
+  public updateJobPriority(jobId: string, priority: PrintPriority): JobActionResult {
+    return this.queueService.updatePriority(jobId, priority);
+  }
+
+  public moveJob(jobId: string, printerName: string): JobActionResult {
+    const printer: PrinterStatus | undefined = this.printerService.getPrinterStatus(printerName);
+    if (!printer) {
+      return { outcome: 'invalid_target', error: `Printer '${printerName}' not found` };
+    }
+
+    const job: PrintJob | undefined = this.queueService.getJob(jobId);
+    const contentType: LabelContentType | undefined = job && getContentType(job.request.labels[0]);
+    if (contentType && !acceptsContentType(printerName, contentType)) {
+      return { outcome: 'invalid_target', error: `Printer '${printerName}' does not accept ${contentType} labels` };
+    }
+
+    return this.queueService.moveJob(jobId, printerName);
+  }
+
+  public listDeadLetters(printerName?: string): DeadLetterSummary[] {
+    return this.queueService.listDeadLetters(printerName);
+  }
+
+  public getDeadLetter(id: string): DeadLetterEntry | undefined {
+    return this.queueService.getDeadLetter(id);
+  }
+
+  public discardDeadLetter(id: string): boolean {
+    return this.queueService.removeDeadLetter(id);
+  }
+
+  // Requeue a dead-lettered job as a fresh job (new id, retries reset), optionally
+  // onto a different printer
+  public replayDeadLetter(id: string, printerName?: string): JobActionResult {
+    const entry: DeadLetterEntry | undefined = this.queueService.getDeadLetter(id);
+    if (!entry) {
+      return { outcome: 'not_found', error: 'Dead-letter entry not found' };
+    }
+
+    const original: PrintRequest = entry.job.request;
+    const targetPrinter: string = printerName ?? original.labels[0].printerName;
+
+    if (!this.printerService.getPrinterStatus(targetPrinter)) {
+      return { outcome: 'invalid_target', error: `Printer '${targetPrinter}' not found` };
+    }
+
+    const contentType: LabelContentType = getContentType(original.labels[0]);
+    if (!acceptsContentType(targetPrinter, contentType)) {
+      return { outcome: 'invalid_target', error: `Printer '${targetPrinter}' does not accept ${contentType} labels` };
+    }
+
+    // A replay is a deliberate operator action, so an absolute expiry from the original
+    // submission is dropped; a relative ttlMs or the priority default applies afresh
+    const request: PrintRequest = {
+      ...original,
+      id: uuidv4(),
+      labels: original.labels.map(label => ({ ...label, printerName: targetPrinter })),
+      metadata: { ...original.metadata, expiresAt: undefined },
+      timestamp: Date.now(),
+      retryCount: 0,
+      replayOf: entry.job.id,
+      expiresAt: undefined
+    };
+
+    try {
+      this.queueService.addJob(request);
+    } catch (error: any) {
+      return { outcome: 'queue_full', error: error.message }; // the entry stays for a later replay
+    }
+
+    this.metrics.totalJobs++;
+    this.queueService.removeDeadLetter(id);
+
+    logger.info(`♻️  Dead-letter ${id} replayed as job ${request.id} on ${targetPrinter}`);
+    return { outcome: 'replayed', job: this.queueService.getJob(request.id) };
+  }
+
+  // Bulk replay, e.g. everything that died on a printer that is back online
+  public replayDeadLetters(options: { ids?: string[]; printerName?: string; targetPrinterName?: string; }): DeadLetterReplayResult {
+    const ids: string[] = options.ids ??
+      this.queueService.listDeadLetters(options.printerName).map((entry: DeadLetterSummary): string => entry.id);
+
+    const result: DeadLetterReplayResult = { replayed: [], failed: [] };
+
+    for (const id of ids) {
+      try {
+        const replay: JobActionResult = this.replayDeadLetter(id, options.targetPrinterName);
+
+        if (replay.outcome === 'replayed' && replay.job) {
+          result.replayed.push({ id, jobId: replay.job.id, printerName: replay.job.request.labels[0].printerName });
+        } else {
+          result.failed.push({ id, error: replay.error ?? replay.outcome });
+        }
+      } catch (error: any) {
+        result.failed.push({ id, error: error.message });
+      }
+    }
+
+    return result;
+  }
+
   public getMetrics(): ServerMetrics {
     return { ...this.metrics };
   }
@@ -228,6 +528,7 @@ export class PrintService {
     return {
       // Browser and Puppeteer stats
       browser: browserStatus,
+      renderCache: this.printerService.getRenderCacheStats(),
 
       // Performance metrics
       performance: {
@@ -248,6 +549,9 @@ export class PrintService {
 
       // Queue performance
       queue: this.queueService.getQueueStatus(),
+      lanes: this.queueService.getLaneStatus(),
+      idempotency: this.idempotencyService.getStats(),
+      webhooks: this.webhookService.getStats(),
 
       // Printer performance  
       printers: {
@@ -336,6 +640,16 @@ export class PrintService {
     return false;
   }
 
+  // Template labels are rendered first, so a preview shows exactly what /submit would print
+  public async previewLabel(label: PrintLabel | TemplatePrintLabel, format: PreviewFormat, dpi?: number): Promise<LabelPreview> {
+    const rendered: PrintLabel = this.templateService.renderLabel(label);
+    if (isRawLabel(rendered)) {
+      throw new Error(`${rendered.contentType} labels are sent to the printer as-is and cannot be previewed`);
+    }
+
+    return this.printerService.previewLabel(rendered, format, dpi);
+  }
+
   public async resetZebraMediaValues(printerName: string): Promise<boolean> {
     return await this.printerService.resetZebraMediaValues(printerName);
   }
@@ -347,7 +661,11 @@ export class PrintService {
     if (this.metricsInterval) {
       clearInterval(this.metricsInterval);
     }
+    if (this.cleanupInterval) {
+      clearInterval(this.cleanupInterval);
+    }
     this.printerService.destroy();
+    this.webhookService.destroy();
 
     // Reset singleton state
     PrintService.isInitialized = false;
@@ -1,22 +1,45 @@
 // Enhanced PrinterService.ts - Fixed background hanging issues
 
 import { exec } from 'child_process';
+import { EventEmitter } from 'events';
 import { promisify } from 'util';
 import { promises as fs } from 'fs';
 import { existsSync } from 'fs';
 import { join } from 'path';
-import { Browser, Page } from 'puppeteer';
-import { PrinterStatus, PrinterStatusType, PrintLabel, PrintMetadata, WindowsPrinter } from '../types';
+import { HTTPRequest, HTTPResponse, Page, PDFOptions } from 'puppeteer';
+import {
+  FailureCategory, PrinterStatus, PrinterStatusType, PrintLabel, HtmlPrintLabel, RawPrintLabel, PrintMetadata,
+  RenderMode, WindowsPrinter, LabelContentType, LabelPreview, PreviewFormat, CopyMode
+} from '../types';
 import { config } from '../config';
 import logger from '../utils/logger';
+import { PrintError, toPrintError } from '../utils/errors';
+import { MonochromeBitmap, buildGraphicLabel, cssLengthToInches, getPrinterDpi } from '../utils/zpl';
+import { expandBarcodes } from '../utils/barcode';
+import { getCopyMode, repeatPdfPages } from '../utils/pdf';
+import { isRequestAllowed } from '../utils/network';
+import { acceptsContentType, getContentType, isRawLabel } from '../utils/contentTypes';
+import { AssetService, ASSET_ORIGIN } from './AssetService';
 import { BrowserService } from './BrowserService';
+import { RenderCache, RenderCacheStats, RenderedPdf } from './RenderCache';
 
 const execAsync = promisify(exec);
 
-export class PrinterService {
+// PDFs lay out against the @page size, the viewport only affects screen media
+const PDF_VIEWPORT = { width: 800, height: 600, deviceScaleFactor: 1 };
+
+// Blocked URLs kept per job, so a label looping over bad URLs can't bloat the job record
+const MAX_BLOCKED_REQUESTS = 20;
+
+export class PrinterService extends EventEmitter {
 
   private browserService = new BrowserService();
-  private browser?: Browser;
+  private renderCache = new RenderCache(
+    config.printing.renderCache.memoryBytes,
+    config.printing.renderCache.diskBytes,
+    config.printing.renderCache.dir,
+    config.printing.renderCache.maxAgeMs
+  );
 
   private printers: Map<string, PrinterStatus> = new Map();
   private healthCheckInterval?: ReturnType<typeof setInterval>;
@@ -28,9 +51,12 @@ export class PrinterService {
   // FIXED: Add background operation tracking
   private backgroundOperationActive = false;
 
+  constructor(private readonly assetService: AssetService) {
+    super();
+  }
+
   public async initialize(): Promise<void> {
     await this.browserService.initialize();
-    this.browser = this.browserService.browser;
 
     await this.discoverPrinters();
     this.startHealthCheck();
@@ -124,7 +150,7 @@ export class PrinterService {
           const { stdout } = await Promise.race([healthPromise, timeoutPromise]);
 
           if (!stdout || stdout.trim() === 'ERROR' || stdout.trim() === '') {
-            status.status = 'offline';
+            this.setPrinterStatus(status, 'offline');
             status.errorCount++;
           } else {
             try {
@@ -133,20 +159,20 @@ export class PrinterService {
               
               if (newStatus !== status.status) {
                 logger.info(`Printer ${printerName} status changed from ${status.status} to ${newStatus}`);
-                status.status = newStatus;
+                this.setPrinterStatus(status, newStatus);
                 
                 if (newStatus === 'online') {
                   this.printerErrorCounts.set(printerName, 0);
                 }
               }
             } catch (parseError) {
-              status.status = 'offline';
+              this.setPrinterStatus(status, 'offline');
               status.errorCount++;
             }
           }
         } catch (error: any) {
           logger.debug(`Health check failed for printer ${printerName}: ${error.message}`);
-          status.status = 'error';
+          this.setPrinterStatus(status, 'error');
           status.errorCount++;
           
           const currentErrors = this.printerErrorCounts.get(printerName) || 0;
@@ -196,6 +222,14 @@ export class PrinterService {
     return true;
   }
 
+  private setPrinterStatus(printer: PrinterStatus, newStatus: PrinterStatusType): void {
+    const previousStatus: PrinterStatusType = printer.status;
+    if (previousStatus === newStatus) return;
+
+    printer.status = newStatus;
+    this.emit('printerStatusChanged', printer, previousStatus);
+  }
+
   public updateJobCount(printerName: string, delta: number): void {
     const printer: PrinterStatus | undefined = this.printers.get(printerName);
     if (printer) {
@@ -204,222 +238,624 @@ export class PrinterService {
     }
   }
 
-  public async printLabel(label: PrintLabel, metadata: PrintMetadata): Promise<void> {
+  // URLs the label tried to load against the network policy are added to blockedRequests
+  public async printLabel(label: PrintLabel, metadata: PrintMetadata, signal?: AbortSignal, blockedRequests?: Set<string>): Promise<void> {
     const printer: PrinterStatus | undefined = this.printers.get(label.printerName);
     if (!printer || printer.status !== 'online') {
-      throw new Error(`Printer ${label.printerName} is not available`);
+      throw new PrintError(`Printer ${label.printerName} is not available`, 'printer_unavailable');
     }
 
     if (!this.isOnline(label.printerName)) {
-      throw new Error(`Printer ${label.printerName} is unstable or has recent errors`);
+      throw new PrintError(`Printer ${label.printerName} is unstable or has recent errors`, 'printer_unavailable');
+    }
+
+    // Also covers jobs moved or replayed onto a printer after submission
+    const contentType: LabelContentType = getContentType(label);
+    if (!acceptsContentType(label.printerName, contentType)) {
+      throw new PrintError(`Printer ${label.printerName} does not accept ${contentType} labels`, 'invalid_content');
     }
 
     try {
-      const decodedHtml: string = Buffer.from(label.htmlContent, 'base64').toString('utf8');
-      const enhancedHtml = this.enhanceHtmlForPrinting(decodedHtml, label);
+      signal?.throwIfAborted();
 
       const totalStartTime = Date.now();
 
-      if (!this.browser || !this.browser.connected) {
-        await this.browserService.reinitializeBrowser();
-        this.browser = this.browserService.browser;
-        if (!this.browser || !this.browser.connected) {
-          throw new Error('Browser not available');
+      if (isRawLabel(label)) {
+        await this.printRaw(label, signal);
+      } else {
+        const enhancedHtml: string = this.prepareHtml(label);
+        await this.ensureBrowser();
+
+        if (this.getRenderMode(label, printer) === 'zpl') {
+          await this.printWithZpl(enhancedHtml, label, signal, blockedRequests);
+        } else {
+          await this.printWithPuppeteer(enhancedHtml, label, metadata, signal, blockedRequests);
         }
       }
 
-      await this.printWithPuppeteer(enhancedHtml, label, metadata);
-
       const totalTime = Date.now() - totalStartTime;
       logger.info(`📊 LABEL PRINT: ${label.copies} copies of "${label.name}" completed in ${totalTime}ms`);
 
       this.printerErrorCounts.set(label.printerName, 0);
 
     } catch (error: any) {
+      // A cancelled job says nothing about the printer's health
+      if (signal?.aborted) {
+        logger.info(`Print of label "${label.name}" on printer ${label.printerName} aborted`);
+        throw error;
+      }
+
       const currentErrors = this.printerErrorCounts.get(label.printerName) || 0;
       this.printerErrorCounts.set(label.printerName, currentErrors + 1);
       this.printerLastError.set(label.printerName, Date.now());
       
       logger.error(`Print failed for label "${label.name}" on printer ${label.printerName}:`, error);
-      throw error;
+      throw toPrintError(error, 'unknown');
     }
   }
 
-  private async printWithPuppeteer(html: string, label: PrintLabel, metadata: PrintMetadata): Promise<void> {
+  private async printWithPuppeteer(
+    html: string,
+    label: HtmlPrintLabel,
+    metadata: PrintMetadata,
+    signal?: AbortSignal,
+    blockedRequests?: Set<string>
+  ): Promise<void> {
     logger.info(`=== PUPPETEER PARALLEL PROCESSING ===`);
     const startTime = Date.now();
 
-    let page: Page | null = null;
+    try {
+      const pdfOptions: PDFOptions = this.getPdfOptions(label);
+
+      // Copies are byte-identical, and so is a retry or reprint of the same label
+      const pdfBuffer: Uint8Array = await this.renderCache.getOrRender(
+        RenderCache.keyFor(html, pdfOptions),
+        (): Promise<RenderedPdf> => this.renderPdf(html, pdfOptions, blockedRequests)
+      );
+
+      await this.spoolCopies(pdfBuffer, label, 'parallel', signal);
+
+      logger.info(`✅ PUPPETEER SUCCESS: ${label.copies} copies in ${Date.now() - startTime}ms`);
+
+    } catch (error: any) {
+      logger.error(`❌ Parallel printing failed: ${error.message}`);
+      throw toPrintError(error, 'render');
+    }
+  }
+
+  private async renderPdf(html: string, pdfOptions: PDFOptions, blockedRequests?: Set<string>): Promise<RenderedPdf> {
+    // A label missing an image or font still prints, but must not be reused from the cache
+    let complete: boolean = true;
+    const watchRequests = (page: Page): void => {
+      page.on('requestfailed', (): void => {
+        complete = false;
+      });
+      page.on('response', (response: HTTPResponse): void => {
+        if (response.status() >= 400) complete = false;
+      });
+    };
+
+    const page: Page = await this.openLabelPage(html, PDF_VIEWPORT, false, watchRequests, blockedRequests);
 
     try {
-      // FIXED: Shorter page creation timeout
-      const pagePromise = this.browser!.newPage();
-      const pageTimeout = new Promise<never>((_, reject) => 
-        setTimeout(() => reject(new Error('Page creation timeout')), 5000)
+      // FIXED: Add timeout wrapper for PDF generation
+      const pdfPromise = page.pdf(pdfOptions);
+      const pdfTimeout = new Promise<never>((_, reject) => 
+        setTimeout(() => reject(new Error('PDF generation timeout')), 8000)
       );
-      
-      page = await Promise.race([pagePromise, pageTimeout]);
 
-      await page.setViewport({
-        width: 800,
-        height: 600,
-        deviceScaleFactor: 1
+      const pdfBuffer: Uint8Array = await Promise.race([pdfPromise, pdfTimeout]);
+      logger.debug('PDF generated successfully');
+      await this.closeLabelPage(page);
+      return { pdf: pdfBuffer, complete };
+    } catch (error) {
+      await this.closeLabelPage(page, true);
+      throw error;
+    }
+  }
+
+  // Renders the label exactly as it would print, without printing it
+  public async previewLabel(label: HtmlPrintLabel, format: PreviewFormat, dpi?: number): Promise<LabelPreview> {
+    const startTime = Date.now();
+    const html: string = this.prepareHtml(label);
+    await this.ensureBrowser();
+
+    const resolution: number = dpi ?? getPrinterDpi(label.printerName);
+    const widthInches: number | undefined = cssLengthToInches(label.width);
+    const heightInches: number | undefined = cssLengthToInches(label.height);
+    if (format === 'png' && (!widthInches || !heightInches)) {
+      throw new PrintError(`Label size ${label.width} x ${label.height} cannot be converted to pixels`, 'invalid_content');
+    }
+
+    const warnings: Set<string> = new Set();
+    const watchRequests = (page: Page): void => {
+      page.on('requestfailed', (request: HTTPRequest): void => {
+        warnings.add(request.failure()?.errorText === 'net::ERR_BLOCKED_BY_CLIENT'
+          ? `Blocked ${request.resourceType()} ${request.url()}: host is not in RENDER_ALLOWED_HOSTS`
+          : `Failed to load ${request.resourceType()} ${request.url()}: ${request.failure()?.errorText ?? 'unknown error'}`);
       });
+      page.on('response', (response: HTTPResponse): void => {
+        if (response.status() >= 400) {
+          warnings.add(`Failed to load ${response.request().resourceType()} ${response.url()}: HTTP ${response.status()}`);
+        }
+      });
+    };
 
-      logger.debug('Setting page content...');
-      
-      // Keep networkidle0 for image loading but add safety timeout wrapper
-      const contentPromise = page.setContent(html, {
-        waitUntil: 'networkidle0', // KEEP: Required for URL images to load properly
-        timeout: 20000 // Reasonable timeout for content + images
+    // Same page setup as printWithPuppeteer for PDFs and printWithZpl for PNGs
+    const labelViewport = widthInches && heightInches
+      ? { width: Math.round(widthInches * 96), height: Math.round(heightInches * 96), deviceScaleFactor: resolution / 96 }
+      : undefined;
+
+    let page: Page | null = null;
+
+    try {
+      page = format === 'png'
+        ? await this.openLabelPage(html, labelViewport!, true, watchRequests)
+        : await this.openLabelPage(html, PDF_VIEWPORT, false, watchRequests);
+
+      let preview: LabelPreview;
+      if (format === 'png') {
+        const content = await page.screenshot({ type: 'png', encoding: 'base64' }) as string;
+        preview = {
+          format,
+          mimeType: 'image/png',
+          content,
+          dpi: resolution,
+          width: Math.round(widthInches! * resolution),
+          height: Math.round(heightInches! * resolution),
+          warnings: [],
+          renderTime: 0
+        };
+      } else {
+        // Shares the print cache, so printing a previewed label skips the render
+        const pdfOptions: PDFOptions = this.getPdfOptions(label);
+        const pdf: Uint8Array = await this.renderCache.getOrRender(
+          RenderCache.keyFor(html, pdfOptions),
+          async (): Promise<RenderedPdf> => ({ pdf: await page!.pdf(pdfOptions), complete: warnings.size === 0 })
+        );
+        const pages: number = (Buffer.from(pdf).toString('latin1').match(/\/Type\s*\/Page(?!s)/g) ?? []).length;
+        if (pages > 1) {
+          warnings.add(`Label renders as ${pages} pages, each page prints as a separate label`);
+        }
+
+        preview = {
+          format,
+          mimeType: 'application/pdf',
+          content: Buffer.from(pdf).toString('base64'),
+          pages,
+          warnings: [],
+          renderTime: 0
+        };
+
+        // Overflow is measured against the label itself, not the PDF viewport
+        if (labelViewport) {
+          await page.setViewport({ ...labelViewport, deviceScaleFactor: 1 });
+          await page.emulateMediaType('print');
+        }
+      }
+
+      const layout = await page.evaluate((): { width: number; height: number; brokenImages: string[]; } => {
+        const browserGlobals = globalThis as any;
+        const root = browserGlobals.document.documentElement;
+        const images: any[] = Array.from(browserGlobals.document.images);
+        return {
+          width: root.scrollWidth,
+          height: root.scrollHeight,
+          brokenImages: images.filter((image: any): boolean => image.complete && image.naturalWidth === 0).map((image: any): string => image.src)
+        };
       });
-      
-      const contentTimeout = new Promise<never>((_, reject) => 
-        setTimeout(() => reject(new Error('Page content timeout - images may not have loaded')), 25000)
-      );
-      
-      await Promise.race([contentPromise, contentTimeout]);
-      
-      logger.debug('Page content set successfully');
 
-      const pdfOptions = {
-        format: undefined,
-        printBackground: true,
-        width: label.width,
-        height: label.height,
-        margin: {
-          top: label.margin.top,
-          right: label.margin.right,
-          bottom: label.margin.bottom,
-          left: label.margin.left
-        },
-        preferCSSPageSize: true,
-        timeout: 8000 // FIXED: Reduced from 10000
-      };
+      layout.brokenImages.forEach((src: string): void => {
+        if (!Array.from(warnings).some((warning: string): boolean => warning.includes(src))) {
+          warnings.add(`Image ${src.length > 100 ? `${src.slice(0, 100)}...` : src} failed to load`);
+        }
+      });
+
+      if (labelViewport && (layout.width > labelViewport.width || layout.height > labelViewport.height)) {
+        warnings.add(`Content is ${layout.width}x${layout.height}px but the label is ${labelViewport.width}x${labelViewport.height}px (${label.width} x ${label.height}) and will be cut off`);
+      } else if (!labelViewport) {
+        warnings.add(`Label size ${label.width} x ${label.height} is not an absolute length, overflow was not checked`);
+      }
+
+      preview.warnings = Array.from(warnings);
+      preview.renderTime = Date.now() - startTime;
+
+      logger.debug(`Preview (${format}) of "${label.name}" rendered in ${preview.renderTime}ms with ${preview.warnings.length} warnings`);
+
+      await this.closeLabelPage(page);
+      page = null;
+      return preview;
+    } catch (error: any) {
+      throw toPrintError(error, 'render');
+    } finally {
+      // Still held only when rendering failed
+      if (page) {
+        await this.closeLabelPage(page, true);
+      }
+    }
+  }
+
+  // One spool job for all copies unless the printer is set to per-copy jobs, so copies
+  // come out contiguous instead of interleaved with other jobs
+  private async spoolCopies(pdf: Uint8Array, label: PrintLabel, filePrefix: string, signal?: AbortSignal): Promise<void> {
+    const copyMode: CopyMode = getCopyMode(label.printerName);
+
+    if (label.copies > 1 && copyMode === 'per-copy') {
+      await this.spoolPerCopy(pdf, label, filePrefix, signal);
+      return;
+    }
+
+    try {
+      const document: Uint8Array = label.copies > 1 && copyMode === 'multi-page' ? await repeatPdfPages(pdf, label.copies) : pdf;
+      const driverCopies: number = copyMode === 'driver' ? label.copies : 1;
+
+      logger.debug(`Spooling ${label.copies} copies as one ${copyMode} job`);
+      await this.spoolPdf(document, label.printerName, `${filePrefix}_${Date.now()}.pdf`, signal, driverCopies);
+    } catch (error: any) {
+      throw toPrintError(error, 'spool');
+    }
+  }
+
+  // One PDFtoPrinter process per copy, spooled in parallel
+  private async spoolPerCopy(pdf: Uint8Array, label: PrintLabel, filePrefix: string, signal?: AbortSignal): Promise<void> {
+    logger.debug('Starting parallel spooling...');
+    const startTime = Date.now();
+
+    const copyPromises = Array.from({ length: label.copies }, async (_, i) => {
+      const copyNumber = i + 1;
+      const copyStartTime = Date.now();
+
+      try {
+        await this.spoolPdf(pdf, label.printerName, `${filePrefix}_${Date.now()}_${copyNumber}.pdf`, signal);
+        logger.debug(`Print command completed for copy ${copyNumber}`);
+
+        const copyTime = Date.now() - copyStartTime;
+        logger.debug(`✅ Copy ${copyNumber} completed in ${copyTime}ms`);
 
-      logger.debug('Starting parallel PDF generation...');
+        return { copyNumber, success: true, time: copyTime };
 
-      const copyPromises = Array.from({ length: label.copies }, async (_, i) => {
-        const copyNumber = i + 1;
-        const copyStartTime = Date.now();
+      } catch (error: any) {
+        const copyTime = Date.now() - copyStartTime;
+        logger.error(`❌ Copy ${copyNumber} failed after ${copyTime}ms:`, error.message);
         
-        try {
-          logger.debug(`Generating PDF for copy ${copyNumber}/${label.copies}...`);
+        return { copyNumber, success: false, time: copyTime, error: error.message, category: toPrintError(error, 'spool').category };
+      }
+    });
 
-          // FIXED: Add timeout wrapper for PDF generation
-          const pdfPromise = page!.pdf(pdfOptions);
-          const pdfTimeout = new Promise<never>((_, reject) => 
-            setTimeout(() => reject(new Error('PDF generation timeout')), 8000)
-          );
-          
-          const pdfBuffer = await Promise.race([pdfPromise, pdfTimeout]);
-          logger.debug(`PDF generated successfully for copy ${copyNumber}`);
+    const results = await Promise.allSettled(copyPromises);
+    
+    const successful = results.filter((result, i) => 
+      result.status === 'fulfilled' && result.value.success
+    );
+    
+    const failed = results.filter((result, i) => 
+      result.status === 'rejected' || 
+      (result.status === 'fulfilled' && !result.value.success)
+    );
+
+    const totalTime = Date.now() - startTime;
+    const failedCategory: FailureCategory = failed
+      .map((result): FailureCategory | undefined => result.status === 'fulfilled' ? result.value.category : undefined)
+      .find((category?: FailureCategory): category is FailureCategory => category !== undefined) ?? 'unknown';
+    
+    if (successful.length === label.copies) {
+      logger.info(`✅ PARALLEL SUCCESS: ${label.copies} copies in ${totalTime}ms (${Math.round(totalTime / label.copies)}ms/copy avg)`);
+    } else if (successful.length > 0) {
+      logger.warn(`⚠️ PARTIAL SUCCESS: ${successful.length}/${label.copies} copies completed in ${totalTime}ms`);
+      logger.warn(`Failed copies: ${failed.length}`);
+      
+      if (failed.length > successful.length) {
+        throw new PrintError(`Print job mostly failed: ${failed.length}/${label.copies} copies failed`, failedCategory);
+      }
+    } else {
+      throw new PrintError(`All ${label.copies} copies failed to print`, failedCategory);
+    }
+
+    // FIXED: More aggressive garbage collection
+    if (results.length > 3) {
+      if (global.gc) global.gc();
+    }
+  }
+
+  // Writes the PDF to tmp and hands it to PDFtoPrinter, with the driver printing `copies` of it
+  private async spoolPdf(pdf: Uint8Array, printerName: string, fileName: string, signal?: AbortSignal, copies: number = 1): Promise<void> {
+    const tmpDir = join(process.cwd(), 'tmp');
+    const pdfFilePath = join(tmpDir, fileName);
+
+    if (!existsSync(tmpDir)) {
+      await fs.mkdir(tmpDir, { recursive: true });
+    }
 
-          const timestamp = Date.now();
-          const pdfFileName = `parallel_${timestamp}_${copyNumber}.pdf`;
-          const tmpDir = join(process.cwd(), 'tmp');
-          const pdfFilePath = join(tmpDir, pdfFileName);
+    await fs.writeFile(pdfFilePath, pdf);
+    logger.debug(`PDF file written: ${pdfFilePath}`);
 
-          if (!existsSync(tmpDir)) {
-            await fs.mkdir(tmpDir, { recursive: true });
+    const binDir = join(process.cwd(), 'bin');
+    const pdfToPrinterPath = join(binDir, 'PDFtoPrinter.exe');
+    const printCommand = `"${pdfToPrinterPath}" "${pdfFilePath}" "${printerName}"${copies > 1 ? ` copies=${copies}` : ''}`;
+
+    try {
+      // Last chance to honor a cancellation before the label reaches the spooler
+      signal?.throwIfAborted();
+
+      logger.debug(`Executing print command for ${fileName}...`);
+
+      // FIXED: Shorter print timeout
+      await execAsync(printCommand, { timeout: 10000 });
+    } finally {
+      // FIXED: Immediate cleanup instead of delayed
+      setTimeout(async () => {
+        try {
+          if (existsSync(pdfFilePath)) {
+            await fs.unlink(pdfFilePath);
           }
+        } catch (cleanupError) {
+          logger.debug('Cleanup error (ignored):', cleanupError);
+        }
+      }, 2000); // FIXED: Reduced from 5000
+    }
+  }
 
-          await fs.writeFile(pdfFilePath, pdfBuffer);
-          logger.debug(`PDF file written: ${pdfFilePath}`);
+  // ZPL and EPL go to the printer untouched, PDFs straight to the spooler
+  private async printRaw(label: RawPrintLabel, signal?: AbortSignal): Promise<void> {
+    const content: Buffer = Buffer.from(label.content, 'base64');
+    if (content.length === 0) {
+      throw new PrintError(`Label "${label.name}" has no printable content`, 'invalid_content');
+    }
 
-          const binDir = join(process.cwd(), 'bin');
-          const pdfToPrinterPath = join(binDir, 'PDFtoPrinter.exe');
-          const printCommand = `"${pdfToPrinterPath}" "${pdfFilePath}" "${label.printerName}"`;
+    logger.info(`=== RAW ${label.contentType.toUpperCase()} PASSTHROUGH ===`);
 
-          logger.debug(`Executing print command for copy ${copyNumber}...`);
-          
-          // FIXED: Shorter print timeout
-          await execAsync(printCommand, { timeout: 10000 });
-          logger.debug(`Print command completed for copy ${copyNumber}`);
+    try {
+      if (label.contentType === 'pdf') {
+        await this.spoolCopies(content, label, 'raw', signal);
+      } else {
+        // Last chance to honor a cancellation before the label reaches the spooler
+        signal?.throwIfAborted();
 
-          // FIXED: Immediate cleanup instead of delayed
-          setTimeout(async () => {
-            try {
-              if (existsSync(pdfFilePath)) {
-                await fs.unlink(pdfFilePath);
-              }
-            } catch (cleanupError) {
-              logger.debug('Cleanup error (ignored):', cleanupError);
-            }
-          }, 2000); // FIXED: Reduced from 5000
+        // Each copy is the whole program again; a payload with its own ^PQ or P count multiplies
+        await this.sendRawToPrinter(label.printerName, Buffer.concat(Array(label.copies).fill(content)), label.contentType);
+      }
+    } catch (error: any) {
+      throw toPrintError(error, 'spool');
+    }
+  }
 
-          const copyTime = Date.now() - copyStartTime;
-          logger.debug(`✅ Copy ${copyNumber} completed in ${copyTime}ms`);
+  // Zebra printers print from a single ^GFA download at their native resolution, with
+  // copies repeated by the printer via ^PQ instead of spooling one PDF per copy
+  private async printWithZpl(html: string, label: HtmlPrintLabel, signal?: AbortSignal, blockedRequests?: Set<string>): Promise<void> {
+    logger.info(`=== ZPL PROCESSING ===`);
+    const startTime = Date.now();
 
-          return { copyNumber, success: true, time: copyTime };
+    const widthInches: number | undefined = cssLengthToInches(label.width);
+    const heightInches: number | undefined = cssLengthToInches(label.height);
+    if (!widthInches || !heightInches) {
+      throw new PrintError(`Label size ${label.width} x ${label.height} cannot be converted to printer dots`, 'invalid_content');
+    }
 
-        } catch (error: any) {
-          const copyTime = Date.now() - copyStartTime;
-          logger.error(`❌ Copy ${copyNumber} failed after ${copyTime}ms:`, error.message);
-          
-          return { copyNumber, success: false, time: copyTime, error: error.message };
+    const dpi: number = getPrinterDpi(label.printerName);
+    let page: Page | null = null;
+    let stage: FailureCategory = 'render';
+
+    try {
+      // One CSS inch is 96px; the scale factor makes every screenshot pixel one printer dot
+      page = await this.openLabelPage(html, {
+        width: Math.round(widthInches * 96),
+        height: Math.round(heightInches * 96),
+        deviceScaleFactor: dpi / 96
+      }, true, undefined, blockedRequests);
+
+      const screenshot = await page.screenshot({ type: 'png', encoding: 'base64' }) as string;
+      const bitmap: MonochromeBitmap = await this.toMonochrome(page, screenshot);
+      const zpl: string = buildGraphicLabel(bitmap, label.copies);
+
+      // The page is not needed for spooling
+      await this.closeLabelPage(page);
+      page = null;
+
+      logger.debug(`ZPL rendered for "${label.name}": ${bitmap.bytesPerRow * 8}x${bitmap.rows} dots at ${dpi} dpi in ${Date.now() - startTime}ms`);
+
+      // Last chance to honor a cancellation before the label reaches the spooler
+      signal?.throwIfAborted();
+
+      stage = 'spool';
+      await this.sendRawToPrinter(label.printerName, zpl, 'label');
+
+      logger.info(`✅ ZPL SUCCESS: ${label.copies} copies of "${label.name}" in ${Date.now() - startTime}ms`);
+    } catch (error: any) {
+      logger.error(`❌ ZPL printing failed: ${error.message}`);
+      throw toPrintError(error, stage);
+    } finally {
+      // Still held only when rendering failed
+      if (page) {
+        await this.closeLabelPage(page, true);
+      }
+    }
+  }
+
+  // Thresholds the screenshot in the page itself, so Chrome does the PNG decoding
+  private async toMonochrome(page: Page, pngBase64: string): Promise<MonochromeBitmap> {
+    return page.evaluate(async (png: string, threshold: number): Promise<MonochromeBitmap> => {
+      const browserGlobals = globalThis as any;
+      const image = new browserGlobals.Image();
+      image.src = `data:image/png;base64,${png}`;
+      await image.decode();
+
+      const canvas = browserGlobals.document.createElement('canvas');
+      canvas.width = image.width;
+      canvas.height = image.height;
+
+      const context = canvas.getContext('2d');
+      context.fillStyle = '#ffffff';
+      context.fillRect(0, 0, image.width, image.height);
+      context.drawImage(image, 0, 0);
+
+      const pixels: Uint8ClampedArray = context.getImageData(0, 0, image.width, image.height).data;
+      const bytesPerRow: number = Math.ceil(image.width / 8);
+      const hex: string[] = [];
+
+      for (let y = 0; y < image.height; y++) {
+        for (let byteIndex = 0; byteIndex < bytesPerRow; byteIndex++) {
+          let byte = 0;
+          for (let bit = 0; bit < 8; bit++) {
+            const x = byteIndex * 8 + bit;
+            if (x >= image.width) break;
+
+            const offset = (y * image.width + x) * 4;
+            const luminance = 0.299 * pixels[offset] + 0.587 * pixels[offset + 1] + 0.114 * pixels[offset + 2];
+            if (luminance < threshold) {
+              byte |= 0x80 >> bit;
+            }
+          }
+          hex.push(byte.toString(16).padStart(2, '0'));
         }
+      }
+
+      return { hex: hex.join('').toUpperCase(), bytesPerRow, rows: image.height };
+    }, pngBase64, config.printing.zpl.threshold);
+  }
+
+  private getRenderMode(label: HtmlPrintLabel, printer: PrinterStatus): RenderMode {
+    const configured: boolean = config.printing.zpl.printers.includes(printer.name);
+    const requested: RenderMode = label.renderMode ??
+      (configured || config.printing.zpl.printers.includes('*') ? 'zpl' : 'pdf');
+
+    if (requested === 'zpl' && !/zebra|zdesigner/i.test(printer.driver)) {
+      // A '*' default quietly skips non-Zebra printers; an explicit request is worth a warning
+      if (label.renderMode === 'zpl' || configured) {
+        logger.warn(`Printer ${printer.name} (${printer.driver}) is not a Zebra printer, printing "${label.name}" as PDF`);
+      }
+      return 'pdf';
+    }
+
+    return requested;
+  }
+
+  private async openLabelPage(
+    html: string,
+    viewport: { width: number; height: number; deviceScaleFactor: number; },
+    emulatePrint: boolean = false,
+    beforeContent?: (page: Page) => void,
+    blockedRequests?: Set<string>
+  ): Promise<Page> {
+    const page: Page = await this.browserService.acquirePage();
+
+    try {
+      await page.setViewport(viewport);
+
+      // Screenshots use screen media; the label's print CSS (margins, page size) must still apply
+      if (emulatePrint) {
+        await page.emulateMediaType('print');
+      }
+
+      // Every request goes through the network policy; assets and cached remote files are
+      // answered here instead of waiting on the network
+      await page.setRequestInterception(true);
+      page.on('request', (request: HTTPRequest): void => {
+        void this.interceptRequest(request, blockedRequests);
       });
 
-      const results = await Promise.allSettled(copyPromises);
+      beforeContent?.(page);
+
+      logger.debug('Setting page content...');
       
-      const successful = results.filter((result, i) => 
-        result.status === 'fulfilled' && result.value.success
-      );
+      // Keep networkidle0 for image loading but add safety timeout wrapper
+      const contentPromise = page.setContent(html, {
+        waitUntil: 'networkidle0', // KEEP: Required for URL images to load properly
+        timeout: 20000 // Reasonable timeout for content + images
+      });
       
-      const failed = results.filter((result, i) => 
-        result.status === 'rejected' || 
-        (result.status === 'fulfilled' && !result.value.success)
+      const contentTimeout = new Promise<never>((_, reject) => 
+        setTimeout(() => reject(new Error('Page content timeout - images may not have loaded')), 25000)
       );
-
-      const totalTime = Date.now() - startTime;
       
-      if (successful.length === label.copies) {
-        logger.info(`✅ PARALLEL SUCCESS: ${label.copies} copies in ${totalTime}ms (${Math.round(totalTime / label.copies)}ms/copy avg)`);
-      } else if (successful.length > 0) {
-        logger.warn(`⚠️ PARTIAL SUCCESS: ${successful.length}/${label.copies} copies completed in ${totalTime}ms`);
-        logger.warn(`Failed copies: ${failed.length}`);
-        
-        if (failed.length > successful.length) {
-          throw new Error(`Print job mostly failed: ${failed.length}/${label.copies} copies failed`);
-        }
+      await Promise.race([contentPromise, contentTimeout]);
+      
+      logger.debug('Page content set successfully');
+      return page;
+    } catch (error) {
+      await this.closeLabelPage(page, true);
+      throw error;
+    }
+  }
+
+  private async interceptRequest(request: HTTPRequest, blockedRequests?: Set<string>): Promise<void> {
+    const url: string = request.url();
+
+    if (!url.startsWith(ASSET_ORIGIN) && !isRequestAllowed(url)) {
+      logger.debug(`Blocked ${request.resourceType()} request to ${url}`);
+      if (blockedRequests && blockedRequests.size < MAX_BLOCKED_REQUESTS) {
+        blockedRequests.add(url.length > 256 ? `${url.slice(0, 256)}...` : url);
+      }
+      await request.abort('blockedbyclient').catch((): void => undefined);
+      return;
+    }
+
+    try {
+      const response = await this.assetService.resolveRequest(url, request.resourceType(), request.method());
+      if (response) {
+        await request.respond({ status: response.status, contentType: response.contentType, body: response.body });
       } else {
-        throw new Error(`All ${label.copies} copies failed to print`);
+        await request.continue();
       }
+    } catch (error: any) {
+      logger.debug(`Request for ${url} failed: ${error.message}`);
+      await request.abort('failed').catch((): void => undefined);
+    }
+  }
+
+  // Back to the pool; a page that errored is recycled rather than reused
+  private async closeLabelPage(page: Page, failed: boolean = false): Promise<void> {
+    await this.browserService.releasePage(page, failed);
+  }
 
-      // FIXED: More aggressive garbage collection
-      if (results.length > 3) {
-        if (global.gc) global.gc();
+  // Decoded label HTML with assets resolved, barcodes drawn and print CSS added, as handed to Puppeteer
+  private prepareHtml(label: HtmlPrintLabel): string {
+    const decodedHtml: string = Buffer.from(label.htmlContent, 'base64').toString('utf8');
+    if (!decodedHtml.trim()) {
+      throw new PrintError(`Label "${label.name}" has no printable content`, 'invalid_content');
+    }
+
+    const html: string = this.assetService.resolveReferences(decodedHtml);
+    return this.enhanceHtmlForPrinting(this.renderBarcodes(html, label), label);
+  }
+
+  private async ensureBrowser(): Promise<void> {
+    // Restarting browsers count as available: acquirePage waits for their pages
+    if (!this.browserService.isAvailable()) {
+      try {
+        await this.browserService.reinitializeBrowser();
+      } catch (error: any) {
+        throw new PrintError(`Browser not available: ${error.message}`, 'browser_crash');
       }
+    }
+  }
 
+  private getPdfOptions(label: HtmlPrintLabel): PDFOptions {
+    return {
+      format: undefined,
+      printBackground: true,
+      width: label.width,
+      height: label.height,
+      margin: {
+        top: label.margin.top,
+        right: label.margin.right,
+        bottom: label.margin.bottom,
+        left: label.margin.left
+      },
+      preferCSSPageSize: true,
+      timeout: 8000 // FIXED: Reduced from 10000
+    };
+  }
+
+  // <barcode> placeholders become inline SVG sized for this printer's dots
+  private renderBarcodes(html: string, label: HtmlPrintLabel): string {
+    try {
+      return expandBarcodes(html, getPrinterDpi(label.printerName));
     } catch (error: any) {
-      logger.error(`❌ Parallel printing failed: ${error.message}`);
-      throw error;
-    } finally {
-      if (page) {
-        try {
-          if (!page.isClosed()) {
-            logger.debug('Closing page...');
-            
-            // FIXED: Add timeout to page closing
-            const closePromise = page.close();
-            const closeTimeout = new Promise<never>((_, reject) => 
-              setTimeout(() => reject(new Error('Page close timeout')), 3000)
-            );
-            
-            await Promise.race([closePromise, closeTimeout]);
-            logger.debug('Page closed successfully');
-          }
-        } catch (closeError: any) {
-          logger.warn('Error closing page:', closeError.message);
-          // FIXED: Force page to null even if close fails
-          page = null;
-        }
-      }
+      throw new PrintError(`Label "${label.name}" has an invalid barcode: ${error.message}`, 'invalid_content');
     }
   }
 
-  private enhanceHtmlForPrinting(html: string, label: PrintLabel): string {
+  private enhanceHtmlForPrinting(html: string, label: HtmlPrintLabel): string {
     const printCss = `
     <style>
       @media print {
@@ -477,40 +913,44 @@ export class PrinterService {
         '^XA^JUS^XZ'
       ].join('\n');
 
-      const timestamp = Date.now();
-      const randomId = Math.random().toString(36).substr(2, 9);
-      const tempFile: string = `zebra_reset_${timestamp}_${randomId}.zpl`;
-      const tmpDir = join(process.cwd(), 'tmp');
-
-      if (!existsSync(tmpDir)) {
-        await fs.mkdir(tmpDir, { recursive: true });
+      try {
+        await this.sendRawToPrinter(printerName, zplCommands, 'zebra_reset');
+        logger.info(`✅ ZPL commands sent successfully to ${printerName}`);
+        return true;
+      } catch (error: any) {
+        logger.error(`Failed to send ZPL commands to ${printerName}:`, error);
+        return false;
       }
 
-      const fullTempPath = join(tmpDir, tempFile);
-      await fs.writeFile(fullTempPath, zplCommands, 'utf8');
+    } catch (error: any) {
+      logger.error(`Reset media values failed for printer ${printerName}:`, error);
+      return false;
+    }
+  }
 
-      const copyCommand = `copy "${fullTempPath}" "${printerName}"`;
+  // Copies raw printer language (ZPL, EPL) straight to the printer, bypassing the driver's rendering
+  private async sendRawToPrinter(printerName: string, data: string | Buffer, filePrefix: string): Promise<void> {
+    const timestamp = Date.now();
+    const randomId = Math.random().toString(36).substr(2, 9);
+    const tempFile: string = `${filePrefix}_${timestamp}_${randomId}.prn`;
+    const tmpDir = join(process.cwd(), 'tmp');
 
-      try {
-        // FIXED: Shorter timeout for ZPL commands
-        const { stdout, stderr } = await execAsync(copyCommand, { timeout: 5000 });
-        logger.info(`✅ ZPL commands sent successfully to ${printerName}`);
+    if (!existsSync(tmpDir)) {
+      await fs.mkdir(tmpDir, { recursive: true });
+    }
 
-        // FIXED: Immediate cleanup
-        setTimeout(async () => {
-          try {
-            if (existsSync(fullTempPath)) {
-              await fs.unlink(fullTempPath);
-            }
-          } catch (cleanupError) {
-            logger.warn(`Failed to cleanup ZPL temp file ${tempFile}:`, cleanupError);
-          }
-        }, 1000); // FIXED: Reduced from 2000
+    const fullTempPath = join(tmpDir, tempFile);
+    await fs.writeFile(fullTempPath, data, 'utf8');
 
-        return true;
-      } catch (error: any) {
-        logger.error(`Failed to send ZPL commands to ${printerName}:`, error);
+    // Binary mode, so the copy doesn't stop at a Ctrl-Z byte in the payload
+    const copyCommand = `copy /B "${fullTempPath}" "${printerName}"`;
 
+    try {
+      // FIXED: Shorter timeout for ZPL commands
+      await execAsync(copyCommand, { timeout: 5000 });
+    } finally {
+      // FIXED: Immediate cleanup
+      setTimeout(async () => {
         try {
           if (existsSync(fullTempPath)) {
             await fs.unlink(fullTempPath);
@@ -518,13 +958,7 @@ export class PrinterService {
         } catch (cleanupError) {
           logger.warn(`Failed to cleanup ZPL temp file ${tempFile}:`, cleanupError);
         }
-
-        return false;
-      }
-
-    } catch (error: any) {
-      logger.error(`Reset media values failed for printer ${printerName}:`, error);
-      return false;
+      }, 1000); // FIXED: Reduced from 2000
     }
   }
 
@@ -532,9 +966,22 @@ export class PrinterService {
     return this.browserService.getPerformanceStats();
   }
 
+  public getRenderCacheStats(): RenderCacheStats {
+    return this.renderCache.getStats();
+  }
+
+  // Expired PDFs, plus any rendered before olderThan (the end of the newest job pruned from history)
+  public pruneRenderCache(olderThan?: number): void {
+    const removed: number = this.renderCache.prune(olderThan);
+    if (removed > 0) {
+      logger.debug(`Pruned ${removed} render cache entries`);
+    }
+  }
+
   public getPerformanceStats(): any {
     return {
       ...this.getBrowserStatus(),
+      renderCache: this.getRenderCacheStats(),
       memoryUsage: process.memoryUsage(),
       printersOnline: Array.from(this.printers.values()).filter(p => p.status === 'online').length,
       totalPrinters: this.printers.size,
@@ -600,11 +1047,7 @@ export class PrinterService {
       this.healthCheckInterval = undefined;
     }
 
-    if (this.browser) {
-      this.browser.close().catch(error => {
-        logger.error('Error closing Puppeteer browser:', error);
-      });
-    }
+    this.browserService.destroy();
     
     // FIXED: Clear all maps
     this.printers.clear();
@@ -0,0 +1,390 @@
+import { QueueService } from './QueueService';
+import { config } from '../config';
+import { JobListResult, PrintJob, PrintPriority, PrintRequest, SubmissionStatus } from '../types';
+
+jest.mock('../utils/logger', () => ({
+  __esModule: true,
+  default: { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() }
+}));
+
+let nextId: number = 0;
+
+const makeRequest = (printerName: string, priority: PrintPriority = 'medium', overrides: Partial<PrintRequest> = {}): PrintRequest => ({
+  id: `job-${++nextId}`,
+  labels: [{
+    userId: 1,
+    name: 'Test Child',
+    printerName,
+    printMedia: 'Label',
+    mpGroup: { id: 1, name: 'Kids', print: 'Label' },
+    copies: 1,
+    htmlContent: '',
+    margin: { top: '0', right: '0', bottom: '0', left: '0' },
+    width: '2in',
+    height: '1in'
+  }],
+  metadata: { priority },
+  timestamp: Date.now() + nextId, // strictly increasing, so ties never depend on the clock
+  retryCount: 0,
+  ...overrides
+});
+
+const ids = (jobs: PrintJob[]): string[] => jobs.map((job: PrintJob): string => job.id);
+
+describe('QueueService', () => {
+  const printing = { ...config.printing };
+  const deadLetter = { ...config.deadLetter };
+  let queue: QueueService;
+
+  beforeEach(() => {
+    queue = new QueueService();
+    config.printing.retryJitter = false;
+    config.printing.maxInFlightPerPrinter = 10;
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    Object.assign(config.printing, printing);
+    Object.assign(config.deadLetter, deadLetter);
+  });
+
+  describe('dispatch', () => {
+    it('orders a lane by priority, then by submission time', () => {
+      const low = queue.addJob(makeRequest('A', 'low'));
+      const medium = queue.addJob(makeRequest('A', 'medium'));
+      const high = queue.addJob(makeRequest('A', 'high'));
+      const laterHigh = queue.addJob(makeRequest('A', 'high'));
+
+      expect(ids(queue.getNextJobs(10))).toEqual([high, laterHigh, medium, low]);
+    });
+
+    it('serves printer lanes round-robin so one busy printer cannot starve the others', () => {
+      const a = [1, 2, 3].map(() => queue.addJob(makeRequest('A')));
+      const b = queue.addJob(makeRequest('B'));
+      const c = queue.addJob(makeRequest('C'));
+
+      expect(ids(queue.getNextJobs(10))).toEqual([a[0], b, c, a[1], a[2]]);
+    });
+
+    it('resumes the rotation after the printer served first last time', () => {
+      const a = [1, 2].map(() => queue.addJob(makeRequest('A')));
+      const b = [1, 2].map(() => queue.addJob(makeRequest('B')));
+
+      expect(ids(queue.getNextJobs(1))).toEqual([a[0]]);
+      expect(ids(queue.getNextJobs(1))).toEqual([b[0]]);
+      expect(ids(queue.getNextJobs(1))).toEqual([a[1]]);
+    });
+
+    it('takes as many jobs per round as a printer is weighted', () => {
+      config.printing.dispatchStrategy = 'weighted';
+      config.printing.printerWeights = { A: 3 };
+
+      const a = [1, 2, 3, 4].map(() => queue.addJob(makeRequest('A')));
+      const b = [1, 2].map(() => queue.addJob(makeRequest('B')));
+
+      expect(ids(queue.getNextJobs(10))).toEqual([a[0], a[1], a[2], b[0], a[3], b[1]]);
+    });
+
+    it('never exceeds a printer\'s in-flight cap', () => {
+      config.printing.maxInFlightPerPrinter = 2;
+      config.printing.printerMaxInFlight = { B: 1 };
+
+      [1, 2, 3].forEach(() => queue.addJob(makeRequest('A')));
+      [1, 2].forEach(() => queue.addJob(makeRequest('B')));
+
+      const first: PrintJob[] = queue.getNextJobs(10);
+      expect(first).toHaveLength(3);
+      expect(queue.getNextJobs(10)).toHaveLength(0);
+
+      queue.completeJob(first[0].id, true);
+      expect(queue.getNextJobs(10)).toHaveLength(1);
+      expect(queue.getLaneStatus()).toEqual([
+        { printerName: 'A', queued: 0, inFlight: 2, maxInFlight: 2, weight: 1 },
+        { printerName: 'B', queued: 1, inFlight: 1, maxInFlight: 1, weight: 1 }
+      ]);
+    });
+  });
+
+  describe('retries', () => {
+    it('requeues a failed job after an exponential backoff for its failure category', () => {
+      jest.useFakeTimers();
+      config.printing.retryPolicies = { ...config.printing.retryPolicies, spool: { maxAttempts: 3, baseDelayMs: 1000, maxDelayMs: 60000 } };
+
+      const id: string = queue.addJob(makeRequest('A'));
+      const retried = jest.fn();
+      queue.on('jobRetry', retried);
+
+      queue.getNextJobs();
+      queue.completeJob(id, false, 'spooler offline', 'spool');
+      expect(queue.getJob(id)?.status).toBe('queued');
+      expect(queue.getNextJobs()).toHaveLength(0);
+
+      jest.advanceTimersByTime(999);
+      expect(retried).not.toHaveBeenCalled();
+      jest.advanceTimersByTime(1);
+      expect(retried).toHaveBeenCalledTimes(1);
+
+      queue.getNextJobs();
+      queue.completeJob(id, false, 'spooler offline', 'spool');
+      jest.advanceTimersByTime(1999);
+      expect(queue.getNextJobs()).toHaveLength(0);
+      jest.advanceTimersByTime(1);
+
+      const [retry] = queue.getNextJobs();
+      expect(retry.id).toBe(id);
+      expect(retry.request.retryCount).toBe(2);
+      expect(retry.attempts?.map((attempt) => attempt.attempt)).toEqual([1, 2]);
+    });
+  });
+
+  describe('dead letters', () => {
+    it('dead-letters a job once its attempts are used up', () => {
+      config.printing.retryPolicies = { ...config.printing.retryPolicies, invalid_content: { maxAttempts: 1, baseDelayMs: 0, maxDelayMs: 0 } };
+
+      const id: string = queue.addJob(makeRequest('A'));
+      const failed = jest.fn();
+      queue.on('jobFailed', failed);
+
+      queue.getNextJobs();
+      queue.completeJob(id, false, 'bad HTML', 'invalid_content');
+
+      expect(queue.getJob(id)?.status).toBe('failed');
+      expect(failed).toHaveBeenCalledTimes(1);
+      expect(queue.listDeadLetters()).toEqual([
+        expect.objectContaining({ id, printerName: 'A', error: 'bad HTML' })
+      ]);
+      expect(queue.listDeadLetters('B')).toEqual([]);
+    });
+
+    it('keeps only the newest dead letters when the store is full', () => {
+      config.deadLetter.maxEntries = 2;
+      const jobIds: string[] = [1, 2, 3].map(() => queue.addJob(makeRequest('A')));
+
+      queue.getNextJobs();
+      jobIds.forEach((id: string) => queue.completeJob(id, false, 'bad HTML', 'invalid_content'));
+
+      expect(queue.listDeadLetters().map((entry) => entry.id)).toEqual(jobIds.slice(1));
+    });
+
+    it('removes a dead letter once', () => {
+      const id: string = queue.addJob(makeRequest('A'));
+      queue.getNextJobs();
+      queue.completeJob(id, false, 'bad HTML', 'invalid_content');
+
+      expect(queue.removeDeadLetter(id)).toBe(true);
+      expect(queue.removeDeadLetter(id)).toBe(false);
+      expect(queue.getDeadLetter(id)).toBeUndefined();
+    });
+  });
+
+  describe('expiry', () => {
+    it('never dispatches a job past its expiry', () => {
+      jest.useFakeTimers({ now: 1_000_000 });
+      const expired = jest.fn();
+      queue.on('jobExpired', expired);
+
+      const id: string = queue.addJob(makeRequest('A', 'high', { timestamp: Date.now(), metadata: { priority: 'high', ttlMs: 5000 } }));
+      jest.advanceTimersByTime(5000);
+
+      expect(queue.getNextJobs()).toHaveLength(0);
+      expect(queue.getJob(id)?.status).toBe('expired');
+      expect(expired).toHaveBeenCalledTimes(1);
+    });
+
+    it('applies the server default TTL for the job\'s priority', () => {
+      config.printing.defaultTtlMs = { low: 0, medium: 0, high: 60000 };
+      const request: PrintRequest = makeRequest('A', 'high');
+
+      queue.addJob(request);
+      expect(request.expiresAt).toBe(request.timestamp + 60000);
+    });
+
+    it('expires a failed job instead of retrying when it would only be due after its expiry', () => {
+      jest.useFakeTimers({ now: 1_000_000 });
+      config.printing.retryPolicies = { ...config.printing.retryPolicies, spool: { maxAttempts: 3, baseDelayMs: 10000, maxDelayMs: 60000 } };
+
+      const id: string = queue.addJob(makeRequest('A', 'high', { timestamp: Date.now(), metadata: { priority: 'high', ttlMs: 5000 } }));
+      queue.getNextJobs();
+      queue.completeJob(id, false, 'spooler offline', 'spool');
+
+      expect(queue.getJob(id)?.status).toBe('expired');
+      expect(queue.listDeadLetters()).toHaveLength(0);
+    });
+  });
+
+  describe('cancellation', () => {
+    it('cancels a queued job straight away', () => {
+      const id: string = queue.addJob(makeRequest('A'));
+
+      expect(queue.cancelJob(id).outcome).toBe('cancelled');
+      expect(queue.getNextJobs()).toHaveLength(0);
+      expect(queue.cancelJob(id)).toEqual(expect.objectContaining({ outcome: 'invalid_state', error: 'Job is already cancelled' }));
+    });
+
+    it('aborts an in-flight job and never retries it', () => {
+      const id: string = queue.addJob(makeRequest('A'));
+      queue.getNextJobs();
+      const signal: AbortSignal | undefined = queue.getAbortSignal(id);
+
+      expect(queue.cancelJob(id).outcome).toBe('cancelling');
+      expect(signal?.aborted).toBe(true);
+
+      queue.completeJob(id, false, 'aborted', 'unknown');
+      expect(queue.getJob(id)?.status).toBe('cancelled');
+      expect(queue.getQueueStatus()).toEqual(expect.objectContaining({ queued: 0, processing: 0, failed: 0, cancelled: 1 }));
+      expect(queue.getLaneStatus()).toEqual([]);
+    });
+
+    it('cancels a job that is waiting out its retry delay', () => {
+      jest.useFakeTimers();
+      const id: string = queue.addJob(makeRequest('A'));
+      queue.getNextJobs();
+      queue.completeJob(id, false, 'spooler offline', 'spool');
+
+      expect(queue.cancelJob(id).outcome).toBe('cancelled');
+      jest.runAllTimers();
+      expect(queue.getNextJobs()).toHaveLength(0);
+      expect(queue.getJob(id)?.status).toBe('cancelled');
+    });
+
+    it('reports an unknown job as not found', () => {
+      expect(queue.cancelJob('missing').outcome).toBe('not_found');
+    });
+  });
+
+  describe('priority and printer changes', () => {
+    it('moves a bumped job ahead of the jobs it now outranks', () => {
+      const first = queue.addJob(makeRequest('A', 'medium'));
+      const second = queue.addJob(makeRequest('A', 'medium'));
+
+      expect(queue.updatePriority(second, 'high').outcome).toBe('updated');
+      expect(ids(queue.getNextJobs(10))).toEqual([second, first]);
+    });
+
+    it('moves every label of a waiting job to the new printer', () => {
+      const id: string = queue.addJob(makeRequest('A'));
+
+      expect(queue.moveJob(id, 'B').outcome).toBe('updated');
+      expect(queue.getJob(id)?.request.labels.map((label) => label.printerName)).toEqual(['B']);
+    });
+
+    it('leaves a job alone once it has been picked up', () => {
+      const id: string = queue.addJob(makeRequest('A'));
+      queue.getNextJobs();
+
+      expect(queue.updatePriority(id, 'high')).toEqual(expect.objectContaining({ outcome: 'invalid_state', error: 'Job is already processing' }));
+      expect(queue.moveJob(id, 'B').outcome).toBe('invalid_state');
+      expect(queue.getJob(id)?.request.labels[0].printerName).toBe('A');
+    });
+  });
+
+  describe('listing', () => {
+    const listIds = (result: JobListResult): string[] => result.jobs.map((job) => job.id);
+
+    it('pages through jobs with a cursor that survives new submissions', () => {
+      const jobIds: string[] = [1, 2, 3, 4, 5].map(() => queue.addJob(makeRequest('A')));
+
+      const first: JobListResult = queue.listJobs({ sortBy: 'timestamp', order: 'asc', limit: 2 });
+      expect(listIds(first)).toEqual(jobIds.slice(0, 2));
+      expect(first.total).toBe(5);
+
+      // A job submitted between pages must not shift the next page
+      queue.addJob(makeRequest('A', 'medium', { timestamp: 0 }));
+
+      const second: JobListResult = queue.listJobs({ sortBy: 'timestamp', order: 'asc', limit: 2, cursor: first.nextCursor });
+      expect(listIds(second)).toEqual(jobIds.slice(2, 4));
+
+      const last: JobListResult = queue.listJobs({ sortBy: 'timestamp', order: 'asc', limit: 2, cursor: second.nextCursor });
+      expect(listIds(last)).toEqual(jobIds.slice(4));
+      expect(last.nextCursor).toBeUndefined();
+    });
+
+    it('filters by printer, status, priority, name and submission time', () => {
+      const nursery = queue.addJob(makeRequest('Nursery Zebra', 'high', { timestamp: 1000 }));
+      const lobby = queue.addJob(makeRequest('Lobby Zebra', 'low', { timestamp: 2000 }));
+      queue.cancelJob(lobby);
+
+      expect(listIds(queue.listJobs({ printerName: 'Nursery Zebra' }))).toEqual([nursery]);
+      expect(listIds(queue.listJobs({ status: ['cancelled'] }))).toEqual([lobby]);
+      expect(listIds(queue.listJobs({ priority: ['high'], name: 'test child' }))).toEqual([nursery]);
+      expect(listIds(queue.listJobs({ from: 1500, to: 2500 }))).toEqual([lobby]);
+      expect(queue.listJobs({ userId: 2 }).total).toBe(0);
+    });
+
+    it('sorts newest first by default and leaves the label HTML out', () => {
+      const older = queue.addJob(makeRequest('A'));
+      const newer = queue.addJob(makeRequest('A'));
+
+      const result: JobListResult = queue.listJobs({});
+      expect(listIds(result)).toEqual([newer, older]);
+      expect(result.jobs[0]).not.toHaveProperty('request');
+      expect(result.jobs[0]).toEqual(expect.objectContaining({ printerName: 'A', priority: 'medium', status: 'queued' }));
+    });
+  });
+
+  describe('submissions', () => {
+    const submit = (...printerNames: string[]): string[] => {
+      const jobIds: string[] = printerNames.map((printerName: string) => queue.addJob(makeRequest(printerName)));
+      queue.addSubmission({ id: 'sub-1', jobIds, failedLabels: [], totalLabels: jobIds.length, createdAt: 1000 });
+      return jobIds;
+    };
+
+    it('stays in progress while any label is still waiting to print', () => {
+      const [first] = submit('A', 'A');
+      queue.getNextJobs(1);
+      queue.completeJob(first, true);
+
+      expect(queue.getSubmission('sub-1')).toEqual(expect.objectContaining({ state: 'in_progress', printed: 1, pending: 1 }));
+    });
+
+    it('completes once every label has printed', () => {
+      submit('A', 'B');
+      queue.getNextJobs(10).forEach((job: PrintJob) => queue.completeJob(job.id, true));
+
+      const status: SubmissionStatus | undefined = queue.getSubmission('sub-1');
+      expect(status).toEqual(expect.objectContaining({ state: 'completed', totalLabels: 2, printed: 2, pending: 0, failed: 0 }));
+      expect(status?.jobs).toHaveLength(2);
+    });
+
+    it('counts labels rejected at submission towards a partial failure', () => {
+      const jobId: string = queue.addJob(makeRequest('A'));
+      queue.addSubmission({
+        id: 'sub-2',
+        jobIds: [jobId],
+        failedLabels: [{ userId: '2', name: 'Other Child', error: 'Printer not found', printerName: 'Missing' }],
+        totalLabels: 2,
+        createdAt: 1000
+      });
+      queue.getNextJobs();
+      queue.completeJob(jobId, true);
+
+      expect(queue.getSubmission('sub-2')).toEqual(expect.objectContaining({ state: 'partially_failed', printed: 1, failed: 1 }));
+    });
+
+    it('reports failed and cancelled submissions', () => {
+      const [id] = submit('A');
+      queue.getNextJobs();
+      queue.completeJob(id, false, 'bad HTML', 'invalid_content');
+      expect(queue.getSubmission('sub-1')?.state).toBe('failed');
+
+      queue.addSubmission({ id: 'sub-3', jobIds: [queue.addJob(makeRequest('A'))], failedLabels: [], totalLabels: 1, createdAt: 1000 });
+      expect(queue.cancelSubmission('sub-3')?.cancelled).toHaveLength(1);
+      expect(queue.getSubmission('sub-3')?.state).toBe('cancelled');
+    });
+
+    it('cancels the unfinished jobs of a submission', () => {
+      config.printing.maxInFlightPerPrinter = 1;
+      const [printing, waiting, done] = submit('A', 'A', 'B');
+      queue.getNextJobs(10);
+      queue.completeJob(done, true);
+
+      expect(queue.cancelSubmission('sub-1')).toEqual({
+        submissionId: 'sub-1',
+        cancelled: [waiting],
+        cancelling: [printing],
+        unchanged: [done]
+      });
+      expect(queue.cancelSubmission('missing')).toBeUndefined();
+    });
+  });
+});
@@ -1,19 +1,150 @@
 import { EventEmitter } from 'events';
-import { PrintRequest, PrintJob, QueueStatus, PrintPriority } from '../types';
+import {
+  PrintRequest, PrintJob, PrintLabel, JobStatus, QueueStatus, PrintPriority, JobActionResult,
+  JobListQuery, JobListResult, JobSummary, JobSortField, PrinterLaneStatus,
+  DeadLetterEntry, DeadLetterSummary, FailureCategory, RetryPolicy,
+  Submission, SubmissionStatus, SubmissionState, SubmissionCancelResult
+} from '../types';
 import { config } from '../config';
 import logger from '../utils/logger';
+import { JobStore, JournalRecord, MemoryJobStore } from './JobStore';
+import { getRetryPolicy, shouldRetry, computeRetryDelay } from '../utils/retryPolicy';
+
+const PRIORITY_ORDER: Record<PrintPriority, number> = { high: 3, medium: 2, low: 1 };
+
+// Compaction writes these without their label content (names, security codes); failed
+// jobs keep it so the labels can still be inspected and replayed
+const CONTENT_FREE_STATUSES: JobStatus[] = ['completed', 'cancelled', 'expired'];
+
+interface PendingRetry {
+  job: PrintJob;
+  timer: ReturnType<typeof setTimeout>;
+}
 
 export class QueueService extends EventEmitter {
   private queue: Map<string, PrintJob> = new Map();
   private processingQueue: Set<string> = new Set();
   private completedJobs: Map<string, PrintJob> = new Map();
   private failedJobs: Map<string, PrintJob> = new Map();
+  private cancelledJobs: Map<string, PrintJob> = new Map();
+  private expiredJobs: Map<string, PrintJob> = new Map();
+
+  // Jobs waiting out their retry delay are in none of the maps above
+  private pendingRetries: Map<string, PendingRetry> = new Map();
+
+  // Jobs that exhausted their retries; unlike failedJobs never evicted by cleanup()
+  private deadLetters: Map<string, DeadLetterEntry> = new Map();
+
+  // Submissions grouping the per-label jobs of one POST /submit
+  private submissions: Map<string, Submission> = new Map();
+
+  // Lets a cancel request abort a job that is already being printed
+  private abortControllers: Map<string, AbortController> = new Map();
+
+  // Per-printer scheduling lanes: waiting job ids and in-flight counts by printer
+  private lanes: Map<string, Set<string>> = new Map();
+  private inFlight: Map<string, number> = new Map();
+  private lastServedPrinter?: string;
+
+  constructor(private store: JobStore = new MemoryJobStore()) {
+    super();
+  }
+
+  // Replay the journal: unfinished jobs go back into the queue with their original
+  // priority, timestamp and retryCount, finished jobs are reloaded for status lookups
+  public restore(): number {
+    const jobs: Map<string, PrintJob> = new Map();
+
+    for (const record of this.store.load()) {
+      if (record.type === 'job') {
+        jobs.set(record.job.id, record.job);
+      } else if (record.type === 'deadLetter') {
+        this.deadLetters.set(record.entry.id, record.entry);
+      } else if (record.type === 'deadLetterRemoved') {
+        this.deadLetters.delete(record.id);
+      } else if (record.type === 'submission') {
+        this.submissions.set(record.submission.id, record.submission);
+      }
+    }
+
+    let requeued: number = 0;
+    for (const job of jobs.values()) {
+      if (job.status === 'completed') {
+        this.completedJobs.set(job.id, job);
+      } else if (job.status === 'failed') {
+        this.failedJobs.set(job.id, job);
+      } else if (job.status === 'cancelled') {
+        this.cancelledJobs.set(job.id, job);
+      } else if (job.status === 'expired') {
+        this.expiredJobs.set(job.id, job);
+      } else {
+        // Jobs interrupted mid-print are printed again
+        job.status = 'queued';
+        delete job.startTime;
+        this.queue.set(job.id, job);
+        this.addToLane(job);
+        requeued++;
+      }
+    }
+
+    this.compactJournal();
+
+    logger.info(`Restored ${requeued} queued, ${this.completedJobs.size} completed, ${this.failedJobs.size} failed and ${this.deadLetters.size} dead-lettered jobs from journal`);
+    return requeued;
+  }
+
+  private persist(job: PrintJob): void {
+    this.appendRecord({ type: 'job', job });
+  }
+
+  private appendRecord(record: JournalRecord): void {
+    try {
+      this.store.append(record);
+
+      if (this.store.appendedSinceCompaction >= config.persistence.compactionThreshold) {
+        this.compactJournal();
+      }
+    } catch (error) {
+      logger.error(`Failed to journal ${record.type} record:`, error);
+    }
+  }
+
+  private compactJournal(): void {
+    const records: JournalRecord[] = [
+      ...this.getAllJobs().map((job: PrintJob): JournalRecord => ({ type: 'job', job: this.toJournaledJob(job) })),
+      ...Array.from(this.deadLetters.values(), (entry: DeadLetterEntry): JournalRecord => ({ type: 'deadLetter', entry })),
+      ...Array.from(this.submissions.values(), (submission: Submission): JournalRecord => ({ type: 'submission', submission }))
+    ];
+
+    try {
+      this.store.compact(records);
+    } catch (error) {
+      logger.error('Failed to compact job journal:', error);
+    }
+  }
+
+  private toJournaledJob(job: PrintJob): PrintJob {
+    if (!CONTENT_FREE_STATUSES.includes(job.status)) return job;
+
+    return {
+      ...job,
+      request: {
+        ...job.request,
+        labels: job.request.labels.map((label: PrintLabel): PrintLabel =>
+          'htmlContent' in label ? { ...label, htmlContent: '' } : { ...label, content: '' })
+      }
+    };
+  }
 
   public addJob(request: PrintRequest): string {
     if (this.queue.size >= config.printing.maxQueueSize) {
       throw new Error('Queue is full');
     }
 
+    if (request.expiresAt === undefined) {
+      request.expiresAt = this.resolveExpiry(request);
+    }
+
     const job: PrintJob = {
       id: request.id,
       status: 'queued',
@@ -21,112 +152,622 @@ export class QueueService extends EventEmitter {
     };
 
     this.queue.set(request.id, job);
+    this.addToLane(job);
+    this.persist(job);
     this.emit('jobAdded', job);
-    
+
     logger.info(`Job ${request.id} added to queue`);
     return request.id;
   }
 
+  // Explicit expiresAt wins, then ttlMs, then the server default for the job's priority
+  private resolveExpiry(request: PrintRequest): number | undefined {
+    const { expiresAt, ttlMs, priority } = request.metadata;
+    if (expiresAt !== undefined) return expiresAt;
+    if (ttlMs !== undefined) return request.timestamp + ttlMs;
+
+    const defaultTtl: number = config.printing.defaultTtlMs[priority ?? 'medium'];
+    return defaultTtl > 0 ? request.timestamp + defaultTtl : undefined;
+  }
+
+  private isExpired(job: PrintJob, at: number = Date.now()): boolean {
+    return job.request.expiresAt !== undefined && job.request.expiresAt <= at;
+  }
+
+  // Stale labels must never print: drop expired jobs that are waiting or due to retry
+  private expireStaleJobs(): void {
+    const now: number = Date.now();
+
+    for (const job of this.queue.values()) {
+      if (!this.processingQueue.has(job.id) && this.isExpired(job, now)) {
+        this.queue.delete(job.id);
+        this.removeFromLane(job);
+        this.finishExpired(job);
+      }
+    }
+
+    for (const [jobId, retry] of this.pendingRetries) {
+      if (this.isExpired(retry.job, now)) {
+        clearTimeout(retry.timer);
+        this.pendingRetries.delete(jobId);
+        this.finishExpired(retry.job);
+      }
+    }
+  }
+
+  private finishExpired(job: PrintJob): void {
+    job.status = 'expired';
+    job.endTime = Date.now();
+
+    this.expiredJobs.set(job.id, job);
+    this.persist(job);
+    this.emit('jobExpired', job);
+
+    logger.warn(`Job ${job.id} expired before it could print`);
+  }
+
+  private laneOf(job: PrintJob): string {
+    return job.request.labels[0].printerName;
+  }
+
+  private addToLane(job: PrintJob): void {
+    const printerName: string = this.laneOf(job);
+    const lane: Set<string> = this.lanes.get(printerName) ?? new Set();
+    lane.add(job.id);
+    this.lanes.set(printerName, lane);
+  }
+
+  private removeFromLane(job: PrintJob): void {
+    const printerName: string = this.laneOf(job);
+    const lane: Set<string> | undefined = this.lanes.get(printerName);
+    if (!lane) return;
+
+    lane.delete(job.id);
+    if (lane.size === 0) {
+      this.lanes.delete(printerName);
+    }
+  }
+
+  private getMaxInFlight(printerName: string): number {
+    return config.printing.printerMaxInFlight[printerName] ?? config.printing.maxInFlightPerPrinter;
+  }
+
+  // Jobs taken from one printer lane per dispatch round
+  private getLaneShare(printerName: string): number {
+    if (config.printing.dispatchStrategy !== 'weighted') return 1;
+    return Math.max(1, config.printing.printerWeights[printerName] ?? 1);
+  }
+
+  // Dispatch across printer lanes (round-robin or weighted-fair) so one busy printer
+  // cannot starve the others, never exceeding a printer's in-flight cap. Within a lane
+  // jobs stay in priority order: high > medium > low, then by timestamp
   public getNextJobs(batchSize: number = config.printing.batchSize): PrintJob[] {
-    const availableJobs: PrintJob[] = Array.from(this.queue.values())
-      .filter((job: PrintJob): boolean => !this.processingQueue.has(job.id))
-      .sort((a: PrintJob, b: PrintJob): number => {
-        // Priority sorting: high > medium > low, then by timestamp
-        const priorityOrder: Record<PrintPriority, number> = { high: 3, medium: 2, low: 1 };
-        const aPriority: number = priorityOrder[a.request.metadata.priority ?? 'medium'];
-        const bPriority: number = priorityOrder[b.request.metadata.priority ?? 'medium'];
-        
-        if (aPriority !== bPriority) {
-          return bPriority - aPriority;
+    this.expireStaleJobs();
+
+    const printerNames: string[] = Array.from(this.lanes.keys()).sort();
+
+    // Resume the rotation after the printer that was served first last time
+    const resumeAt: number = printerNames.findIndex((name: string): boolean =>
+      this.lastServedPrinter !== undefined && name > this.lastServedPrinter
+    );
+    const rotated: string[] = resumeAt > 0
+      ? [...printerNames.slice(resumeAt), ...printerNames.slice(0, resumeAt)]
+      : printerNames;
+
+    const candidates: Map<string, PrintJob[]> = new Map();
+    for (const printerName of rotated) {
+      const capacity: number = this.getMaxInFlight(printerName) - (this.inFlight.get(printerName) ?? 0);
+      if (capacity <= 0) continue;
+
+      const laneJobs: PrintJob[] = Array.from(this.lanes.get(printerName)!, (id: string): PrintJob => this.queue.get(id)!)
+        .sort((a: PrintJob, b: PrintJob): number => {
+          const aPriority: number = PRIORITY_ORDER[a.request.metadata.priority ?? 'medium'];
+          const bPriority: number = PRIORITY_ORDER[b.request.metadata.priority ?? 'medium'];
+
+          if (aPriority !== bPriority) {
+            return bPriority - aPriority;
+          }
+          return a.request.timestamp - b.request.timestamp;
+        })
+        .slice(0, capacity);
+
+      candidates.set(printerName, laneJobs);
+    }
+
+    const batch: PrintJob[] = [];
+    while (batch.length < batchSize && candidates.size > 0) {
+      for (const [printerName, laneJobs] of candidates) {
+        batch.push(...laneJobs.splice(0, Math.min(this.getLaneShare(printerName), batchSize - batch.length)));
+
+        if (laneJobs.length === 0) {
+          candidates.delete(printerName);
         }
-        return a.request.timestamp - b.request.timestamp;
-      });
+        if (batch.length >= batchSize) break;
+      }
+    }
+
+    if (batch.length > 0) {
+      this.lastServedPrinter = this.laneOf(batch[0]);
+    }
 
-    const batch: PrintJob[] = availableJobs.slice(0, batchSize);
-    
     // Mark as processing
     batch.forEach((job: PrintJob): void => {
+      const printerName: string = this.laneOf(job);
+
+      this.removeFromLane(job);
+      this.inFlight.set(printerName, (this.inFlight.get(printerName) ?? 0) + 1);
       this.processingQueue.add(job.id);
+      this.abortControllers.set(job.id, new AbortController());
       job.status = 'processing';
       job.startTime = Date.now();
+      this.emit('jobStarted', job);
     });
 
     return batch;
   }
 
-  public completeJob(jobId: string, success: boolean, error?: string): void {
+  public getLaneStatus(): PrinterLaneStatus[] {
+    const printerNames: Set<string> = new Set([...this.lanes.keys(), ...this.inFlight.keys()]);
+
+    return Array.from(printerNames).sort().map((printerName: string): PrinterLaneStatus => ({
+      printerName,
+      queued: this.lanes.get(printerName)?.size ?? 0,
+      inFlight: this.inFlight.get(printerName) ?? 0,
+      maxInFlight: this.getMaxInFlight(printerName),
+      weight: this.getLaneShare(printerName)
+    }));
+  }
+
+  public getAbortSignal(jobId: string): AbortSignal | undefined {
+    return this.abortControllers.get(jobId)?.signal;
+  }
+
+  public completeJob(jobId: string, success: boolean, error?: string, category?: FailureCategory, blockedRequests?: string[]): void {
     const job: PrintJob | undefined = this.queue.get(jobId);
     if (!job) return;
 
+    const cancelled: boolean = this.abortControllers.get(jobId)?.signal.aborted ?? false;
+    this.abortControllers.delete(jobId);
+
     job.endTime = Date.now();
     job.status = success ? 'completed' : 'failed';
     if (error) job.error = error;
+    if (!success) job.failureCategory = category ?? 'unknown';
+
+    const attempt: number = job.request.retryCount + 1;
+    job.attempts = [...(job.attempts ?? []), {
+      attempt,
+      printerName: this.laneOf(job),
+      startTime: job.startTime,
+      endTime: job.endTime,
+      error,
+      category: success ? undefined : job.failureCategory,
+      blockedRequests: blockedRequests?.length ? blockedRequests : undefined
+    }];
 
-    this.processingQueue.delete(jobId);
+    if (this.processingQueue.delete(jobId)) {
+      const printerName: string = this.laneOf(job);
+      const remaining: number = (this.inFlight.get(printerName) ?? 1) - 1;
+
+      if (remaining > 0) {
+        this.inFlight.set(printerName, remaining);
+      } else {
+        this.inFlight.delete(printerName);
+      }
+    } else {
+      this.removeFromLane(job);
+    }
     this.queue.delete(jobId);
 
     if (success) {
       this.completedJobs.set(jobId, job);
+      this.persist(job);
       this.emit('jobCompleted', job);
+    } else if (cancelled) {
+      // Aborted in flight by cancelJob - never retried
+      this.finishCancelled(job);
+      return;
     } else {
-      // Retry logic
-      if (job.request.retryCount < config.printing.maxRetries) {
+      // Retry logic: attempts and backoff depend on what kind of failure this was
+      const policy: RetryPolicy = getRetryPolicy(job.failureCategory);
+      const retryDelay: number = computeRetryDelay(policy, attempt);
+
+      if (shouldRetry(policy, attempt)) {
+        // Would only become due after it expired - no point retrying
+        if (this.isExpired(job, Date.now() + retryDelay)) {
+          this.finishExpired(job);
+          return;
+        }
+
         job.request.retryCount++;
         job.status = 'queued';
-        
-        setTimeout((): void => {
+        this.persist(job);
+
+        const timer = setTimeout((): void => {
+          this.pendingRetries.delete(jobId);
+
+          if (this.isExpired(job)) {
+            this.finishExpired(job);
+            return;
+          }
+
           this.queue.set(jobId, job);
+          this.addToLane(job);
           this.emit('jobRetry', job);
-        }, config.printing.retryDelay * job.request.retryCount);
+        }, retryDelay);
+
+        this.pendingRetries.set(jobId, { job, timer });
       } else {
         this.failedJobs.set(jobId, job);
+        this.persist(job);
+        this.addDeadLetter(job);
         this.emit('jobFailed', job);
       }
     }
 
-    logger.info(`Job ${jobId} ${success ? 'completed' : 'failed'}`);
+    logger.info(`Job ${jobId} ${success ? 'completed' : `failed (${job.failureCategory})`}`);
+  }
+
+  // Cancels a queued or retry-waiting job immediately; an in-flight job is aborted
+  // and finishes as cancelled unless it already reached the printer
+  public cancelJob(jobId: string): JobActionResult {
+    const retry: PendingRetry | undefined = this.pendingRetries.get(jobId);
+    if (retry) {
+      clearTimeout(retry.timer);
+      this.pendingRetries.delete(jobId);
+      this.finishCancelled(retry.job);
+      return { outcome: 'cancelled', job: retry.job };
+    }
+
+    const job: PrintJob | undefined = this.queue.get(jobId);
+    if (!job) {
+      const finished: PrintJob | undefined = this.getJob(jobId);
+      return finished
+        ? { outcome: 'invalid_state', job: finished, error: `Job is already ${finished.status}` }
+        : { outcome: 'not_found', error: 'Job not found' };
+    }
+
+    if (this.processingQueue.has(jobId)) {
+      this.abortControllers.get(jobId)?.abort();
+      logger.info(`Job ${jobId} cancellation requested while processing`);
+      return { outcome: 'cancelling', job };
+    }
+
+    this.queue.delete(jobId);
+    this.removeFromLane(job);
+    this.finishCancelled(job);
+    return { outcome: 'cancelled', job };
+  }
+
+  private finishCancelled(job: PrintJob): void {
+    job.status = 'cancelled';
+    job.endTime = Date.now();
+
+    this.cancelledJobs.set(job.id, job);
+    this.persist(job);
+    this.emit('jobCancelled', job);
+
+    logger.info(`Job ${job.id} cancelled`);
+  }
+
+  public updatePriority(jobId: string, priority: PrintPriority): JobActionResult {
+    return this.updateWaitingJob(jobId, (job: PrintJob): void => {
+      job.request.metadata.priority = priority;
+      logger.info(`Job ${jobId} priority changed to ${priority}`);
+    });
+  }
+
+  public moveJob(jobId: string, printerName: string): JobActionResult {
+    return this.updateWaitingJob(jobId, (job: PrintJob): void => {
+      // Jobs waiting to retry are not in a lane until their timer fires
+      const inLane: boolean = this.queue.has(jobId);
+      if (inLane) this.removeFromLane(job);
+
+      for (const label of job.request.labels) {
+        label.printerName = printerName;
+      }
+
+      if (inLane) this.addToLane(job);
+      logger.info(`Job ${jobId} moved to printer ${printerName}`);
+    });
+  }
+
+  // Only jobs that have not been picked up yet (queued or waiting to retry) can change
+  private updateWaitingJob(jobId: string, update: (job: PrintJob) => void): JobActionResult {
+    const job: PrintJob | undefined = this.pendingRetries.get(jobId)?.job ?? this.queue.get(jobId);
+
+    if (!job) {
+      const finished: PrintJob | undefined = this.getJob(jobId);
+      return finished
+        ? { outcome: 'invalid_state', job: finished, error: `Job is already ${finished.status}` }
+        : { outcome: 'not_found', error: 'Job not found' };
+    }
+
+    if (this.processingQueue.has(jobId)) {
+      return { outcome: 'invalid_state', job, error: 'Job is already processing' };
+    }
+
+    update(job);
+    this.persist(job);
+    return { outcome: 'updated', job };
+  }
+
+  private addDeadLetter(job: PrintJob): void {
+    const entry: DeadLetterEntry = { id: job.id, job, deadLetteredAt: Date.now() };
+
+    this.deadLetters.set(entry.id, entry);
+    this.appendRecord({ type: 'deadLetter', entry });
+
+    // Bounded: drop the oldest entries (Map keeps insertion order)
+    while (this.deadLetters.size > config.deadLetter.maxEntries) {
+      const oldestId: string = this.deadLetters.keys().next().value!;
+      logger.warn(`Dead-letter store full, discarding entry ${oldestId}`);
+      this.removeDeadLetter(oldestId);
+    }
+
+    logger.warn(`Job ${job.id} moved to dead-letter store after ${job.attempts?.length ?? 0} attempts`);
+  }
+
+  public getDeadLetter(id: string): DeadLetterEntry | undefined {
+    return this.deadLetters.get(id);
+  }
+
+  public listDeadLetters(printerName?: string): DeadLetterSummary[] {
+    return Array.from(this.deadLetters.values())
+      .filter((entry: DeadLetterEntry): boolean => !printerName || this.laneOf(entry.job) === printerName)
+      .map((entry: DeadLetterEntry): DeadLetterSummary => {
+        const label = entry.job.request.labels[0];
+
+        return {
+          id: entry.id,
+          printerName: label.printerName,
+          userId: label.userId,
+          name: label.name,
+          error: entry.job.error,
+          attempts: entry.job.attempts ?? [],
+          deadLetteredAt: entry.deadLetteredAt
+        };
+      });
+  }
+
+  public removeDeadLetter(id: string): boolean {
+    if (!this.deadLetters.delete(id)) return false;
+
+    this.appendRecord({ type: 'deadLetterRemoved', id });
+    return true;
+  }
+
+  public addSubmission(submission: Submission): void {
+    this.submissions.set(submission.id, submission);
+    this.appendRecord({ type: 'submission', submission });
+  }
+
+  // Aggregate progress of a submission, derived from the current state of its jobs
+  public getSubmission(id: string): SubmissionStatus | undefined {
+    const submission: Submission | undefined = this.submissions.get(id);
+    if (!submission) return undefined;
+
+    const jobs: PrintJob[] = submission.jobIds
+      .map((jobId: string): PrintJob | undefined => this.getJob(jobId))
+      .filter((job?: PrintJob): job is PrintJob => job !== undefined);
+
+    const count = (...statuses: JobStatus[]): number =>
+      jobs.filter((job: PrintJob): boolean => statuses.includes(job.status)).length;
+
+    const printed: number = count('completed');
+    const pending: number = count('queued', 'processing');
+    const cancelled: number = count('cancelled');
+    const failed: number = count('failed', 'expired') + submission.failedLabels.length;
+
+    let state: SubmissionState;
+    if (pending > 0) {
+      state = 'in_progress';
+    } else if (printed === submission.totalLabels) {
+      state = 'completed';
+    } else if (printed > 0) {
+      state = 'partially_failed';
+    } else if (cancelled > 0 && failed === 0) {
+      state = 'cancelled';
+    } else {
+      state = 'failed';
+    }
+
+    return {
+      id: submission.id,
+      state,
+      totalLabels: submission.totalLabels,
+      printed,
+      pending,
+      failed,
+      cancelled,
+      createdAt: submission.createdAt,
+      jobs: jobs.map((job: PrintJob): JobSummary => this.summarizeJob(job)),
+      failedLabels: submission.failedLabels
+    };
+  }
+
+  public cancelSubmission(id: string): SubmissionCancelResult | undefined {
+    const submission: Submission | undefined = this.submissions.get(id);
+    if (!submission) return undefined;
+
+    const result: SubmissionCancelResult = { submissionId: id, cancelled: [], cancelling: [], unchanged: [] };
+
+    for (const jobId of submission.jobIds) {
+      const { outcome }: JobActionResult = this.cancelJob(jobId);
+
+      if (outcome === 'cancelled') {
+        result.cancelled.push(jobId);
+      } else if (outcome === 'cancelling') {
+        result.cancelling.push(jobId);
+      } else {
+        result.unchanged.push(jobId);
+      }
+    }
+
+    logger.info(`Submission ${id} cancelled: ${result.cancelled.length} cancelled, ${result.cancelling.length} cancelling, ${result.unchanged.length} already finished`);
+    return result;
   }
 
   public getJob(jobId: string): PrintJob | undefined {
-    return this.queue.get(jobId) || 
-           this.completedJobs.get(jobId) || 
-           this.failedJobs.get(jobId);
+    return this.queue.get(jobId) ||
+           this.pendingRetries.get(jobId)?.job ||
+           this.completedJobs.get(jobId) ||
+           this.failedJobs.get(jobId) ||
+           this.cancelledJobs.get(jobId) ||
+           this.expiredJobs.get(jobId);
+  }
+
+  // Filtered, sorted listing across every job the queue still knows about. Pagination
+  // uses an opaque keyset cursor (last sort key + id) so pages stay stable while jobs move
+  public listJobs(query: JobListQuery): JobListResult {
+    const sortBy: JobSortField = query.sortBy ?? 'timestamp';
+    const direction: number = query.order === 'asc' ? 1 : -1;
+    const limit: number = query.limit ?? 50;
+
+    const sortKey = (job: PrintJob): number => {
+      switch (sortBy) {
+        case 'priority': return PRIORITY_ORDER[job.request.metadata.priority ?? 'medium'];
+        case 'startTime': return job.startTime ?? 0;
+        case 'endTime': return job.endTime ?? 0;
+        default: return job.request.timestamp;
+      }
+    };
+
+    // Ties are broken by id so every job has a unique position
+    const compare = (aKey: number, aId: string, bKey: number, bId: string): number =>
+      (aKey - bKey) * direction || aId.localeCompare(bId);
+
+    const nameFilter: string | undefined = query.name?.toLowerCase();
+
+    const matching: PrintJob[] = this.getAllJobs().filter((job: PrintJob): boolean => {
+      const label = job.request.labels[0];
+
+      if (query.printerName && label.printerName !== query.printerName) return false;
+      if (query.userId !== undefined && label.userId !== query.userId) return false;
+      if (nameFilter && !label.name?.toLowerCase().includes(nameFilter)) return false;
+      if (query.group && label.mpGroup?.name !== query.group) return false;
+      if (query.status && !query.status.includes(job.status)) return false;
+      if (query.priority && !query.priority.includes(job.request.metadata.priority ?? 'medium')) return false;
+      if (query.from !== undefined && job.request.timestamp < query.from) return false;
+      if (query.to !== undefined && job.request.timestamp > query.to) return false;
+
+      return true;
+    });
+
+    matching.sort((a: PrintJob, b: PrintJob): number => compare(sortKey(a), a.id, sortKey(b), b.id));
+
+    let start: number = 0;
+    if (query.cursor) {
+      const [cursorKey, cursorId]: [number, string] = JSON.parse(Buffer.from(query.cursor, 'base64url').toString('utf8'));
+      start = matching.findIndex((job: PrintJob): boolean => compare(sortKey(job), job.id, cursorKey, cursorId) > 0);
+      if (start === -1) start = matching.length;
+    }
+
+    const page: PrintJob[] = matching.slice(start, start + limit);
+    const last: PrintJob | undefined = page[page.length - 1];
+    const hasMore: boolean = start + limit < matching.length;
+
+    return {
+      jobs: page.map((job: PrintJob): JobSummary => this.summarizeJob(job)),
+      total: matching.length,
+      nextCursor: hasMore && last
+        ? Buffer.from(JSON.stringify([sortKey(last), last.id])).toString('base64url')
+        : undefined
+    };
+  }
+
+  private getAllJobs(): PrintJob[] {
+    return [
+      ...this.queue.values(),
+      ...Array.from(this.pendingRetries.values(), (retry: PendingRetry): PrintJob => retry.job),
+      ...this.completedJobs.values(),
+      ...this.failedJobs.values(),
+      ...this.cancelledJobs.values(),
+      ...this.expiredJobs.values()
+    ];
+  }
+
+  public summarizeJob(job: PrintJob): JobSummary {
+    const label = job.request.labels[0];
+
+    return {
+      id: job.id,
+      status: job.status,
+      printerName: label.printerName,
+      userId: label.userId,
+      name: label.name,
+      group: label.mpGroup?.name,
+      priority: job.request.metadata.priority ?? 'medium',
+      copies: label.copies,
+      retryCount: job.request.retryCount,
+      timestamp: job.request.timestamp,
+      startTime: job.startTime,
+      endTime: job.endTime,
+      error: job.error,
+      failureCategory: job.failureCategory,
+      submissionId: job.request.submissionId
+    };
   }
 
   public getQueueStatus(): QueueStatus {
     return {
-      queued: this.queue.size - this.processingQueue.size,
+      queued: this.queue.size - this.processingQueue.size + this.pendingRetries.size,
       processing: this.processingQueue.size,
       completed: this.completedJobs.size,
-      failed: this.failedJobs.size
+      failed: this.failedJobs.size,
+      cancelled: this.cancelledJobs.size,
+      expired: this.expiredJobs.size,
+      deadLettered: this.deadLetters.size
     };
   }
 
-  public cleanup(): void {
-    // Clean up old completed jobs (keep last 1000)
-    if (this.completedJobs.size > 1000) {
-      const sorted: [string, PrintJob][] = Array.from(this.completedJobs.entries())
-        .sort(([, a]: [string, PrintJob], [, b]: [string, PrintJob]): number => 
-          (b.endTime || 0) - (a.endTime || 0)
-        );
-      
-      const toDelete: [string, PrintJob][] = sorted.slice(1000);
-      toDelete.forEach(([id]: [string, PrintJob]): void => {
-        this.completedJobs.delete(id);
-      });
+  // Returns the end time of the newest job dropped from history, if any was
+  public cleanup(): number | undefined {
+    const pruned: PrintJob[] = [
+      ...this.pruneHistory(this.completedJobs, 1000), // keep last 1000 completed jobs
+      ...this.pruneHistory(this.failedJobs, 500),     // keep last 500 failed jobs
+      ...this.pruneHistory(this.cancelledJobs, 500),  // keep last 500 cancelled jobs
+      ...this.pruneHistory(this.expiredJobs, 500)     // keep last 500 expired jobs
+    ];
+
+    // Also rewrites the journal when jobs merely finished, so their label content is
+    // on disk for at most one cleanup interval
+    if (pruned.length + this.pruneSubmissions() > 0 || this.store.appendedSinceCompaction > 0) {
+      this.compactJournal();
     }
 
-    // Clean up old failed jobs (keep last 500)
-    if (this.failedJobs.size > 500) {
-      const sorted: [string, PrintJob][] = Array.from(this.failedJobs.entries())
-        .sort(([, a]: [string, PrintJob], [, b]: [string, PrintJob]): number => 
-          (b.endTime || 0) - (a.endTime || 0)
-        );
-      
-      const toDelete: [string, PrintJob][] = sorted.slice(500);
-      toDelete.forEach(([id]: [string, PrintJob]): void => {
-        this.failedJobs.delete(id);
-      });
+    return pruned.length > 0
+      ? Math.max(...pruned.map((job: PrintJob): number => job.endTime || 0))
+      : undefined;
+  }
+
+  // A submission is forgotten once none of its jobs are known anymore
+  private pruneSubmissions(): number {
+    let removed: number = 0;
+
+    for (const [id, submission] of this.submissions) {
+      if (!submission.jobIds.some((jobId: string): boolean => this.getJob(jobId) !== undefined)) {
+        this.submissions.delete(id);
+        removed++;
+      }
     }
+
+    return removed;
+  }
+
+  private pruneHistory(jobs: Map<string, PrintJob>, keep: number): PrintJob[] {
+    if (jobs.size <= keep) return [];
+
+    const sorted: [string, PrintJob][] = Array.from(jobs.entries())
+      .sort(([, a]: [string, PrintJob], [, b]: [string, PrintJob]): number =>
+        (b.endTime || 0) - (a.endTime || 0)
+      );
+
+    const toDelete: [string, PrintJob][] = sorted.slice(keep);
+    toDelete.forEach(([id]: [string, PrintJob]): void => {
+      jobs.delete(id);
+    });
+
+    return toDelete.map(([, job]: [string, PrintJob]): PrintJob => job);
   }
-}
\ No newline at end of file
+}
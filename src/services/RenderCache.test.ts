@@ -0,0 +1,136 @@
+import { existsSync, mkdtempSync, readdirSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { RenderCache, RenderedPdf } from './RenderCache';
+
+jest.mock('../utils/logger', () => ({
+  __esModule: true,
+  default: { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() }
+}));
+
+const keyOf = (name: string): string => RenderCache.keyFor(name, {});
+
+const pdfOf = (bytes: number, complete: boolean = true) =>
+  jest.fn(async (): Promise<RenderedPdf> => ({ pdf: new Uint8Array(bytes), complete }));
+
+// Disk writes are not awaited by the cache
+const settle = (): Promise<void> => new Promise((resolve) => setTimeout(resolve, 50));
+
+describe('RenderCache', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = join(mkdtempSync(join(tmpdir(), 'render-cache-')), 'cache');
+  });
+
+  afterEach(() => {
+    rmSync(join(dir, '..'), { recursive: true, force: true });
+  });
+
+  it('keys renders by HTML and options', () => {
+    expect(RenderCache.keyFor('<p>', { width: '2in' })).toBe(RenderCache.keyFor('<p>', { width: '2in' }));
+    expect(RenderCache.keyFor('<p>', { width: '2in' })).not.toBe(RenderCache.keyFor('<p>', { width: '3in' }));
+  });
+
+  it('renders once and serves repeats from memory', async () => {
+    const cache = new RenderCache(1000, 0, dir);
+    const render = pdfOf(10);
+
+    await cache.getOrRender(keyOf('a'), render);
+    await cache.getOrRender(keyOf('a'), render);
+
+    expect(render).toHaveBeenCalledTimes(1);
+    expect(cache.getStats()).toEqual(expect.objectContaining({ hits: 1, memoryHits: 1, misses: 1, hitRate: 0.5, memoryEntries: 1, memoryBytes: 10 }));
+  });
+
+  it('shares one render between concurrent calls for a key', async () => {
+    const cache = new RenderCache(1000, 0, dir);
+    const render = pdfOf(10);
+
+    const [first, second] = await Promise.all([cache.getOrRender(keyOf('a'), render), cache.getOrRender(keyOf('a'), render)]);
+
+    expect(render).toHaveBeenCalledTimes(1);
+    expect(first).toBe(second);
+  });
+
+  it('evicts the least recently used entries beyond the memory limit', async () => {
+    const cache = new RenderCache(25, 0, dir);
+
+    await cache.getOrRender(keyOf('a'), pdfOf(10));
+    await cache.getOrRender(keyOf('b'), pdfOf(10));
+    await cache.getOrRender(keyOf('a'), pdfOf(10)); // a is now the most recent
+    await cache.getOrRender(keyOf('c'), pdfOf(10));
+
+    const renderB = pdfOf(10);
+    const renderA = pdfOf(10);
+    await cache.getOrRender(keyOf('a'), renderA);
+    await cache.getOrRender(keyOf('b'), renderB);
+
+    expect(renderA).not.toHaveBeenCalled();
+    expect(renderB).toHaveBeenCalledTimes(1);
+    expect(cache.getStats().memoryBytes).toBeLessThanOrEqual(25);
+  });
+
+  it('returns but never caches a render with failed or blocked requests', async () => {
+    const cache = new RenderCache(1000, 1000, dir);
+    const incomplete = pdfOf(10, false);
+
+    await cache.getOrRender(keyOf('a'), incomplete);
+    await cache.getOrRender(keyOf('a'), incomplete);
+    await settle();
+
+    expect(incomplete).toHaveBeenCalledTimes(2);
+    expect(cache.getStats()).toEqual(expect.objectContaining({ memoryEntries: 0, diskEntries: 0 }));
+    expect(readdirSync(dir)).toEqual([]);
+  });
+
+  it('creates no directory while the disk tier is off', () => {
+    new RenderCache(1000, 0, dir);
+
+    expect(existsSync(dir)).toBe(false);
+  });
+
+  it('reloads the disk tier after a restart', async () => {
+    const first = new RenderCache(1000, 1000, dir);
+    await first.getOrRender(keyOf('a'), pdfOf(10));
+    await settle();
+
+    const second = new RenderCache(1000, 1000, dir);
+    const render = pdfOf(10);
+    await second.getOrRender(keyOf('a'), render);
+
+    expect(render).not.toHaveBeenCalled();
+    expect(second.getStats()).toEqual(expect.objectContaining({ diskHits: 1, diskEntries: 1, diskBytes: 10 }));
+  });
+
+  it('renders again once an entry is past its maximum age', async () => {
+    jest.useFakeTimers({ now: 1_000_000, doNotFake: ['setTimeout'] });
+    try {
+      const cache = new RenderCache(1000, 0, dir, 60000);
+      const render = pdfOf(10);
+
+      await cache.getOrRender(keyOf('a'), render);
+      jest.setSystemTime(1_059_999);
+      await cache.getOrRender(keyOf('a'), render);
+      expect(render).toHaveBeenCalledTimes(1);
+
+      jest.setSystemTime(1_060_001);
+      await cache.getOrRender(keyOf('a'), render);
+      expect(render).toHaveBeenCalledTimes(2);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('prunes memory and disk entries rendered before a cutoff', async () => {
+    const cache = new RenderCache(1000, 1000, dir);
+    await cache.getOrRender(keyOf('a'), pdfOf(10));
+    await settle();
+
+    expect(cache.prune(Date.now() + 1)).toBe(2);
+    await settle();
+
+    expect(cache.getStats()).toEqual(expect.objectContaining({ memoryEntries: 0, memoryBytes: 0, diskEntries: 0, diskBytes: 0 }));
+    expect(readdirSync(dir)).toEqual([]);
+  });
+});
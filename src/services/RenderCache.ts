@@ -0,0 +1,246 @@
+// src/services/RenderCache.ts - Content-addressed cache of rendered label PDFs (memory LRU + disk)
+
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readdirSync, statSync } from 'fs';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import logger from '../utils/logger';
+
+export interface RenderCacheStats {
+  hits: number;
+  memoryHits: number;
+  diskHits: number;
+  misses: number;
+  hitRate: number; // 0..1 over all lookups since startup
+  memoryEntries: number;
+  memoryBytes: number;
+  diskEntries: number;
+  diskBytes: number;
+}
+
+export interface RenderedPdf {
+  pdf: Uint8Array;
+  complete: boolean; // false when a request failed or was blocked; such a render is returned but never cached
+}
+
+interface MemoryEntry {
+  pdf: Uint8Array;
+  storedAt: number;
+}
+
+interface DiskEntry {
+  size: number;
+  storedAt: number;
+}
+
+export class RenderCache {
+  // Both maps are kept in least-recently-used order: a hit moves the key to the end
+  private memory: Map<string, MemoryEntry> = new Map();
+  private disk: Map<string, DiskEntry> = new Map();
+  private inFlight: Map<string, Promise<Uint8Array>> = new Map();
+  private memoryBytes: number = 0;
+  private diskBytes: number = 0;
+  private memoryHits: number = 0;
+  private diskHits: number = 0;
+  private misses: number = 0;
+
+  constructor(
+    private readonly maxMemoryBytes: number,
+    private readonly maxDiskBytes: number,
+    private readonly dir: string,
+    private readonly maxAgeMs: number = 0 // 0 keeps entries until they are evicted
+  ) {
+    this.loadDiskIndex();
+  }
+
+  // Same HTML rendered with the same options always produces the same PDF
+  public static keyFor(html: string, options: object): string {
+    return createHash('sha256').update(html).update('\0').update(JSON.stringify(options)).digest('hex');
+  }
+
+  // Cached PDF for the key, or the result of render(). Concurrent calls for one key share a single render.
+  public async getOrRender(key: string, render: () => Promise<RenderedPdf>): Promise<Uint8Array> {
+    const cached: Uint8Array | undefined = await this.get(key);
+    if (cached) return cached;
+
+    const pending: Promise<Uint8Array> | undefined = this.inFlight.get(key);
+    if (pending) return pending;
+
+    this.misses++;
+    const rendering: Promise<Uint8Array> = render()
+      .then(({ pdf, complete }: RenderedPdf): Uint8Array => {
+        if (complete) {
+          this.set(key, pdf);
+        }
+        return pdf;
+      })
+      .finally((): void => {
+        this.inFlight.delete(key);
+      });
+
+    this.inFlight.set(key, rendering);
+    return rendering;
+  }
+
+  // Drops entries past the maximum age and, when given, everything rendered before olderThan
+  public prune(olderThan: number = 0): number {
+    const cutoff: number = Math.max(olderThan, this.maxAgeMs > 0 ? Date.now() - this.maxAgeMs : 0);
+    let removed: number = 0;
+
+    for (const [key, entry] of this.memory) {
+      if (entry.storedAt >= cutoff) continue;
+      this.deleteMemory(key);
+      removed++;
+    }
+
+    for (const [key, entry] of this.disk) {
+      if (entry.storedAt >= cutoff) continue;
+      this.deleteDisk(key);
+      removed++;
+    }
+
+    return removed;
+  }
+
+  public getStats(): RenderCacheStats {
+    const hits: number = this.memoryHits + this.diskHits;
+    const lookups: number = hits + this.misses;
+
+    return {
+      hits,
+      memoryHits: this.memoryHits,
+      diskHits: this.diskHits,
+      misses: this.misses,
+      hitRate: lookups > 0 ? Math.round((hits / lookups) * 1000) / 1000 : 0,
+      memoryEntries: this.memory.size,
+      memoryBytes: this.memoryBytes,
+      diskEntries: this.disk.size,
+      diskBytes: this.diskBytes
+    };
+  }
+
+  private async get(key: string): Promise<Uint8Array | undefined> {
+    const inMemory: MemoryEntry | undefined = this.memory.get(key);
+    if (inMemory && this.isExpired(inMemory.storedAt)) {
+      this.deleteMemory(key);
+    } else if (inMemory) {
+      this.memory.delete(key);
+      this.memory.set(key, inMemory);
+      this.memoryHits++;
+      return inMemory.pdf;
+    }
+
+    const onDisk: DiskEntry | undefined = this.disk.get(key);
+    if (!onDisk) return undefined;
+    if (this.isExpired(onDisk.storedAt)) {
+      this.deleteDisk(key);
+      return undefined;
+    }
+
+    try {
+      const pdf: Uint8Array = await fs.readFile(this.filePath(key));
+      this.disk.delete(key);
+      this.disk.set(key, onDisk);
+      this.diskHits++;
+      this.setMemory(key, pdf, onDisk.storedAt);
+      return pdf;
+    } catch (error) {
+      // Removed from under us; treat as a miss
+      if (this.disk.delete(key)) {
+        this.diskBytes -= onDisk.size;
+      }
+      return undefined;
+    }
+  }
+
+  private isExpired(storedAt: number): boolean {
+    return this.maxAgeMs > 0 && Date.now() - storedAt > this.maxAgeMs;
+  }
+
+  private set(key: string, pdf: Uint8Array): void {
+    const storedAt: number = Date.now();
+    this.setMemory(key, pdf, storedAt);
+
+    if (this.maxDiskBytes <= 0 || pdf.byteLength > this.maxDiskBytes || this.disk.has(key)) return;
+
+    this.disk.set(key, { size: pdf.byteLength, storedAt });
+    this.diskBytes += pdf.byteLength;
+    this.evictDisk();
+
+    // Written under a temporary name so a concurrent read never sees a partial file
+    const tempPath: string = `${this.filePath(key)}.tmp`;
+    fs.writeFile(tempPath, pdf).then((): Promise<void> => fs.rename(tempPath, this.filePath(key))).catch((error: any): void => {
+      logger.warn(`Failed to write render cache entry ${key}: ${error.message}`);
+      if (this.disk.delete(key)) {
+        this.diskBytes -= pdf.byteLength;
+      }
+    });
+  }
+
+  private setMemory(key: string, pdf: Uint8Array, storedAt: number): void {
+    if (this.maxMemoryBytes <= 0 || pdf.byteLength > this.maxMemoryBytes || this.memory.has(key)) return;
+
+    this.memory.set(key, { pdf, storedAt });
+    this.memoryBytes += pdf.byteLength;
+
+    for (const [oldestKey] of this.memory) {
+      if (this.memoryBytes <= this.maxMemoryBytes) break;
+      this.deleteMemory(oldestKey);
+    }
+  }
+
+  private evictDisk(): void {
+    for (const [oldestKey] of this.disk) {
+      if (this.diskBytes <= this.maxDiskBytes) break;
+      this.deleteDisk(oldestKey);
+    }
+  }
+
+  private deleteMemory(key: string): void {
+    const entry: MemoryEntry | undefined = this.memory.get(key);
+    if (!entry) return;
+
+    this.memory.delete(key);
+    this.memoryBytes -= entry.pdf.byteLength;
+  }
+
+  private deleteDisk(key: string): void {
+    const entry: DiskEntry | undefined = this.disk.get(key);
+    if (!entry) return;
+
+    this.disk.delete(key);
+    this.diskBytes -= entry.size;
+    fs.unlink(this.filePath(key)).catch((): void => undefined);
+  }
+
+  private filePath(key: string): string {
+    return join(this.dir, `${key}.pdf`);
+  }
+
+  // Files from a previous run are reused, oldest first in eviction order; expired ones are deleted
+  private loadDiskIndex(): void {
+    if (this.maxDiskBytes <= 0) return;
+
+    try {
+      if (!existsSync(this.dir)) {
+        mkdirSync(this.dir, { recursive: true });
+        return;
+      }
+
+      readdirSync(this.dir)
+        .filter((name: string): boolean => /^[0-9a-f]{64}\.pdf$/.test(name))
+        .map((name: string) => ({ key: name.slice(0, 64), stats: statSync(join(this.dir, name)) }))
+        .sort((a, b): number => a.stats.mtimeMs - b.stats.mtimeMs)
+        .forEach(({ key, stats }): void => {
+          this.disk.set(key, { size: stats.size, storedAt: stats.mtimeMs });
+          this.diskBytes += stats.size;
+        });
+
+      this.prune();
+      this.evictDisk();
+      logger.info(`Render cache: ${this.disk.size} cached PDFs (${Math.round(this.diskBytes / 1024)} KB) in ${this.dir}`);
+    } catch (error) {
+      logger.error(`Failed to load render cache from ${this.dir}:`, error);
+    }
+  }
+}
@@ -0,0 +1,98 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { TemplateService } from './TemplateService';
+import { config } from '../config';
+import { HtmlPrintLabel, LabelTemplateInput, TemplatePrintLabel } from '../types';
+
+jest.mock('../utils/logger', () => ({
+  __esModule: true,
+  default: { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() }
+}));
+
+const input = (html: string): LabelTemplateInput => ({
+  name: 'Child check-in',
+  html,
+  width: '2in',
+  height: '1in',
+  margin: { top: '0', right: '0', bottom: '0', left: '0' },
+  printMedia: 'Label'
+});
+
+const templateLabel = (templateVersion?: number): TemplatePrintLabel => ({
+  userId: 1,
+  name: 'Ada',
+  printerName: 'Nursery Zebra',
+  mpGroup: { id: 1, name: 'Kids', print: 'Label' },
+  copies: 1,
+  templateId: 'checkin',
+  templateVersion,
+  data: { name: 'Ada' }
+});
+
+const decode = (label: HtmlPrintLabel): string => Buffer.from(label.htmlContent, 'base64').toString('utf8');
+
+describe('TemplateService', () => {
+  const templates = { ...config.templates };
+
+  afterEach(() => {
+    Object.assign(config.templates, templates);
+  });
+
+  it('adds a version on every update and keeps rendering pinned versions', () => {
+    const service = new TemplateService();
+    service.create('checkin', input('<p>{{name}}</p>'));
+    service.update('checkin', input('<h1>{{name}}</h1>'));
+
+    expect(service.list()).toEqual([expect.objectContaining({ id: 'checkin', version: 2, versions: [1, 2] })]);
+    expect(decode(service.renderLabel(templateLabel()) as HtmlPrintLabel)).toBe('<h1>Ada</h1>');
+    expect(decode(service.renderLabel(templateLabel(1)) as HtmlPrintLabel)).toBe('<p>Ada</p>');
+  });
+
+  it('fills the layout from the template and records the version used', () => {
+    const service = new TemplateService();
+    service.create('checkin', input('<p>{{name}}</p>'));
+
+    expect(service.renderLabel(templateLabel())).toEqual(expect.objectContaining({
+      printerName: 'Nursery Zebra',
+      width: '2in',
+      height: '1in',
+      printMedia: 'Label',
+      templateId: 'checkin',
+      templateVersion: 1
+    }));
+  });
+
+  it('refuses duplicate ids, unknown ids and templates that do not parse', () => {
+    const service = new TemplateService();
+
+    expect(service.create('checkin', input('<p>{{name}}</p>')).outcome).toBe('created');
+    expect(service.create('checkin', input('<p>{{name}}</p>')).outcome).toBe('conflict');
+    expect(service.update('missing', input('<p>{{name}}</p>')).outcome).toBe('not_found');
+    expect(service.update('checkin', input('{{#open}}')).outcome).toBe('invalid');
+    expect(() => service.renderLabel(templateLabel(7))).toThrow("Template 'checkin' has no version 7");
+  });
+
+  it('keeps only the newest versions', () => {
+    config.templates.maxVersions = 2;
+    const service = new TemplateService();
+    service.create('checkin', input('1'));
+    service.update('checkin', input('2'));
+    service.update('checkin', input('3'));
+
+    expect(service.list()[0].versions).toEqual([2, 3]);
+  });
+
+  it('reloads saved templates from its store', () => {
+    const dir: string = mkdtempSync(join(tmpdir(), 'templates-'));
+
+    try {
+      new TemplateService(join(dir, 'templates.json')).create('checkin', input('<p>{{name}}</p>'));
+
+      const reloaded = new TemplateService(join(dir, 'templates.json'));
+      expect(reloaded.get('checkin')?.html).toBe('<p>{{name}}</p>');
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
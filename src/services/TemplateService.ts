@@ -0,0 +1,157 @@
+// src/services/TemplateService.ts - Versioned label templates rendered into HTML labels at submit time
+
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import {
+  PrintLabel, HtmlPrintLabel, TemplatePrintLabel, LabelTemplate, LabelTemplateInput,
+  LabelTemplateSummary, TemplateSaveResult
+} from '../types';
+import { config } from '../config';
+import logger from '../utils/logger';
+import { parseTemplate, renderTemplate } from '../utils/template';
+
+export const isTemplateLabel = (label: PrintLabel | TemplatePrintLabel): label is TemplatePrintLabel =>
+  'templateId' in label && typeof label.templateId === 'string' && !('htmlContent' in label);
+
+export class TemplateService {
+  // Versions of each template, oldest first
+  private templates: Map<string, LabelTemplate[]> = new Map();
+
+  // Templates are kept in storePath when given, in memory otherwise
+  constructor(private readonly storePath?: string) {
+    this.loadTemplates();
+  }
+
+  public create(id: string, input: LabelTemplateInput): TemplateSaveResult {
+    if (this.templates.has(id)) {
+      return { outcome: 'conflict', error: `Template '${id}' already exists` };
+    }
+    return this.save(id, input, 'created');
+  }
+
+  public update(id: string, input: LabelTemplateInput): TemplateSaveResult {
+    if (!this.templates.has(id)) {
+      return { outcome: 'not_found', error: 'Template not found' };
+    }
+    return this.save(id, input, 'updated');
+  }
+
+  // Latest version unless one is asked for
+  public get(id: string, version?: number): LabelTemplate | undefined {
+    const versions: LabelTemplate[] | undefined = this.templates.get(id);
+    if (!versions) return undefined;
+
+    return version === undefined
+      ? versions[versions.length - 1]
+      : versions.find((template: LabelTemplate): boolean => template.version === version);
+  }
+
+  public list(): LabelTemplateSummary[] {
+    return Array.from(this.templates.values(), (versions: LabelTemplate[]): LabelTemplateSummary => {
+      const { html, ...latest } = versions[versions.length - 1];
+      return { ...latest, versions: versions.map((template: LabelTemplate): number => template.version) };
+    });
+  }
+
+  public remove(id: string): boolean {
+    if (!this.templates.delete(id)) return false;
+
+    this.saveTemplates();
+    logger.info(`Template ${id} removed`);
+    return true;
+  }
+
+  // Template labels become plain HTML labels, so queued jobs are unaffected by later
+  // template changes. Other labels pass through untouched.
+  public renderLabel(label: PrintLabel | TemplatePrintLabel): PrintLabel {
+    if (!isTemplateLabel(label)) {
+      return label;
+    }
+
+    const { templateId, templateVersion, data, ...fields } = label;
+    const template: LabelTemplate | undefined = this.get(templateId, templateVersion);
+    if (!template) {
+      throw new Error(templateVersion === undefined
+        ? `Template '${templateId}' not found`
+        : `Template '${templateId}' has no version ${templateVersion}`);
+    }
+
+    const html: string = renderTemplate(template.html, data ?? {});
+
+    const rendered: HtmlPrintLabel = {
+      ...fields,
+      printMedia: fields.printMedia ?? template.printMedia,
+      width: fields.width ?? template.width,
+      height: fields.height ?? template.height,
+      margin: fields.margin ?? template.margin,
+      orientation: fields.orientation ?? template.orientation,
+      htmlContent: Buffer.from(html, 'utf8').toString('base64'),
+      templateId,
+      templateVersion: template.version
+    };
+    return rendered;
+  }
+
+  private save(id: string, input: LabelTemplateInput, outcome: 'created' | 'updated'): TemplateSaveResult {
+    try {
+      parseTemplate(input.html);
+    } catch (error: any) {
+      return { outcome: 'invalid', error: `Invalid template: ${error.message}` };
+    }
+
+    const versions: LabelTemplate[] = this.templates.get(id) ?? [];
+    const template: LabelTemplate = {
+      id,
+      version: (versions[versions.length - 1]?.version ?? 0) + 1,
+      ...input,
+      createdAt: Date.now()
+    };
+
+    versions.push(template);
+    if (versions.length > config.templates.maxVersions) {
+      versions.splice(0, versions.length - config.templates.maxVersions);
+    }
+
+    this.templates.set(id, versions);
+    this.saveTemplates();
+
+    logger.info(`Template ${id} saved as version ${template.version}`);
+    return { outcome, template };
+  }
+
+  private loadTemplates(): void {
+    if (!this.storePath || !existsSync(this.storePath)) return;
+
+    try {
+      const stored: LabelTemplate[] = JSON.parse(readFileSync(this.storePath, 'utf8'));
+      stored
+        .sort((a: LabelTemplate, b: LabelTemplate): number => a.version - b.version)
+        .forEach((template: LabelTemplate): void => {
+          const versions: LabelTemplate[] = this.templates.get(template.id) ?? [];
+          versions.push(template);
+          this.templates.set(template.id, versions);
+        });
+      logger.info(`Loaded ${this.templates.size} label templates from ${this.storePath}`);
+    } catch (error) {
+      logger.error(`Failed to load label templates from ${this.storePath}:`, error);
+    }
+  }
+
+  private saveTemplates(): void {
+    if (!this.storePath) return;
+
+    try {
+      const dir = dirname(this.storePath);
+      if (!existsSync(dir)) {
+        mkdirSync(dir, { recursive: true });
+      }
+
+      const tempPath = `${this.storePath}.tmp`;
+      const stored: LabelTemplate[] = Array.from(this.templates.values()).flat();
+      writeFileSync(tempPath, JSON.stringify(stored, null, 2), 'utf8');
+      renameSync(tempPath, this.storePath);
+    } catch (error) {
+      logger.error(`Failed to save label templates to ${this.storePath}:`, error);
+    }
+  }
+}
@@ -0,0 +1,179 @@
+import { createHmac } from 'crypto';
+import { WebhookService } from './WebhookService';
+import { config } from '../config';
+import { JobSummary, PrintJob, WebhookDelivery } from '../types';
+
+jest.mock('../utils/logger', () => ({
+  __esModule: true,
+  default: { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() }
+}));
+
+const job: PrintJob = {
+  id: 'job-1',
+  status: 'completed',
+  request: {
+    id: 'job-1',
+    labels: [{
+      userId: 1,
+      name: 'Test Child',
+      printerName: 'Nursery Zebra',
+      printMedia: 'Label',
+      mpGroup: { id: 1, name: 'Kids', print: 'Label' },
+      copies: 1,
+      htmlContent: '',
+      margin: { top: '0', right: '0', bottom: '0', left: '0' },
+      width: '2in',
+      height: '1in'
+    }],
+    metadata: { priority: 'medium' },
+    timestamp: 1000,
+    retryCount: 0
+  }
+};
+
+const summary = { id: 'job-1', status: 'completed', printerName: 'Nursery Zebra' } as JobSummary;
+
+const withCallback = (callbackUrl: string): PrintJob => ({
+  ...job,
+  request: { ...job.request, metadata: { ...job.request.metadata, callbackUrl } }
+});
+
+describe('WebhookService', () => {
+  const webhooks = { ...config.webhooks };
+  const retryJitter: boolean = config.printing.retryJitter;
+  let fetchMock: jest.SpyInstance;
+  let service: WebhookService;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    config.printing.retryJitter = false;
+    config.webhooks.retryPolicy = { maxAttempts: 3, baseDelayMs: 1000, maxDelayMs: 60000 };
+    fetchMock = jest.spyOn(global, 'fetch').mockResolvedValue(new Response(null, { status: 204 }));
+    service = new WebhookService();
+  });
+
+  afterEach(() => {
+    service.destroy();
+    jest.useRealTimers();
+    fetchMock.mockRestore();
+    Object.assign(config.webhooks, webhooks);
+    config.printing.retryJitter = retryJitter;
+  });
+
+  const sentRequest = (call: number = 0): { url: string; headers: Record<string, string>; body: string; } => {
+    const [url, init] = fetchMock.mock.calls[call];
+    return { url, headers: init.headers, body: init.body };
+  };
+
+  it('signs subscription deliveries over the timestamp and raw body', async () => {
+    service.createSubscription({ url: 'https://checkin.example.org/hooks', events: ['job.completed'], secret: 'subscription-secret-123' });
+
+    service.notify('job.completed', job, summary);
+    await jest.advanceTimersByTimeAsync(0);
+
+    const { url, headers, body } = sentRequest();
+    const expected: string = createHmac('sha256', 'subscription-secret-123')
+      .update(`${headers['X-Webhook-Timestamp']}.${body}`)
+      .digest('hex');
+
+    expect(url).toBe('https://checkin.example.org/hooks');
+    expect(headers['X-Webhook-Signature']).toBe(`sha256=${expected}`);
+    expect(headers['X-Webhook-Event']).toBe('job.completed');
+    expect(JSON.parse(body)).toEqual(expect.objectContaining({ event: 'job.completed', job: summary }));
+  });
+
+  it('signs callbackUrl deliveries with the callback secret', async () => {
+    config.webhooks.callbackSecret = 'callback-secret';
+    config.webhooks.callbackAllowedHosts = ['checkin.example.org'];
+
+    service.notify('job.completed', withCallback('https://checkin.example.org/callback'), summary);
+    await jest.advanceTimersByTimeAsync(0);
+
+    const { headers, body } = sentRequest();
+    const expected: string = createHmac('sha256', 'callback-secret').update(`${headers['X-Webhook-Timestamp']}.${body}`).digest('hex');
+    expect(headers['X-Webhook-Signature']).toBe(`sha256=${expected}`);
+  });
+
+  it('does not send callbacks unsigned', async () => {
+    config.webhooks.callbackSecret = '';
+    config.webhooks.callbackAllowedHosts = ['checkin.example.org'];
+
+    service.notify('job.completed', withCallback('https://checkin.example.org/callback'), summary);
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(service.listDeliveries({})[0]).toEqual(expect.objectContaining({ status: 'failed', attempts: [] }));
+  });
+
+  it('does not send callbacks to hosts outside the allowlist', async () => {
+    config.webhooks.callbackSecret = 'callback-secret';
+    config.webhooks.callbackAllowedHosts = ['checkin.example.org'];
+
+    service.notify('job.completed', withCallback('http://169.254.169.254/latest/meta-data'), summary);
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(service.listDeliveries({})[0].status).toBe('failed');
+  });
+
+  it('does not follow redirects', async () => {
+    service.createSubscription({ url: 'https://checkin.example.org/hooks', events: ['job.completed'] });
+
+    service.notify('job.completed', job, summary);
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(fetchMock.mock.calls[0][1]).toEqual(expect.objectContaining({ redirect: 'manual' }));
+  });
+
+  it('only delivers the events a subscription asked for', async () => {
+    service.createSubscription({ url: 'https://checkin.example.org/hooks', events: ['job.failed'] });
+
+    service.notify('job.completed', job, summary);
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('retries a failed delivery with exponential backoff', async () => {
+    fetchMock
+      .mockResolvedValueOnce(new Response(null, { status: 500 }))
+      .mockRejectedValueOnce(new Error('connect ECONNREFUSED'));
+    service.createSubscription({ url: 'https://checkin.example.org/hooks', events: ['job.completed'] });
+
+    service.notify('job.completed', job, summary);
+    await jest.advanceTimersByTimeAsync(0);
+
+    const [delivery] = service.listDeliveries({});
+    expect(delivery.status).toBe('pending');
+    expect(delivery.nextAttemptAt).toBe(Date.now() + 1000);
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+
+    await jest.advanceTimersByTimeAsync(1999);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    await jest.advanceTimersByTimeAsync(1);
+
+    const delivered: WebhookDelivery | undefined = service.getDelivery(delivery.id);
+    expect(delivered?.status).toBe('delivered');
+    expect(delivered?.attempts.map((attempt) => attempt.error)).toEqual(['HTTP 500', 'connect ECONNREFUSED', undefined]);
+  });
+
+  it('gives up once the retry policy is used up', async () => {
+    fetchMock.mockResolvedValue(new Response(null, { status: 503 }));
+    service.createSubscription({ url: 'https://checkin.example.org/hooks', events: ['job.completed'] });
+
+    service.notify('job.completed', job, summary);
+    await jest.advanceTimersByTimeAsync(60000);
+
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(service.listDeliveries({ status: 'failed' })).toHaveLength(1);
+    expect(service.getStats()).toEqual({ subscriptions: 1, pending: 0, delivered: 0, failed: 1 });
+  });
+
+  it('never lists subscription secrets', () => {
+    service.createSubscription({ url: 'https://checkin.example.org/hooks', events: ['job.completed'] });
+
+    expect(service.listSubscriptions()[0]).not.toHaveProperty('secret');
+  });
+});
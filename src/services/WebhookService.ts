@@ -0,0 +1,255 @@
+// src/services/WebhookService.ts - Signed job outcome callbacks with retries and a delivery log
+
+import { createHmac, randomBytes } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  PrintJob, JobSummary, WebhookEventType, WebhookSubscription, WebhookSubscriptionSummary,
+  WebhookPayload, WebhookDelivery, WebhookDeliveryAttempt, WebhookDeliveryQuery
+} from '../types';
+import { config } from '../config';
+import logger from '../utils/logger';
+import { shouldRetry, computeRetryDelay } from '../utils/retryPolicy';
+import { isCallbackUrlAllowed } from '../utils/network';
+
+export class WebhookService {
+  private subscriptions: Map<string, WebhookSubscription> = new Map();
+
+  // Delivery log in creation order, trimmed to config.webhooks.deliveryLogSize
+  private deliveries: Map<string, WebhookDelivery> = new Map();
+  private retryTimers: Map<string, ReturnType<typeof setTimeout>> = new Map();
+
+  // Subscriptions are kept in storePath when given, in memory otherwise
+  constructor(private readonly storePath?: string) {
+    this.loadSubscriptions();
+  }
+
+  public createSubscription(input: Omit<WebhookSubscription, 'id' | 'secret' | 'createdAt'> & { secret?: string; }): WebhookSubscription {
+    const subscription: WebhookSubscription = {
+      id: uuidv4(),
+      url: input.url,
+      events: input.events,
+      secret: input.secret ?? randomBytes(32).toString('hex'),
+      description: input.description,
+      createdAt: Date.now()
+    };
+
+    this.subscriptions.set(subscription.id, subscription);
+    this.saveSubscriptions();
+
+    logger.info(`Webhook ${subscription.id} registered for ${subscription.events.join(', ')} -> ${subscription.url}`);
+    return subscription;
+  }
+
+  public listSubscriptions(): WebhookSubscriptionSummary[] {
+    return Array.from(this.subscriptions.values(), ({ secret, ...summary }: WebhookSubscription): WebhookSubscriptionSummary => summary);
+  }
+
+  public removeSubscription(id: string): boolean {
+    if (!this.subscriptions.delete(id)) return false;
+
+    this.saveSubscriptions();
+    logger.info(`Webhook ${id} removed`);
+    return true;
+  }
+
+  // Queues one delivery for the job's callbackUrl and one per matching subscription
+  public notify(event: WebhookEventType, job: PrintJob, summary: JobSummary): void {
+    const callbackUrl: string | undefined = job.request.metadata.callbackUrl;
+    if (callbackUrl) {
+      this.enqueue(event, job, summary, callbackUrl);
+    }
+
+    for (const subscription of this.subscriptions.values()) {
+      if (subscription.events.includes(event)) {
+        this.enqueue(event, job, summary, subscription.url, subscription.id);
+      }
+    }
+  }
+
+  public listDeliveries(query: WebhookDeliveryQuery): WebhookDelivery[] {
+    return Array.from(this.deliveries.values())
+      .filter((delivery: WebhookDelivery): boolean =>
+        (!query.webhookId || delivery.webhookId === query.webhookId) &&
+        (!query.jobId || delivery.jobId === query.jobId) &&
+        (!query.status || delivery.status === query.status)
+      )
+      .reverse()
+      .slice(0, query.limit ?? 100);
+  }
+
+  public getDelivery(id: string): WebhookDelivery | undefined {
+    return this.deliveries.get(id);
+  }
+
+  public getStats(): { subscriptions: number; pending: number; delivered: number; failed: number; } {
+    const deliveries: WebhookDelivery[] = Array.from(this.deliveries.values());
+    return {
+      subscriptions: this.subscriptions.size,
+      pending: deliveries.filter((delivery: WebhookDelivery): boolean => delivery.status === 'pending').length,
+      delivered: deliveries.filter((delivery: WebhookDelivery): boolean => delivery.status === 'delivered').length,
+      failed: deliveries.filter((delivery: WebhookDelivery): boolean => delivery.status === 'failed').length
+    };
+  }
+
+  public destroy(): void {
+    this.retryTimers.forEach((timer: ReturnType<typeof setTimeout>): void => clearTimeout(timer));
+    this.retryTimers.clear();
+  }
+
+  private enqueue(event: WebhookEventType, job: PrintJob, summary: JobSummary, url: string, webhookId?: string): void {
+    const id: string = uuidv4();
+    const delivery: WebhookDelivery = {
+      id,
+      webhookId,
+      url,
+      event,
+      jobId: job.id,
+      status: 'pending',
+      attempts: [],
+      createdAt: Date.now(),
+      payload: {
+        deliveryId: id,
+        event,
+        timestamp: Date.now(),
+        job: summary,
+        clientId: job.request.labels[0]?.clientId,
+        attempts: job.attempts ?? []
+      }
+    };
+
+    this.deliveries.set(id, delivery);
+    this.trimDeliveryLog();
+
+    void this.attempt(delivery);
+  }
+
+  private async attempt(delivery: WebhookDelivery): Promise<void> {
+    this.retryTimers.delete(delivery.id);
+    delete delivery.nextAttemptAt;
+
+    const secret: string | undefined = this.getSecret(delivery);
+    const refusal: string | undefined = this.getRefusal(delivery, secret);
+    if (refusal || !secret) {
+      delivery.status = 'failed';
+      logger.warn(`Webhook delivery ${delivery.id} dropped, ${refusal}`);
+      return;
+    }
+
+    const body: string = JSON.stringify(delivery.payload);
+    const timestamp: number = Date.now();
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'X-Webhook-Id': delivery.id,
+      'X-Webhook-Event': delivery.event,
+      'X-Webhook-Timestamp': String(timestamp),
+      'X-Webhook-Signature': `sha256=${this.sign(secret, timestamp, body)}`
+    };
+
+    const result: WebhookDeliveryAttempt = { timestamp, durationMs: 0 };
+
+    try {
+      const response = await fetch(delivery.url, {
+        method: 'POST',
+        headers,
+        body,
+        redirect: 'manual', // a redirect would reach a host the allowlist never saw
+        signal: AbortSignal.timeout(config.webhooks.timeout)
+      });
+
+      result.statusCode = response.status;
+      if (!response.ok) {
+        result.error = `HTTP ${response.status}`;
+      }
+    } catch (error: any) {
+      result.error = error.message;
+    }
+
+    result.durationMs = Date.now() - timestamp;
+    delivery.attempts.push(result);
+
+    if (!result.error) {
+      delivery.status = 'delivered';
+      logger.debug(`Webhook delivery ${delivery.id} (${delivery.event}) accepted by ${delivery.url}`);
+      return;
+    }
+
+    const attemptNumber: number = delivery.attempts.length;
+    if (!shouldRetry(config.webhooks.retryPolicy, attemptNumber)) {
+      delivery.status = 'failed';
+      logger.warn(`Webhook delivery ${delivery.id} to ${delivery.url} failed after ${attemptNumber} attempts: ${result.error}`);
+      return;
+    }
+
+    const delay: number = computeRetryDelay(config.webhooks.retryPolicy, attemptNumber);
+    delivery.nextAttemptAt = Date.now() + delay;
+    this.retryTimers.set(delivery.id, setTimeout((): void => {
+      void this.attempt(delivery);
+    }, delay));
+
+    logger.debug(`Webhook delivery ${delivery.id} to ${delivery.url} failed (${result.error}), retrying in ${delay}ms`);
+  }
+
+  private getSecret(delivery: WebhookDelivery): string | undefined {
+    return delivery.webhookId ? this.subscriptions.get(delivery.webhookId)?.secret : config.webhooks.callbackSecret;
+  }
+
+  // Checked on every attempt: validation refuses such callbacks, but jobs restored from the
+  // journal or retried after a config change may still carry one
+  private getRefusal(delivery: WebhookDelivery, secret: string | undefined): string | undefined {
+    if (delivery.webhookId) {
+      return secret ? undefined : `subscription ${delivery.webhookId} no longer exists`;
+    }
+    if (!secret) {
+      return 'WEBHOOK_CALLBACK_SECRET is not set';
+    }
+    return isCallbackUrlAllowed(delivery.url) ? undefined : `${delivery.url} is not in WEBHOOK_CALLBACK_ALLOWED_HOSTS`;
+  }
+
+  // Receivers recompute HMAC-SHA256 over "<X-Webhook-Timestamp>.<raw body>"
+  private sign(secret: string, timestamp: number, body: string): string {
+    return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  }
+
+  // Drops the oldest finished deliveries; pending ones stay until they resolve
+  private trimDeliveryLog(): void {
+    for (const [id, delivery] of this.deliveries) {
+      if (this.deliveries.size <= config.webhooks.deliveryLogSize) break;
+      if (delivery.status !== 'pending') {
+        this.deliveries.delete(id);
+      }
+    }
+  }
+
+  private loadSubscriptions(): void {
+    if (!this.storePath || !existsSync(this.storePath)) return;
+
+    try {
+      const stored: WebhookSubscription[] = JSON.parse(readFileSync(this.storePath, 'utf8'));
+      stored.forEach((subscription: WebhookSubscription): void => {
+        this.subscriptions.set(subscription.id, subscription);
+      });
+      logger.info(`Loaded ${this.subscriptions.size} webhook subscriptions from ${this.storePath}`);
+    } catch (error) {
+      logger.error(`Failed to load webhook subscriptions from ${this.storePath}:`, error);
+    }
+  }
+
+  private saveSubscriptions(): void {
+    if (!this.storePath) return;
+
+    try {
+      const dir = dirname(this.storePath);
+      if (!existsSync(dir)) {
+        mkdirSync(dir, { recursive: true });
+      }
+
+      const tempPath = `${this.storePath}.tmp`;
+      writeFileSync(tempPath, JSON.stringify(Array.from(this.subscriptions.values()), null, 2), 'utf8');
+      renameSync(tempPath, this.storePath);
+    } catch (error) {
+      logger.error(`Failed to save webhook subscriptions to ${this.storePath}:`, error);
+    }
+  }
+}
@@ -4,30 +4,66 @@ export interface PrintRequest {
   metadata: PrintMetadata;
   timestamp: number;
   retryCount: number;
+  replayOf?: string; // dead-lettered job this request was replayed from
+  submissionId?: string; // submission this label was sent in
+  expiresAt?: number; // resolved from metadata.expiresAt, metadata.ttlMs or the priority default
 }
 
-export interface PrintLabel {
+interface PrintLabelBase {
   userId: number;
   name: string;
-  htmlContent: string; // base64 encoded HTML
   printerName: string;
   printMedia: PrintMedia;
   mpGroup: MPGroup;
+  copies: number;
+  clientId?: string; // client-generated id, repeated submissions within the idempotency window are ignored
+}
+
+export interface HtmlPrintLabel extends PrintLabelBase {
+  contentType?: 'html'; // default
+  htmlContent: string; // base64 encoded HTML
   margin: { top: string, right: string, bottom: string, left: string; },
   width: string;
   height: string;
-  copies: number;
   orientation?: PrintOrientation;
+  renderMode?: RenderMode; // overrides the printer's default pipeline
+  templateId?: string; // set when htmlContent was rendered from a server-side template
+  templateVersion?: number;
+}
+
+// Ready-made printer output that skips Puppeteer
+export interface RawPrintLabel extends PrintLabelBase {
+  contentType: RawContentType;
+  content: string; // base64 encoded ZPL, EPL or PDF
+}
+
+export type PrintLabel = HtmlPrintLabel | RawPrintLabel;
+
+// Data-only label, rendered into an HtmlPrintLabel when it is submitted. Layout fields
+// left out fall back to the template's defaults.
+export interface TemplatePrintLabel extends Omit<PrintLabelBase, 'printMedia'> {
+  templateId: string;
+  templateVersion?: number; // latest when omitted
+  data?: Record<string, any>;
+  printMedia?: PrintMedia;
+  margin?: HtmlPrintLabel['margin'];
+  width?: string;
+  height?: string;
+  orientation?: PrintOrientation;
+  renderMode?: RenderMode;
 }
 
 export interface PrintMetadata {
   priority?: PrintPriority;
   copies?: number;
   paperSize?: string;
+  expiresAt?: number; // epoch ms after which the labels must not print
+  ttlMs?: number;     // relative alternative to expiresAt, counted from submission
+  callbackUrl?: string; // receives a signed POST when a job completes, fails or is retried
 }
 
 
-interface MPGroup {
+export interface MPGroup {
   id: number;
   name: 'Minors' | 'Adults' | 'Youth' | 'Kids' | 'Bears' | 'Nursery';
   print: 'Label' | 'Wristband';
@@ -37,7 +73,33 @@ interface MPGroup {
 export type PrintMedia = 'Wristband' | 'Label';
 export type PrintPriority = 'low' | 'medium' | 'high';
 export type PrintOrientation = 'portrait' | 'landscape';
-export type JobStatus = 'queued' | 'processing' | 'completed' | 'failed';
+
+// pdf: Puppeteer PDF through PDFtoPrinter; zpl: bitmap sent raw to a Zebra printer
+export type RenderMode = 'pdf' | 'zpl';
+
+export type PreviewFormat = 'pdf' | 'png';
+
+// How multiple copies of a PDF label reach the spooler: one job holding every copy as
+// pages, one job with the driver's copy count, or one job per copy
+export type CopyMode = 'multi-page' | 'driver' | 'per-copy';
+
+export interface LabelPreview {
+  format: PreviewFormat;
+  mimeType: string;
+  content: string; // base64
+  dpi?: number;    // png only
+  width?: number;  // png only, in pixels
+  height?: number;
+  pages?: number;  // pdf only; more than one means the label spills onto extra labels
+  warnings: string[];
+  renderTime: number;
+}
+
+export type BarcodeType = 'code128' | 'code39' | 'qrcode' | 'datamatrix';
+
+export type RawContentType = 'zpl' | 'epl' | 'pdf';
+export type LabelContentType = 'html' | RawContentType;
+export type JobStatus = 'queued' | 'processing' | 'completed' | 'failed' | 'cancelled' | 'expired';
 export type PrinterStatusType = 'online' | 'offline' | 'busy' | 'error';
 
 export interface PrintJob {
@@ -47,6 +109,263 @@ export interface PrintJob {
   startTime?: number;
   endTime?: number;
   error?: string;
+  failureCategory?: FailureCategory;
+  attempts?: JobAttempt[];
+}
+
+export interface JobAttempt {
+  attempt: number;
+  printerName: string;
+  startTime?: number;
+  endTime: number;
+  error?: string;
+  category?: FailureCategory;
+  blockedRequests?: string[]; // URLs the label tried to load that are not in RENDER_ALLOWED_HOSTS
+}
+
+export type FailureCategory = 'render' | 'spool' | 'printer_unavailable' | 'browser_crash' | 'invalid_content' | 'unknown';
+
+export interface RetryPolicy {
+  maxAttempts: number; // including the first try, 1 = never retry
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+// A job that exhausted its retries, kept with its full request until replayed or discarded
+export interface DeadLetterEntry {
+  id: string;
+  job: PrintJob;
+  deadLetteredAt: number;
+}
+
+export interface DeadLetterSummary {
+  id: string;
+  printerName: string;
+  userId: number;
+  name: string;
+  error?: string;
+  attempts: JobAttempt[];
+  deadLetteredAt: number;
+}
+
+export interface DeadLetterReplayResult {
+  replayed: { id: string; jobId: string; printerName: string; }[];
+  failed: { id: string; error: string; }[];
+}
+
+export type JobSortField = 'timestamp' | 'priority' | 'startTime' | 'endTime';
+
+export interface JobListQuery {
+  printerName?: string;
+  userId?: number;
+  name?: string;
+  group?: MPGroup['name'];
+  status?: JobStatus[];
+  priority?: PrintPriority[];
+  from?: number;
+  to?: number;
+  sortBy?: JobSortField;
+  order?: 'asc' | 'desc';
+  limit?: number;
+  cursor?: string;
+}
+
+// Compact view of a job for listings - leaves out the label HTML
+export interface JobSummary {
+  id: string;
+  status: JobStatus;
+  printerName: string;
+  userId: number;
+  name: string;
+  group?: MPGroup['name'];
+  priority: PrintPriority;
+  copies: number;
+  retryCount: number;
+  timestamp: number;
+  startTime?: number;
+  endTime?: number;
+  error?: string;
+  failureCategory?: FailureCategory;
+  submissionId?: string;
+}
+
+export interface JobListResult {
+  jobs: JobSummary[];
+  total: number;
+  nextCursor?: string;
+}
+
+export type JobActionOutcome = 'updated' | 'cancelled' | 'cancelling' | 'replayed' | 'not_found' | 'invalid_state' | 'invalid_target' | 'queue_full';
+
+export interface JobActionResult {
+  outcome: JobActionOutcome;
+  job?: PrintJob;
+  error?: string;
+}
+
+// One POST /submit call: the jobs its labels were queued as, plus the labels rejected up front
+export interface Submission {
+  id: string;
+  jobIds: string[];
+  failedLabels: FailedLabel[];
+  totalLabels: number;
+  createdAt: number;
+}
+
+export type SubmissionState = 'in_progress' | 'completed' | 'partially_failed' | 'failed' | 'cancelled';
+
+export interface SubmissionStatus {
+  id: string;
+  state: SubmissionState;
+  totalLabels: number;
+  printed: number;
+  pending: number;
+  failed: number; // failed or expired jobs plus labels rejected at submission
+  cancelled: number;
+  createdAt: number;
+  jobs: JobSummary[];
+  failedLabels: FailedLabel[];
+}
+
+export interface SubmissionCancelResult {
+  submissionId: string;
+  cancelled: string[];
+  cancelling: string[];
+  unchanged: string[]; // already finished
+}
+
+export type JobEventType =
+  | 'job.queued' | 'job.processing' | 'job.retrying' | 'job.completed'
+  | 'job.failed' | 'job.cancelled' | 'job.expired';
+
+export type PrintEventType = JobEventType | 'printer.status';
+
+// Streamed to /events subscribers; ids increase monotonically within one server run
+export interface PrintEvent {
+  id: number;
+  type: PrintEventType;
+  timestamp: number;
+  printerName: string;
+  jobId?: string;
+  submissionId?: string;
+  job?: JobSummary;
+  printer?: PrinterStatus;
+  previousStatus?: PrinterStatusType;
+}
+
+export interface PrintEventFilter {
+  printerName?: string;
+  submissionId?: string;
+  jobId?: string;
+}
+
+export interface LabelTemplateInput {
+  name?: string;
+  description?: string;
+  html: string; // logic-less template source, see utils/template.ts
+  width: string;
+  height: string;
+  margin: HtmlPrintLabel['margin'];
+  printMedia: PrintMedia;
+  orientation?: PrintOrientation;
+}
+
+// Saving a template never changes an existing version, it adds the next one
+export interface LabelTemplate extends LabelTemplateInput {
+  id: string;
+  version: number;
+  createdAt: number;
+}
+
+export type LabelTemplateSummary = Omit<LabelTemplate, 'html'> & { versions: number[]; };
+
+export type TemplateSaveOutcome = 'created' | 'updated' | 'not_found' | 'conflict' | 'invalid';
+
+export interface TemplateSaveResult {
+  outcome: TemplateSaveOutcome;
+  template?: LabelTemplate;
+  error?: string;
+}
+
+export interface LabelAssetInput {
+  name?: string;
+  mimeType: string;
+  content: string; // base64
+}
+
+// Logos, images and fonts that labels reference as asset://<id>
+export interface LabelAsset {
+  id: string;
+  name?: string;
+  mimeType: string;
+  size: number;
+  hash: string; // sha256 of the content, changes the rendered URL when the asset is replaced
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface LabelAssetContent {
+  asset: LabelAsset;
+  content: string; // base64
+}
+
+export type AssetSaveOutcome = 'created' | 'updated' | 'invalid';
+
+export interface AssetSaveResult {
+  outcome: AssetSaveOutcome;
+  asset?: LabelAsset;
+  error?: string;
+}
+
+export type WebhookEventType = Extract<JobEventType, 'job.completed' | 'job.failed' | 'job.retrying'>;
+
+export interface WebhookSubscription {
+  id: string;
+  url: string;
+  events: WebhookEventType[];
+  secret: string; // HMAC key, only returned when the subscription is created
+  description?: string;
+  createdAt: number;
+}
+
+export type WebhookSubscriptionSummary = Omit<WebhookSubscription, 'secret'>;
+
+export interface WebhookPayload {
+  deliveryId: string;
+  event: WebhookEventType;
+  timestamp: number;
+  job: JobSummary;
+  clientId?: string;
+  attempts: JobAttempt[];
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+export interface WebhookDeliveryAttempt {
+  timestamp: number;
+  durationMs: number;
+  statusCode?: number;
+  error?: string;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  webhookId?: string; // unset for a job's metadata.callbackUrl
+  url: string;
+  event: WebhookEventType;
+  jobId: string;
+  status: WebhookDeliveryStatus;
+  attempts: WebhookDeliveryAttempt[];
+  nextAttemptAt?: number;
+  createdAt: number;
+  payload: WebhookPayload;
+}
+
+export interface WebhookDeliveryQuery {
+  webhookId?: string;
+  jobId?: string;
+  status?: WebhookDeliveryStatus;
+  limit?: number;
 }
 
 export interface PrinterStatus {
@@ -70,11 +389,34 @@ export interface ServerMetrics {
   activePrinters: number;
 }
 
+export interface ClusterWorkerStatus {
+  id: number;
+  pid?: number;
+  requests: number;
+}
+
+export interface ClusterStatus {
+  mode: 'standalone' | 'cluster';
+  primaryPid: number;
+  workers: ClusterWorkerStatus[];
+}
+
+export interface PrinterLaneStatus {
+  printerName: string;
+  queued: number;
+  inFlight: number;
+  maxInFlight: number;
+  weight: number;
+}
+
 export interface QueueStatus {
   queued: number;
   processing: number;
   completed: number;
   failed: number;
+  cancelled: number;
+  expired: number;
+  deadLettered: number;
 }
 
 export interface ServerConfig {
@@ -151,6 +493,12 @@ export interface HealthCheckResponse {
   memory: NodeJS.MemoryUsage;
 }
 
+export type IdempotencyLookup =
+  | { state: 'new'; }
+  | { state: 'in_progress'; }
+  | { state: 'mismatch'; }
+  | { state: 'replay'; statusCode: number; body: any; };
+
 export interface FailedLabel {
   userId: string;
   name: string;
@@ -159,12 +507,14 @@ export interface FailedLabel {
 }
 
 export interface SubmitResponse {
+  submissionId: string;
   jobIds: string[];
   totalLabels: number;
   processingTime: number;
 }
 
 export interface PartialSuccessResponse {
+  submissionId: string;
   successfulJobs: string[];
   failedLabels: FailedLabel[];
   totalLabels: number;
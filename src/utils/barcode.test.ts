@@ -0,0 +1,48 @@
+import { expandBarcodes, renderBarcodeSvg } from './barcode';
+
+const sizeOf = (svg: string): { width: number; height: number } => {
+  const [, width, height] = svg.match(/width="([\d.]+)in" height="([\d.]+)in"/)!;
+  return { width: parseFloat(width), height: parseFloat(height) };
+};
+
+describe('renderBarcodeSvg', () => {
+  it('sizes a QR code so every cell covers whole printer dots', () => {
+    const svg: string = renderBarcodeSvg({ type: 'qrcode', value: 'ABC123', moduleDots: 3 }, 300);
+    const { width, height } = sizeOf(svg);
+
+    expect(svg).toContain('shape-rendering="crispEdges"');
+    expect(width).toBe(height);
+    expect(Math.round(width * 300) % 3).toBe(0);
+  });
+
+  it('draws linear codes at the requested bar height', () => {
+    const { height } = sizeOf(renderBarcodeSvg({ type: 'code128', value: 'ABC123', height: 12.7 }, 203));
+
+    expect(height).toBeCloseTo(0.5, 1);
+  });
+
+  it('reports values a symbology cannot encode without the bwip-js prefix', () => {
+    expect(() => renderBarcodeSvg({ type: 'code39', value: 'lower~case' }, 203)).toThrow(/^Code 39 must contain only/);
+  });
+});
+
+describe('expandBarcodes', () => {
+  it('replaces every placeholder with an SVG and leaves the rest of the HTML alone', () => {
+    const html: string = expandBarcodes('<p>A</p><barcode type="qrcode" value="1"></barcode><barcode type=code128 value=\'2\'/>', 203);
+
+    expect(html.startsWith('<p>A</p><svg ')).toBe(true);
+    expect(html.match(/<svg /g)).toHaveLength(2);
+    expect(html).not.toContain('<barcode');
+  });
+
+  it('decodes entities in attribute values', () => {
+    expect(expandBarcodes('<barcode type="code128" value="A&amp;B">', 203))
+      .toBe(renderBarcodeSvg({ type: 'code128', value: 'A&B', includeText: false }, 203));
+  });
+
+  it('rejects unknown types, missing values and bad sizes', () => {
+    expect(() => expandBarcodes('<barcode type="upc" value="1">', 203)).toThrow("Unknown barcode type 'upc'");
+    expect(() => expandBarcodes('<barcode type="qrcode">', 203)).toThrow('qrcode barcode has no value');
+    expect(() => expandBarcodes('<barcode type="qrcode" value="1" module-dots="1.5">', 203)).toThrow("Invalid barcode module-dots '1.5'");
+  });
+});
@@ -0,0 +1,111 @@
+// src/utils/barcode.ts - Code128, Code39, QR and DataMatrix barcodes as inline SVG
+import bwipjs from 'bwip-js';
+import { BarcodeType } from '../types';
+
+export const BARCODE_TYPES: BarcodeType[] = ['code128', 'code39', 'qrcode', 'datamatrix'];
+
+const MATRIX_TYPES: BarcodeType[] = ['qrcode', 'datamatrix'];
+
+export interface BarcodeOptions {
+  type: BarcodeType;
+  value: string;
+  height?: number;       // bar height in mm, linear codes only
+  moduleDots?: number;   // printer dots per bar module or matrix cell
+  includeText?: boolean; // human-readable value under linear codes
+}
+
+const DEFAULT_HEIGHT_MM: number = 10;
+const DEFAULT_MODULE_DOTS: number = 2;
+const TEXT_SIZE_PT: number = 8;
+
+// The SVG is sized so every module covers a whole number of printer dots, so bars don't
+// blur or vary in width when the label is rasterized at the printer's resolution
+export const renderBarcodeSvg = (options: BarcodeOptions, dpi: number): string => {
+  const isMatrix: boolean = MATRIX_TYPES.includes(options.type);
+
+  // At scale 1 bwip-js draws bar modules one unit wide and matrix cells two units wide
+  const unitsPerModule: number = isMatrix ? 2 : 1;
+  const inchesPerUnit: number = (options.moduleDots ?? DEFAULT_MODULE_DOTS) / dpi / unitsPerModule;
+
+  // bwip-js takes bar height in mm and text size in points at 72 units per inch
+  const pointScale: number = 1 / (72 * inchesPerUnit);
+
+  let svg: string;
+  try {
+    svg = bwipjs.toSVG({
+      bcid: options.type,
+      text: options.value,
+      scale: 1,
+      ...(isMatrix ? {} : {
+        height: (options.height ?? DEFAULT_HEIGHT_MM) * pointScale,
+        includetext: options.includeText ?? false,
+        textxalign: 'center',
+        textsize: TEXT_SIZE_PT * pointScale
+      })
+    });
+  } catch (error: any) {
+    // "bwipp.code39badCharacter#10257: Code 39 must contain only ..." -> the readable part
+    throw new Error(String(error.message ?? error).replace(/^bwipp\.\w+#\d+:\s*/, ''));
+  }
+
+  const viewBox: RegExpMatchArray | null = svg.match(/viewBox="0 0 ([\d.]+) ([\d.]+)"/);
+  if (!viewBox) {
+    throw new Error(`Unexpected SVG output for ${options.type}`);
+  }
+
+  const width: string = (parseFloat(viewBox[1]) * inchesPerUnit).toFixed(4);
+  const height: string = (parseFloat(viewBox[2]) * inchesPerUnit).toFixed(4);
+
+  return svg.trim().replace('<svg ', `<svg width="${width}in" height="${height}in" shape-rendering="crispEdges" `);
+};
+
+// <barcode type="qrcode" value="..." height="12" module-dots="3" text="true"></barcode>
+const PLACEHOLDER_PATTERN: RegExp = /<barcode\b([^>]*?)\/?>(?:\s*<\/barcode>)?/gi;
+const ATTRIBUTE_PATTERN: RegExp = /([\w-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>/]+))/g;
+
+const decodeEntities = (value: string): string => value
+  .replace(/&#(\d+);/g, (_: string, code: string): string => String.fromCodePoint(parseInt(code, 10)))
+  .replace(/&#x([\da-f]+);/gi, (_: string, code: string): string => String.fromCodePoint(parseInt(code, 16)))
+  .replace(/&quot;/g, '"')
+  .replace(/&#39;|&apos;/g, "'")
+  .replace(/&lt;/g, '<')
+  .replace(/&gt;/g, '>')
+  .replace(/&amp;/g, '&');
+
+const parsePlaceholder = (attributeSource: string): BarcodeOptions => {
+  const attributes: Record<string, string> = {};
+  for (const [, name, doubleQuoted, singleQuoted, unquoted] of attributeSource.matchAll(ATTRIBUTE_PATTERN)) {
+    attributes[name.toLowerCase()] = decodeEntities(doubleQuoted ?? singleQuoted ?? unquoted);
+  }
+
+  const type = (attributes.type ?? '').toLowerCase() as BarcodeType;
+  if (!BARCODE_TYPES.includes(type)) {
+    throw new Error(`Unknown barcode type '${attributes.type ?? ''}', expected one of ${BARCODE_TYPES.join(', ')}`);
+  }
+  if (!attributes.value) {
+    throw new Error(`${type} barcode has no value`);
+  }
+
+  const height: number | undefined = attributes.height !== undefined ? Number(attributes.height) : undefined;
+  if (height !== undefined && !(height > 0)) {
+    throw new Error(`Invalid barcode height '${attributes.height}'`);
+  }
+
+  const moduleDots: number | undefined = attributes['module-dots'] !== undefined ? Number(attributes['module-dots']) : undefined;
+  if (moduleDots !== undefined && !(Number.isInteger(moduleDots) && moduleDots > 0)) {
+    throw new Error(`Invalid barcode module-dots '${attributes['module-dots']}'`);
+  }
+
+  return {
+    type,
+    value: attributes.value,
+    height,
+    moduleDots,
+    includeText: attributes.text === 'true'
+  };
+};
+
+// Replaces every <barcode> placeholder; throws on the first one that can't be encoded
+export const expandBarcodes = (html: string, dpi: number): string =>
+  html.replace(PLACEHOLDER_PATTERN, (_: string, attributeSource: string): string =>
+    renderBarcodeSvg(parsePlaceholder(attributeSource), dpi));
@@ -0,0 +1,63 @@
+import { existsSync } from 'fs';
+import puppeteer from 'puppeteer';
+import { resolveChromeExecutable } from './chrome';
+import { config } from '../config';
+
+jest.mock('fs', () => ({ ...jest.requireActual('fs'), existsSync: jest.fn() }));
+jest.mock('puppeteer', () => ({ __esModule: true, default: { executablePath: jest.fn() } }));
+
+const exists = existsSync as jest.MockedFunction<typeof existsSync>;
+const executablePath = puppeteer.executablePath as jest.Mock;
+
+const installed = (...paths: string[]): void => {
+  exists.mockImplementation((path): boolean => paths.includes(String(path)));
+};
+
+describe('resolveChromeExecutable', () => {
+  const printing = { ...config.printing };
+  const platform: PropertyDescriptor = Object.getOwnPropertyDescriptor(process, 'platform')!;
+
+  beforeEach(() => {
+    Object.defineProperty(process, 'platform', { value: 'linux' });
+    config.printing.chromePath = '';
+    executablePath.mockReturnValue('/root/.cache/puppeteer/chrome/linux/chrome');
+  });
+
+  afterEach(() => {
+    Object.defineProperty(process, 'platform', platform);
+    Object.assign(config.printing, printing);
+  });
+
+  it('uses CHROME_PATH when it exists', () => {
+    config.printing.chromePath = '/opt/chrome/chrome';
+    installed('/opt/chrome/chrome', '/usr/bin/google-chrome');
+
+    expect(resolveChromeExecutable()).toEqual({ path: '/opt/chrome/chrome', source: 'config' });
+  });
+
+  it('does not fall back when CHROME_PATH is missing', () => {
+    config.printing.chromePath = '/opt/chrome/chrome';
+    installed('/usr/bin/google-chrome');
+
+    expect(() => resolveChromeExecutable()).toThrow('CHROME_PATH /opt/chrome/chrome does not exist');
+  });
+
+  it('prefers an installed Chrome over Chromium', () => {
+    installed('/usr/bin/chromium', '/usr/bin/google-chrome');
+
+    expect(resolveChromeExecutable()).toEqual({ path: '/usr/bin/google-chrome', source: 'system' });
+  });
+
+  it('falls back to the Puppeteer download', () => {
+    installed('/root/.cache/puppeteer/chrome/linux/chrome');
+
+    expect(resolveChromeExecutable()).toEqual({ path: '/root/.cache/puppeteer/chrome/linux/chrome', source: 'bundled' });
+  });
+
+  it('explains where it looked when nothing is installed', () => {
+    installed();
+    executablePath.mockImplementation(() => { throw new Error('Could not find Chrome'); });
+
+    expect(() => resolveChromeExecutable()).toThrow(/^Chrome not found in \/usr\/bin\/google-chrome-stable, .* set CHROME_PATH$/);
+  });
+});
@@ -0,0 +1,73 @@
+// src/utils/chrome.ts - Which Chrome executable the renderer launches
+import { existsSync } from 'fs';
+import { homedir } from 'os';
+import { join } from 'path';
+import puppeteer from 'puppeteer';
+import { config } from '../config';
+
+export type ChromeSource = 'config' | 'system' | 'bundled';
+
+export interface ChromeExecutable {
+  path: string;
+  source: ChromeSource;
+}
+
+// Standard install locations, in order of preference
+const getSystemChromePaths = (): string[] => {
+  switch (process.platform) {
+    case 'win32':
+      return [
+        join(process.env.PROGRAMFILES || 'C:\\Program Files', 'Google\\Chrome\\Application\\chrome.exe'),
+        join(process.env['PROGRAMFILES(X86)'] || 'C:\\Program Files (x86)', 'Google\\Chrome\\Application\\chrome.exe'),
+        ...(process.env.LOCALAPPDATA ? [join(process.env.LOCALAPPDATA, 'Google\\Chrome\\Application\\chrome.exe')] : [])
+      ];
+    case 'darwin':
+      return [
+        '/Applications/Google Chrome.app/Contents/MacOS/Google Chrome',
+        join(homedir(), 'Applications/Google Chrome.app/Contents/MacOS/Google Chrome'),
+        '/Applications/Chromium.app/Contents/MacOS/Chromium'
+      ];
+    default:
+      return [
+        '/usr/bin/google-chrome-stable',
+        '/usr/bin/google-chrome',
+        '/opt/google/chrome/chrome',
+        '/usr/bin/chromium',
+        '/usr/bin/chromium-browser',
+        '/snap/bin/chromium'
+      ];
+  }
+};
+
+// Puppeteer's own download, if one was installed with the package
+const getBundledChromePath = (): string | undefined => {
+  try {
+    return puppeteer.executablePath();
+  } catch {
+    return undefined;
+  }
+};
+
+// CHROME_PATH wins and must exist; otherwise the first installed Chrome or Chromium,
+// then Puppeteer's bundled build
+export const resolveChromeExecutable = (): ChromeExecutable => {
+  if (config.printing.chromePath) {
+    if (!existsSync(config.printing.chromePath)) {
+      throw new Error(`CHROME_PATH ${config.printing.chromePath} does not exist`);
+    }
+    return { path: config.printing.chromePath, source: 'config' };
+  }
+
+  const candidates: string[] = getSystemChromePaths();
+  const systemPath: string | undefined = candidates.find((path: string): boolean => existsSync(path));
+  if (systemPath) {
+    return { path: systemPath, source: 'system' };
+  }
+
+  const bundledPath: string | undefined = getBundledChromePath();
+  if (bundledPath && existsSync(bundledPath)) {
+    return { path: bundledPath, source: 'bundled' };
+  }
+
+  throw new Error(`Chrome not found in ${candidates.join(', ')} or the Puppeteer cache; set CHROME_PATH`);
+};
@@ -0,0 +1,35 @@
+import { acceptsContentType, getAllowedContentTypes, getContentType, isRawLabel } from './contentTypes';
+import { config } from '../config';
+import { PrintLabel } from '../types';
+
+describe('contentTypes', () => {
+  const printing = { ...config.printing };
+
+  beforeEach(() => {
+    config.printing.defaultContentTypes = ['html', 'pdf'];
+    config.printing.printerContentTypes = { 'Nursery Zebra': 'html | zpl' };
+  });
+
+  afterEach(() => {
+    Object.assign(config.printing, printing);
+  });
+
+  it('treats labels without a content type as HTML', () => {
+    const label = { printerName: 'Nursery Zebra', htmlContent: '' } as PrintLabel;
+
+    expect(getContentType(label)).toBe('html');
+    expect(isRawLabel(label)).toBe(false);
+    expect(isRawLabel({ ...label, contentType: 'zpl', content: '' } as PrintLabel)).toBe(true);
+  });
+
+  it('uses the per-printer allowlist where there is one', () => {
+    expect(getAllowedContentTypes('Nursery Zebra')).toEqual(['html', 'zpl']);
+    expect(acceptsContentType('Nursery Zebra', 'zpl')).toBe(true);
+    expect(acceptsContentType('Nursery Zebra', 'pdf')).toBe(false);
+  });
+
+  it('falls back to the default content types for other printers', () => {
+    expect(acceptsContentType('Office Laser', 'pdf')).toBe(true);
+    expect(acceptsContentType('Office Laser', 'zpl')).toBe(false);
+  });
+});
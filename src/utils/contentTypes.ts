@@ -0,0 +1,16 @@
+// src/utils/contentTypes.ts - Label content types and which printers accept them
+
+import { LabelContentType, PrintLabel, RawPrintLabel } from '../types';
+import { config } from '../config';
+
+export const getContentType = (label: PrintLabel): LabelContentType => label.contentType ?? 'html';
+
+export const isRawLabel = (label: PrintLabel): label is RawPrintLabel => getContentType(label) !== 'html';
+
+export const getAllowedContentTypes = (printerName: string): LabelContentType[] => {
+  const allowed: string | undefined = config.printing.printerContentTypes[printerName];
+  return (allowed ? allowed.split('|').map((type: string): string => type.trim()) : config.printing.defaultContentTypes) as LabelContentType[];
+};
+
+export const acceptsContentType = (printerName: string, contentType: LabelContentType): boolean =>
+  getAllowedContentTypes(printerName).includes(contentType);
@@ -0,0 +1,45 @@
+import { getErrorStatusCode, getFailureCategory, PrintError, StatusError, toPrintError } from './errors';
+
+describe('toPrintError', () => {
+  it('keeps the category of an existing print error', () => {
+    const error = new PrintError('spooler offline', 'spool');
+
+    expect(toPrintError(error, 'render')).toBe(error);
+  });
+
+  it('classifies a dead Chrome as a browser crash', () => {
+    const error: PrintError = toPrintError(new Error('Protocol error (Page.printToPDF): Target closed'), 'render');
+
+    expect(error.category).toBe('browser_crash');
+    expect(error.message).toBe('Protocol error (Page.printToPDF): Target closed');
+  });
+
+  it('uses the fallback category for anything else', () => {
+    expect(toPrintError(new Error('Invalid HTML'), 'render').category).toBe('render');
+    expect(toPrintError('plain string', 'spool')).toEqual(expect.objectContaining({ message: 'plain string', category: 'spool' }));
+  });
+});
+
+describe('getFailureCategory', () => {
+  it('treats errors that are not print errors as unknown', () => {
+    expect(getFailureCategory(new PrintError('offline', 'printer_unavailable'))).toBe('printer_unavailable');
+    expect(getFailureCategory(new Error('boom'))).toBe('unknown');
+  });
+});
+
+describe('getErrorStatusCode', () => {
+  it('uses the status of a status error', () => {
+    expect(getErrorStatusCode(new StatusError('Print service call getMetrics timeout after 2000ms', 504))).toBe(504);
+  });
+
+  it('maps print error categories to a status', () => {
+    expect(getErrorStatusCode(new PrintError('Invalid ZPL', 'invalid_content'))).toBe(422);
+    expect(getErrorStatusCode(new PrintError('offline', 'printer_unavailable'))).toBe(503);
+    expect(getErrorStatusCode(new PrintError('boom', 'unknown'), 400)).toBe(400);
+  });
+
+  it('falls back for other errors', () => {
+    expect(getErrorStatusCode(new Error('boom'))).toBe(500);
+    expect(getErrorStatusCode(new Error('boom'), 404)).toBe(404);
+  });
+});
@@ -0,0 +1,63 @@
+// src/utils/errors.ts - Categorized print failures that drive the retry policy, and errors that carry an HTTP status
+import { FailureCategory } from '../types';
+
+export class PrintError extends Error {
+  constructor(message: string, public readonly category: FailureCategory) {
+    super(message);
+    this.name = 'PrintError';
+  }
+}
+
+// An error that tells the route which HTTP status to answer with
+export class StatusError extends Error {
+  constructor(message: string, public readonly statusCode: number) {
+    super(message);
+    this.name = 'StatusError';
+  }
+}
+
+// Puppeteer reports a dead or disconnected Chrome through these messages
+const BROWSER_CRASH_PATTERNS: RegExp[] = [
+  /target closed/i,
+  /session closed/i,
+  /browser has disconnected/i,
+  /browser not available/i,
+  /connection closed/i,
+  /protocol error/i
+];
+
+// Wraps any error as a PrintError, keeping an existing category
+export const toPrintError = (error: any, fallback: FailureCategory): PrintError => {
+  if (error instanceof PrintError) {
+    return error;
+  }
+
+  const message: string = error?.message ?? String(error);
+  const category: FailureCategory = BROWSER_CRASH_PATTERNS.some((pattern: RegExp): boolean => pattern.test(message))
+    ? 'browser_crash'
+    : fallback;
+
+  const printError = new PrintError(message, category);
+  printError.stack = error?.stack ?? printError.stack;
+  return printError;
+};
+
+export const getFailureCategory = (error: any): FailureCategory =>
+  error instanceof PrintError ? error.category : 'unknown';
+
+const CATEGORY_STATUS_CODES: Record<FailureCategory, number | undefined> = {
+  invalid_content: 422,
+  printer_unavailable: 503,
+  browser_crash: 503,
+  render: 500,
+  spool: 502,
+  unknown: undefined
+};
+
+// HTTP status for an error that reaches a route: a StatusError's own, then the
+// PrintError category, then the route's fallback
+export const getErrorStatusCode = (error: any, fallback: number = 500): number => {
+  if (error instanceof StatusError) return error.statusCode;
+  if (error instanceof PrintError) return CATEGORY_STATUS_CODES[error.category] ?? fallback;
+  return fallback;
+};
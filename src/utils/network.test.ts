@@ -0,0 +1,66 @@
+import { isCallbackUrlAllowed, isHostAllowed, isRequestAllowed } from './network';
+import { config } from '../config';
+
+describe('render network allowlist', () => {
+  const printing = { ...config.printing };
+  const webhooks = { ...config.webhooks };
+
+  beforeEach(() => {
+    config.printing.renderAllowedHosts = ['cdn.example.org', '*.church.example'];
+  });
+
+  afterEach(() => {
+    Object.assign(config.printing, printing);
+    Object.assign(config.webhooks, webhooks);
+  });
+
+  it('matches exact hosts and subdomain wildcards', () => {
+    expect(isHostAllowed('cdn.example.org')).toBe(true);
+    expect(isHostAllowed('CDN.Example.org')).toBe(true);
+    expect(isHostAllowed('fonts.church.example')).toBe(true);
+    expect(isHostAllowed('evil-cdn.example.org')).toBe(false);
+    expect(isHostAllowed('church.example')).toBe(false);
+  });
+
+  it('allows any host with *', () => {
+    config.printing.renderAllowedHosts = ['*'];
+
+    expect(isHostAllowed('anything.test')).toBe(true);
+  });
+
+  it('allows no host when the list is empty', () => {
+    config.printing.renderAllowedHosts = [];
+
+    expect(isHostAllowed('cdn.example.org')).toBe(false);
+  });
+
+  it('always allows inline content', () => {
+    config.printing.renderAllowedHosts = [];
+
+    expect(isRequestAllowed('data:image/png;base64,AAAA')).toBe(true);
+    expect(isRequestAllowed('about:blank')).toBe(true);
+  });
+
+  it('only allows http(s) requests to allowed hosts', () => {
+    expect(isRequestAllowed('https://cdn.example.org/logo.png')).toBe(true);
+    expect(isRequestAllowed('http://169.254.169.254/latest/meta-data')).toBe(false);
+    expect(isRequestAllowed('file:///etc/passwd')).toBe(false);
+    expect(isRequestAllowed('ftp://cdn.example.org/logo.png')).toBe(false);
+    expect(isRequestAllowed('not a url')).toBe(false);
+  });
+
+  it('checks callback URLs against their own allowlist', () => {
+    config.webhooks.callbackAllowedHosts = ['checkin.example.org'];
+
+    expect(isCallbackUrlAllowed('https://checkin.example.org/print-callback')).toBe(true);
+    expect(isCallbackUrlAllowed('https://cdn.example.org/print-callback')).toBe(false);
+    expect(isCallbackUrlAllowed('file:///etc/passwd')).toBe(false);
+    expect(isCallbackUrlAllowed('not a url')).toBe(false);
+  });
+
+  it('allows no callback host when the list is empty', () => {
+    config.webhooks.callbackAllowedHosts = [];
+
+    expect(isCallbackUrlAllowed('https://checkin.example.org/print-callback')).toBe(false);
+  });
+});
@@ -0,0 +1,42 @@
+// src/utils/network.ts - Which hosts label rendering and job callbacks may reach
+import { config } from '../config';
+
+// Inline and in-page content never leaves the process
+const LOCAL_PROTOCOLS: string[] = ['data:', 'blob:', 'about:'];
+
+const parseUrl = (url: string): URL | undefined => {
+  try {
+    return new URL(url);
+  } catch {
+    return undefined;
+  }
+};
+
+const isHttp = (url: URL): boolean => url.protocol === 'http:' || url.protocol === 'https:';
+
+// 'cdn.example.org' matches that host, '*.example.org' its subdomains, '*' any host
+export const isHostAllowed = (hostname: string, allowedHosts: string[] = config.printing.renderAllowedHosts): boolean =>
+  allowedHosts.some((pattern: string): boolean => {
+    const host: string = hostname.toLowerCase();
+    const allowed: string = pattern.toLowerCase();
+
+    if (allowed === '*') return true;
+    if (allowed.startsWith('*.')) return host.endsWith(allowed.slice(1));
+    return host === allowed;
+  });
+
+// Everything else, including file: URLs, is refused
+export const isRequestAllowed = (url: string): boolean => {
+  const parsed: URL | undefined = parseUrl(url);
+  if (!parsed) return false;
+
+  if (LOCAL_PROTOCOLS.includes(parsed.protocol)) return true;
+  return isHttp(parsed) && isHostAllowed(parsed.hostname);
+};
+
+// metadata.callbackUrl comes from whoever submits labels, so callbacks only go to
+// WEBHOOK_CALLBACK_ALLOWED_HOSTS; admin-registered subscriptions are not limited
+export const isCallbackUrlAllowed = (url: string): boolean => {
+  const parsed: URL | undefined = parseUrl(url);
+  return parsed !== undefined && isHttp(parsed) && isHostAllowed(parsed.hostname, config.webhooks.callbackAllowedHosts);
+};
@@ -1,3 +1,5 @@
+import { RetryPolicy } from '../types';
+
 export const parseNumber = (value: string | undefined, defaultValue: number): number => {
   if (!value) return defaultValue;
   const parsed = parseInt(value, 10);
@@ -12,4 +14,39 @@ export const parseBoolean = (value: string | undefined, defaultValue: boolean):
 export const parseArray = (value: string | undefined, defaultValue: string[]): string[] => {
   if (!value) return defaultValue;
   return value.split(',').map(item => item.trim()).filter(item => item.length > 0);
+};
+
+// "--no-sandbox --lang=en-US" -> ['--no-sandbox', '--lang=en-US']; whitespace-separated since flags contain commas
+export const parseArgs = (value: string | undefined, defaultValue: string[]): string[] => {
+  if (!value) return defaultValue;
+  return value.split(/\s+/).filter(item => item.length > 0);
+};
+
+// "Nursery Zebra:2,Lobby:1" -> { 'Nursery Zebra': '2', Lobby: '1' }
+export const parseRecord = (value: string | undefined, defaultValue: Record<string, string>): Record<string, string> => {
+  if (!value) return defaultValue;
+  return Object.fromEntries(
+    parseArray(value, [])
+      .map(item => [item.slice(0, item.lastIndexOf(':')).trim(), item.slice(item.lastIndexOf(':') + 1).trim()])
+      .filter(([key, entry]) => key.length > 0 && entry.length > 0)
+  );
+};
+
+export const parseNumberRecord = (value: string | undefined, defaultValue: Record<string, number>): Record<string, number> => {
+  if (!value) return defaultValue;
+  return Object.fromEntries(
+    Object.entries(parseRecord(value, {}))
+      .map(([key, entry]) => [key, parseInt(entry, 10)])
+      .filter(([, entry]) => !isNaN(entry as number))
+  );
+};
+
+// "maxAttempts:3,baseDelayMs:1000" -> defaults overridden by the given fields
+export const parseRetryPolicy = (value: string | undefined, defaultValue: RetryPolicy): RetryPolicy => {
+  const overrides: Record<string, number> = parseNumberRecord(value, {});
+  return {
+    maxAttempts: overrides.maxAttempts ?? defaultValue.maxAttempts,
+    baseDelayMs: overrides.baseDelayMs ?? defaultValue.baseDelayMs,
+    maxDelayMs: overrides.maxDelayMs ?? defaultValue.maxDelayMs
+  };
 };
\ No newline at end of file
@@ -0,0 +1,57 @@
+import { PDFDocument } from 'pdf-lib';
+import { getCopyMode, repeatPdfPages } from './pdf';
+import { config } from '../config';
+import { CopyMode } from '../types';
+import { PrintError } from './errors';
+
+// A label whose pages have distinct widths, so their order can be checked after copying
+const makePdf = async (widths: number[]): Promise<Uint8Array> => {
+  const document: PDFDocument = await PDFDocument.create();
+  widths.forEach((width: number): void => {
+    document.addPage([width, 72]);
+  });
+  return document.save();
+};
+
+const pageWidths = async (pdf: Uint8Array): Promise<number[]> =>
+  (await PDFDocument.load(pdf)).getPages().map((page) => page.getWidth());
+
+describe('repeatPdfPages', () => {
+  it('repeats every page once per copy, keeping copies collated', async () => {
+    const pdf: Uint8Array = await repeatPdfPages(await makePdf([144, 216]), 3);
+
+    expect(await pageWidths(pdf)).toEqual([144, 216, 144, 216, 144, 216]);
+  });
+
+  it('reports a PDF it cannot read as invalid content', async () => {
+    const copying: Promise<Uint8Array> = repeatPdfPages(Buffer.from('not a pdf'), 2);
+
+    await expect(copying).rejects.toBeInstanceOf(PrintError);
+    await expect(copying).rejects.toEqual(expect.objectContaining({ category: 'invalid_content' }));
+  });
+});
+
+describe('getCopyMode', () => {
+  const printing = { ...config.printing };
+
+  beforeEach(() => {
+    config.printing.defaultCopyMode = 'multi-page';
+    config.printing.printerCopyModes = { 'Office Laser': 'per-copy', 'Lobby Zebra': 'bogus' as CopyMode };
+  });
+
+  afterEach(() => {
+    Object.assign(config.printing, printing);
+  });
+
+  it('uses the printer\'s copy mode, then the default', () => {
+    expect(getCopyMode('Office Laser')).toBe('per-copy');
+    expect(getCopyMode('Nursery Zebra')).toBe('multi-page');
+
+    config.printing.defaultCopyMode = 'driver';
+    expect(getCopyMode('Nursery Zebra')).toBe('driver');
+  });
+
+  it('falls back to a multi-page job for an unknown mode', () => {
+    expect(getCopyMode('Lobby Zebra')).toBe('multi-page');
+  });
+});
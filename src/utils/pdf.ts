@@ -0,0 +1,35 @@
+// src/utils/pdf.ts - Copies of a PDF label submitted as a single spool job
+import { PDFDocument, PDFPage } from 'pdf-lib';
+import { CopyMode } from '../types';
+import { config } from '../config';
+import { PrintError } from './errors';
+
+export const COPY_MODES: CopyMode[] = ['multi-page', 'driver', 'per-copy'];
+
+// Unknown modes in the environment fall back to a single multi-page job
+export const getCopyMode = (printerName: string): CopyMode => {
+  const mode: CopyMode = config.printing.printerCopyModes[printerName] ?? config.printing.defaultCopyMode;
+  return COPY_MODES.includes(mode) ? mode : 'multi-page';
+};
+
+// Every page of the label, once per copy: copies stay collated and in order
+export const repeatPdfPages = async (pdf: Uint8Array, copies: number): Promise<Uint8Array> => {
+  let source: PDFDocument;
+  try {
+    source = await PDFDocument.load(pdf);
+  } catch (error: any) {
+    throw new PrintError(`PDF could not be read to combine copies: ${error.message}`, 'invalid_content');
+  }
+
+  const combined: PDFDocument = await PDFDocument.create();
+  const pageIndices: number[] = source.getPageIndices();
+
+  for (let copy = 0; copy < copies; copy++) {
+    const pages: PDFPage[] = await combined.copyPages(source, pageIndices);
+    pages.forEach((page: PDFPage): void => {
+      combined.addPage(page);
+    });
+  }
+
+  return combined.save();
+};
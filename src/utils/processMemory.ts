@@ -0,0 +1,66 @@
+// src/utils/processMemory.ts - Resident memory of a process and its children (e.g. Chrome and its renderers)
+import { exec } from 'child_process';
+import { promisify } from 'util';
+
+const execAsync = promisify(exec);
+
+interface ProcessEntry {
+  pid: number;
+  ppid: number;
+  rssBytes: number;
+}
+
+const listProcesses = async (): Promise<ProcessEntry[]> => {
+  if (process.platform === 'win32') {
+    const command: string = `powershell -Command "Get-CimInstance Win32_Process | Select-Object ProcessId, ParentProcessId, WorkingSetSize | ConvertTo-Json -Compress"`;
+    const { stdout } = await execAsync(command, { timeout: 10000, maxBuffer: 16 * 1024 * 1024 });
+    const parsed: any = JSON.parse(stdout);
+
+    return (Array.isArray(parsed) ? parsed : [parsed]).map((entry: any): ProcessEntry => ({
+      pid: Number(entry.ProcessId),
+      ppid: Number(entry.ParentProcessId),
+      rssBytes: Number(entry.WorkingSetSize) || 0
+    }));
+  }
+
+  // pid, parent pid and resident set size in KB
+  const { stdout } = await execAsync('ps -A -o pid=,ppid=,rss=', { timeout: 10000, maxBuffer: 16 * 1024 * 1024 });
+  return stdout
+    .split('\n')
+    .map((line: string): number[] => line.trim().split(/\s+/).map(Number))
+    .filter((fields: number[]): boolean => fields.length === 3 && fields.every((field: number): boolean => !isNaN(field)))
+    .map(([pid, ppid, rssKb]): ProcessEntry => ({ pid, ppid, rssBytes: rssKb * 1024 }));
+};
+
+// Total resident bytes of each root pid and all of its descendants, from one process listing
+export const getProcessTreeMemory = async (rootPids: number[]): Promise<Map<number, number>> => {
+  const processes: ProcessEntry[] = await listProcesses();
+  const children: Map<number, ProcessEntry[]> = new Map();
+
+  processes.forEach((entry: ProcessEntry): void => {
+    children.set(entry.ppid, [...(children.get(entry.ppid) ?? []), entry]);
+  });
+
+  const totals: Map<number, number> = new Map();
+  for (const rootPid of rootPids) {
+    const root: ProcessEntry | undefined = processes.find((entry: ProcessEntry): boolean => entry.pid === rootPid);
+    if (!root) continue;
+
+    let total: number = 0;
+    const pending: ProcessEntry[] = [root];
+    const seen: Set<number> = new Set();
+
+    while (pending.length > 0) {
+      const entry: ProcessEntry = pending.pop()!;
+      if (seen.has(entry.pid)) continue;
+      seen.add(entry.pid);
+
+      total += entry.rssBytes;
+      pending.push(...(children.get(entry.pid) ?? []));
+    }
+
+    totals.set(rootPid, total);
+  }
+
+  return totals;
+};
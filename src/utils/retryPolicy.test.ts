@@ -0,0 +1,39 @@
+import { computeRetryDelay, getRetryPolicy, shouldRetry } from './retryPolicy';
+import { config } from '../config';
+import { RetryPolicy } from '../types';
+
+describe('retryPolicy', () => {
+  const printing = { ...config.printing };
+  const policy: RetryPolicy = { maxAttempts: 4, baseDelayMs: 1000, maxDelayMs: 5000 };
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    Object.assign(config.printing, printing);
+  });
+
+  it('falls back to the unknown policy for an unclassified failure', () => {
+    expect(getRetryPolicy()).toBe(config.printing.retryPolicies.unknown);
+    expect(getRetryPolicy('spool')).toBe(config.printing.retryPolicies.spool);
+  });
+
+  it('retries until the attempt limit is reached', () => {
+    expect(shouldRetry(policy, 3)).toBe(true);
+    expect(shouldRetry(policy, 4)).toBe(false);
+  });
+
+  it('doubles the delay per attempt up to the cap', () => {
+    config.printing.retryJitter = false;
+
+    expect([1, 2, 3, 4].map((attempt: number) => computeRetryDelay(policy, attempt))).toEqual([1000, 2000, 4000, 5000]);
+  });
+
+  it('draws a jittered delay from the upper half of the window', () => {
+    config.printing.retryJitter = true;
+
+    jest.spyOn(Math, 'random').mockReturnValue(0);
+    expect(computeRetryDelay(policy, 2)).toBe(1000);
+
+    jest.spyOn(Math, 'random').mockReturnValue(0.999);
+    expect(computeRetryDelay(policy, 2)).toBe(1999);
+  });
+});
@@ -0,0 +1,24 @@
+// src/utils/retryPolicy.ts - Per failure category retry limits and exponential backoff
+import { FailureCategory, RetryPolicy } from '../types';
+import { config } from '../config';
+
+export const getRetryPolicy = (category: FailureCategory = 'unknown'): RetryPolicy => {
+  return config.printing.retryPolicies[category] ?? config.printing.retryPolicies.unknown;
+};
+
+// attempt is the number of the attempt that just failed (1 = first try)
+export const shouldRetry = (policy: RetryPolicy, attempt: number): boolean => {
+  return attempt < policy.maxAttempts;
+};
+
+// Exponential backoff capped at maxDelayMs; with jitter the delay is drawn from the
+// upper half of the window so retries from a printer outage don't all land together
+export const computeRetryDelay = (policy: RetryPolicy, attempt: number): number => {
+  const delay: number = Math.min(policy.maxDelayMs, policy.baseDelayMs * Math.pow(2, attempt - 1));
+
+  if (!config.printing.retryJitter) {
+    return delay;
+  }
+
+  return Math.round(delay / 2 + Math.random() * (delay / 2));
+};
@@ -0,0 +1,59 @@
+import { parseTemplate, renderTemplate } from './template';
+
+describe('renderTemplate', () => {
+  it('fills in values and dotted paths', () => {
+    expect(renderTemplate('{{ child.name }} ({{child.age}}) in {{room}}', { child: { name: 'Ada', age: 4 }, room: 'Bears' }))
+      .toBe('Ada (4) in Bears');
+  });
+
+  it('HTML-escapes every value', () => {
+    expect(renderTemplate('<b>{{name}}</b>', { name: '<img src=x onerror="alert(1)">&\'' }))
+      .toBe('<b>&lt;img src=x onerror=&quot;alert(1)&quot;&gt;&amp;&#39;</b>');
+  });
+
+  it('renders missing and null values as empty', () => {
+    expect(renderTemplate('[{{missing}}][{{a.b.c}}][{{nil}}]', { a: null, nil: null })).toBe('[][][]');
+  });
+
+  it('repeats a section per array item, with {{.}} as the item', () => {
+    expect(renderTemplate('{{#allergies}}<li>{{.}}</li>{{/allergies}}', { allergies: ['Nuts', 'Milk'] }))
+      .toBe('<li>Nuts</li><li>Milk</li>');
+  });
+
+  it('looks names up in the item first, then in the outer data', () => {
+    const data = { room: 'Bears', children: [{ name: 'Ada' }, { name: 'Bo', room: 'Kids' }] };
+
+    expect(renderTemplate('{{#children}}{{name}}:{{room}} {{/children}}', data)).toBe('Ada:Bears Bo:Kids ');
+  });
+
+  it('shows a section once for a truthy value, entering objects', () => {
+    expect(renderTemplate('{{#pickup}}Pickup: {{name}}{{/pickup}}', { pickup: { name: 'Grace' } })).toBe('Pickup: Grace');
+    expect(renderTemplate('{{#vip}}VIP{{/vip}}', { vip: true })).toBe('VIP');
+  });
+
+  it('shows inverted sections for missing, false and empty values', () => {
+    const template: string = '{{^allergies}}None{{/allergies}}';
+
+    expect(renderTemplate(template, {})).toBe('None');
+    expect(renderTemplate(template, { allergies: false })).toBe('None');
+    expect(renderTemplate(template, { allergies: [] })).toBe('None');
+    expect(renderTemplate(template, { allergies: ['Nuts'] })).toBe('');
+  });
+
+  it('turns barcode helpers into placeholders, skipping empty values', () => {
+    expect(renderTemplate('{{qrcode code}}', { code: 'A&1' })).toBe('<barcode type="qrcode" value="A&amp;1"></barcode>');
+    expect(renderTemplate('{{code128 code}}', { code: '' })).toBe('');
+  });
+});
+
+describe('parseTemplate', () => {
+  it('rejects unbalanced sections', () => {
+    expect(() => parseTemplate('{{#a}}{{/b}}')).toThrow('Unexpected {{/b}}, expected {{/a}}');
+    expect(() => parseTemplate('{{/a}}')).toThrow('Unexpected {{/a}}');
+    expect(() => parseTemplate('{{#a}}')).toThrow('Unclosed section {{#a}}');
+  });
+
+  it('rejects unknown helpers', () => {
+    expect(() => parseTemplate('{{upper name}}')).toThrow('Unknown helper in {{upper name}}');
+  });
+});
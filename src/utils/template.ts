@@ -0,0 +1,126 @@
+// src/utils/template.ts - Logic-less label templates (a safe subset of Mustache)
+//
+//   {{child.name}}          value, HTML-escaped
+//   {{#allergies}}..{{/allergies}}  repeated per array item, shown once for other truthy values
+//   {{^allergies}}..{{/allergies}}  shown when the value is missing, false or an empty array
+//   {{.}}                   the current item inside a section
+//   {{qrcode securityCode}} barcode placeholder (code128, code39, qrcode, datamatrix),
+//                           drawn as SVG when the label prints
+//
+// There is no unescaped output, no partials and no code execution.
+import { BarcodeType } from '../types';
+import { BARCODE_TYPES } from './barcode';
+
+type TemplateNode =
+  | { type: 'text'; text: string; }
+  | { type: 'value'; path: string; }
+  | { type: 'barcode'; barcodeType: BarcodeType; path: string; }
+  | { type: 'section'; path: string; inverted: boolean; children: TemplateNode[]; };
+
+const TAG_PATTERN: RegExp = /\{\{\s*([#^/]?)\s*([\w.-]+)(?:\s+([\w.-]+))?\s*\}\}/g;
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;'
+};
+
+const escapeHtml = (value: string): string => value.replace(/[&<>"']/g, (char: string): string => HTML_ESCAPES[char]);
+
+// Throws on unbalanced sections, so a broken template is rejected when it is saved
+export const parseTemplate = (source: string): TemplateNode[] => {
+  const root: TemplateNode[] = [];
+  const stack: { path: string; children: TemplateNode[]; }[] = [{ path: '', children: root }];
+  let lastIndex: number = 0;
+
+  for (const match of source.matchAll(TAG_PATTERN)) {
+    const [tag, sigil, name, argument] = match;
+    const current = stack[stack.length - 1];
+
+    if (match.index! > lastIndex) {
+      current.children.push({ type: 'text', text: source.slice(lastIndex, match.index) });
+    }
+    lastIndex = match.index! + tag.length;
+
+    if (argument !== undefined) {
+      if (sigil || !BARCODE_TYPES.includes(name as BarcodeType)) {
+        throw new Error(`Unknown helper in ${tag}, expected one of ${BARCODE_TYPES.join(', ')}`);
+      }
+      current.children.push({ type: 'barcode', barcodeType: name as BarcodeType, path: argument });
+    } else if (sigil === '#' || sigil === '^') {
+      const section: TemplateNode = { type: 'section', path: name, inverted: sigil === '^', children: [] };
+      current.children.push(section);
+      stack.push({ path: name, children: section.children });
+    } else if (sigil === '/') {
+      if (stack.length === 1 || current.path !== name) {
+        throw new Error(`Unexpected {{/${name}}}${stack.length > 1 ? `, expected {{/${current.path}}}` : ''}`);
+      }
+      stack.pop();
+    } else {
+      current.children.push({ type: 'value', path: name });
+    }
+  }
+
+  if (stack.length > 1) {
+    throw new Error(`Unclosed section {{#${stack[stack.length - 1].path}}}`);
+  }
+
+  if (lastIndex < source.length) {
+    root.push({ type: 'text', text: source.slice(lastIndex) });
+  }
+
+  return root;
+};
+
+// Innermost context first, like Mustache: a name missing from an item falls back to the outer data
+const lookup = (contexts: any[], path: string): any => {
+  if (path === '.') {
+    return contexts[contexts.length - 1];
+  }
+
+  const [head, ...rest] = path.split('.');
+  for (let i = contexts.length - 1; i >= 0; i--) {
+    const context = contexts[i];
+    if (context !== null && typeof context === 'object' && head in context) {
+      return rest.reduce((value: any, key: string): any => (value === null || value === undefined ? undefined : value[key]), context[head]);
+    }
+  }
+
+  return undefined;
+};
+
+const renderNodes = (nodes: TemplateNode[], contexts: any[]): string =>
+  nodes.map((node: TemplateNode): string => {
+    if (node.type === 'text') {
+      return node.text;
+    }
+
+    const value = lookup(contexts, node.path);
+
+    if (node.type === 'value') {
+      return value === null || value === undefined ? '' : escapeHtml(String(value));
+    }
+
+    if (node.type === 'barcode') {
+      return value === null || value === undefined || value === ''
+        ? ''
+        : `<barcode type="${node.barcodeType}" value="${escapeHtml(String(value))}"></barcode>`;
+    }
+
+    const isEmpty: boolean = !value || (Array.isArray(value) && value.length === 0);
+    if (node.inverted) {
+      return isEmpty ? renderNodes(node.children, contexts) : '';
+    }
+    if (isEmpty) {
+      return '';
+    }
+    if (Array.isArray(value)) {
+      return value.map((item: any): string => renderNodes(node.children, [...contexts, item])).join('');
+    }
+    return renderNodes(node.children, typeof value === 'object' ? [...contexts, value] : contexts);
+  }).join('');
+
+export const renderTemplate = (source: string, data: Record<string, any>): string =>
+  renderNodes(parseTemplate(source), [data]);
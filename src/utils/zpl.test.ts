@@ -0,0 +1,55 @@
+import { buildGraphicLabel, cssLengthToInches, getPrinterDpi } from './zpl';
+import { config } from '../config';
+
+describe('cssLengthToInches', () => {
+  it('converts the units a label size can be given in', () => {
+    expect(cssLengthToInches('2in')).toBe(2);
+    expect(cssLengthToInches('50.8mm')).toBeCloseTo(2);
+    expect(cssLengthToInches('5.08cm')).toBeCloseTo(2);
+    expect(cssLengthToInches('144pt')).toBe(2);
+    expect(cssLengthToInches(' 192PX ')).toBe(2);
+  });
+
+  it('treats a bare number as CSS pixels', () => {
+    expect(cssLengthToInches('96')).toBe(1);
+  });
+
+  it('rejects lengths a label cannot have', () => {
+    expect(cssLengthToInches('auto')).toBeUndefined();
+    expect(cssLengthToInches('50%')).toBeUndefined();
+    expect(cssLengthToInches('0in')).toBeUndefined();
+    expect(cssLengthToInches('-2in')).toBeUndefined();
+  });
+});
+
+describe('buildGraphicLabel', () => {
+  it('sends the bitmap as one graphic field and prints the copies from it', () => {
+    const zpl: string = buildGraphicLabel({ hex: 'FF00F00F', bytesPerRow: 2, rows: 2 }, 3);
+
+    expect(zpl.split('\n')).toEqual([
+      '^XA',
+      '^PW16',
+      '^LL2',
+      '^LH0,0',
+      '^FO0,0^GFA,4,4,2,FF00F00F^FS',
+      '^PQ3,0,1,Y',
+      '^XZ'
+    ]);
+  });
+});
+
+describe('getPrinterDpi', () => {
+  const zpl = { ...config.printing.zpl };
+
+  afterEach(() => {
+    config.printing.zpl = { ...zpl };
+  });
+
+  it('uses the printer\'s own resolution over the default', () => {
+    config.printing.zpl = { ...zpl, dpi: 203, printerDpi: { 'Nursery Zebra': 300 } };
+
+    expect(getPrinterDpi('Nursery Zebra')).toBe(300);
+    expect(getPrinterDpi('Lobby Zebra')).toBe(203);
+    expect(getPrinterDpi()).toBe(203);
+  });
+});
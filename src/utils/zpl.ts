@@ -0,0 +1,39 @@
+// src/utils/zpl.ts - Label sizes in printer dots and ^GFA graphic field labels
+import { config } from '../config';
+
+// 1-bit image, rows of bytesPerRow bytes as uppercase hex, most significant bit = leftmost dot
+export interface MonochromeBitmap {
+  hex: string;
+  bytesPerRow: number;
+  rows: number;
+}
+
+const UNITS_PER_INCH: Record<string, number> = { in: 1, mm: 25.4, cm: 2.54, pt: 72, px: 96 };
+
+// Resolution a printer's labels are laid out for, ZPL_DPI unless PRINTER_DPI overrides it
+export const getPrinterDpi = (printerName?: string): number =>
+  (printerName ? config.printing.zpl.printerDpi[printerName] : undefined) ?? config.printing.zpl.dpi;
+
+// "2in", "51mm", "384px" -> inches; undefined for anything a label size can't be
+export const cssLengthToInches = (value: string): number | undefined => {
+  const match: RegExpMatchArray | null = value.trim().toLowerCase().match(/^(\d*\.?\d+)\s*(in|mm|cm|pt|px)?$/);
+  if (!match) return undefined;
+
+  const amount: number = parseFloat(match[1]);
+  return amount > 0 ? amount / UNITS_PER_INCH[match[2] ?? 'px'] : undefined;
+};
+
+// One graphic field covering the whole label; ^PQ prints the copies from a single download
+export const buildGraphicLabel = (bitmap: MonochromeBitmap, copies: number): string => {
+  const totalBytes: number = bitmap.bytesPerRow * bitmap.rows;
+
+  return [
+    '^XA',
+    `^PW${bitmap.bytesPerRow * 8}`,
+    `^LL${bitmap.rows}`,
+    '^LH0,0',
+    `^FO0,0^GFA,${totalBytes},${totalBytes},${bitmap.bytesPerRow},${bitmap.hex}^FS`,
+    `^PQ${copies},0,1,Y`,
+    '^XZ'
+  ].join('\n');
+};